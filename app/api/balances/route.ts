@@ -1,32 +1,81 @@
 /**
  * API route handler for fetching Solana token balances
  * Acts as a proxy to the Solana RPC endpoint to avoid CORS issues
+ * A single address returns its full portfolio; many addresses return
+ * registered token balances from a short-lived cache
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
-import { getAccount, getAssociatedTokenAddress } from "@solana/spl-token";
+import { PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { formatBaseUnits } from "@/lib/amount";
+import { isValidAddress } from "@/lib/address";
+import {
+  getWalletBalances,
+  MAX_BALANCE_ADDRESSES,
+  type MultiBalanceResponse,
+} from "@/lib/balances";
+import {
+  DUST_THRESHOLD,
+  getTokenInfo,
+  getUsdcMint,
+  type TokenBalance,
+} from "@/lib/tokens";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster, type Cluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
 
 /**
- * Solana Devnet RPC endpoint
+ * Respond with balances for a comma-separated list of wallets
  */
-const RPC_URL =
-  process.env.SOLANA_RPC_URL ||
-  process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
-  "https://api.devnet.solana.com";
+async function getManyBalances(cluster: Cluster, addressList: string) {
+  const addresses = Array.from(
+    new Set(
+      addressList
+        .split(",")
+        .map((address) => address.trim())
+        .filter(Boolean)
+    )
+  );
 
-/**
- * USDC mint address on Solana devnet
- * Updated to use devnet USDC token: 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU
- */
-const USDC_MINT_ADDRESS =
-  process.env.NEXT_PUBLIC_USDC_MINT_ADDRESS ||
-  "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+  if (addresses.length === 0) {
+    return errorResponse("INVALID_REQUEST", "Missing wallet addresses");
+  }
+  if (addresses.length > MAX_BALANCE_ADDRESSES) {
+    return errorResponse(
+      "INVALID_REQUEST",
+      `At most ${MAX_BALANCE_ADDRESSES} addresses per request`
+    );
+  }
+  const invalid = addresses.find((address) => !isValidAddress(address));
+  if (invalid) {
+    return errorResponse(
+      "INVALID_ADDRESS",
+      "Invalid Solana address",
+      `${invalid} is not a valid Solana address`
+    );
+  }
+
+  const balances = await getWalletBalances(
+    getConnection(cluster),
+    cluster,
+    addresses
+  );
+  const response: MultiBalanceResponse = {
+    slot: Math.min(...balances.map((balance) => balance.slot)),
+    balances,
+  };
+  return NextResponse.json(response);
+}
 
 /**
- * Handle GET request to fetch balances for a Solana wallet address
- * @param request - Next.js request object containing wallet address as query parameter
- * @returns JSON response with SOL and USDC balances
+ * Handle GET request to fetch balances for one or many Solana wallet addresses
+ * @param request - Next.js request object containing address (or comma-separated addresses) and cluster as query parameters
+ * @returns JSON response with SOL, USDC and all SPL token balances, or per-wallet balances for many addresses
  */
 export async function GET(request: NextRequest) {
   try {
@@ -34,12 +83,21 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const address = searchParams.get("address");
 
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Batched lookup for many wallets
+    const addressList = searchParams.get("addresses");
+    if (addressList !== null) {
+      return await getManyBalances(cluster, addressList);
+    }
+
     // Validate address parameter
     if (!address) {
-      return NextResponse.json(
-        { error: "Missing wallet address" },
-        { status: 400 }
-      );
+      return errorResponse("INVALID_REQUEST", "Missing wallet address");
     }
 
     // Validate Solana address format
@@ -47,64 +105,71 @@ export async function GET(request: NextRequest) {
     try {
       publicKey = new PublicKey(address);
     } catch {
-      return NextResponse.json(
-        { error: "Invalid Solana address" },
-        { status: 400 }
-      );
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address");
     }
 
-    // Validate USDC mint address
-    if (!USDC_MINT_ADDRESS) {
-      return NextResponse.json(
-        {
-          error: "USDC mint address not configured",
-          message:
-            "Set NEXT_PUBLIC_USDC_MINT_ADDRESS to a valid mint address.",
-        },
-        { status: 500 }
-      );
-    }
+    const connection = getConnection(cluster);
 
-    const connection = new Connection(RPC_URL, "confirmed");
-    const usdcMint = new PublicKey(USDC_MINT_ADDRESS);
+    // Fetch SOL balance and every SPL token account the owner holds
+    const [solBalanceResult, tokenAccounts] = await Promise.all([
+      connection.getBalanceAndContext(publicKey),
+      connection.getParsedTokenAccountsByOwner(publicKey, {
+        programId: TOKEN_PROGRAM_ID,
+      }),
+    ]);
+    const solLamports = solBalanceResult.value;
+    const solBalance = solLamports / LAMPORTS_PER_SOL;
 
-    // Fetch SOL balance
-    const solBalanceLamports = await connection.getBalance(publicKey);
-    const solBalance = solBalanceLamports / LAMPORTS_PER_SOL;
+    // Merge accounts per mint (an owner may hold more than one account)
+    const byMint = new Map<string, TokenBalance>();
+    for (const { account } of tokenAccounts.value) {
+      const info = account.data.parsed?.info;
+      if (!info?.mint || !info.tokenAmount) continue;
 
-    // Get associated token account address for USDC
-    const tokenAccountAddress = await getAssociatedTokenAddress(
-      usdcMint,
-      publicKey
-    );
+      const mint: string = info.mint;
+      const decimals: number = info.tokenAmount.decimals;
+      const existing = byMint.get(mint);
+      const amount =
+        BigInt(existing?.amount ?? "0") + BigInt(info.tokenAmount.amount);
+      const registered = getTokenInfo(mint, cluster);
 
-    // Fetch USDC balance
-    let usdcBalance = 0;
-    try {
-      const tokenAccountInfo = await getAccount(connection, tokenAccountAddress);
-      // USDC has 6 decimals
-      usdcBalance = Number(tokenAccountInfo.amount) / 10 ** 6;
-    } catch {
-      // Token account doesn't exist yet (no USDC balance)
-      console.log("Token account not found, balance is 0");
+      byMint.set(mint, {
+        mint,
+        symbol: registered?.symbol ?? `${mint.slice(0, 4)}...`,
+        name: registered?.name ?? "Unknown token",
+        decimals,
+        logo: registered?.logo,
+        amount: amount.toString(),
+        uiAmount: Number(formatBaseUnits(amount, decimals)),
+        known: !!registered,
+        dust: false,
+      });
     }
 
-    // Return formatted balances
+    const tokens = Array.from(byMint.values())
+      .map((token) => ({ ...token, dust: token.uiAmount < DUST_THRESHOLD }))
+      .sort(
+        (a, b) => Number(b.known) - Number(a.known) || b.uiAmount - a.uiAmount
+      );
+
+    // Clusters without a USDC mint report a zero USDC balance
+    const usdcMint = getUsdcMint(cluster);
+    const usdcBalance =
+      tokens.find((token) => token.mint === usdcMint)?.uiAmount ?? 0;
+
+    // Return balances unrounded; the client formats them for display
     return NextResponse.json({
-      solBalance: parseFloat(solBalance.toFixed(3)),
-      usdcBalance: parseFloat(usdcBalance.toFixed(2)),
+      slot: Math.min(solBalanceResult.context.slot, tokenAccounts.context.slot),
+      solLamports: String(solLamports),
+      solBalance,
+      usdcBalance,
+      tokens,
     });
   } catch (error) {
     // Log error for debugging
     console.error("Failed to fetch balances:", error);
 
     // Return error response
-    return NextResponse.json(
-      {
-        error: "Failed to fetch balances",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
+    return toErrorResponse(error, "Failed to fetch balances");
   }
 }
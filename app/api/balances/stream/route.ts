@@ -0,0 +1,211 @@
+/**
+ * API route handler for live balance updates
+ * Streams server-sent events whenever the owner's SOL or USDC balance changes
+ */
+
+import { NextRequest } from "next/server";
+import { PublicKey, type AccountInfo } from "@solana/web3.js";
+import {
+  AccountLayout,
+  ACCOUNT_SIZE,
+  getAssociatedTokenAddress,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { formatBaseUnits } from "@/lib/amount";
+import { BALANCE_EVENT, type BalanceUpdate } from "@/lib/balance-stream";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { fetchMintDecimals } from "@/lib/mint";
+import { getStreamConnection } from "@/lib/solana-client";
+import { getUsdcToken } from "@/lib/tokens";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Interval between keep-alive comments, below common proxy idle timeouts
+ */
+const KEEP_ALIVE_MS = 25_000;
+
+/**
+ * Account watched for one asset
+ */
+interface WatchedAccount {
+  address: PublicKey;
+  mint: string | null;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+}
+
+/**
+ * Read the amount a watched account holds
+ * Token accounts report their token amount (zero once closed), the owner its lamports
+ */
+function readAccountAmount(
+  account: WatchedAccount,
+  info: AccountInfo<Buffer> | null
+): bigint {
+  if (account.mint === null) return BigInt(info?.lamports ?? 0);
+  if (
+    !info ||
+    !info.owner.equals(TOKEN_PROGRAM_ID) ||
+    info.data.length < ACCOUNT_SIZE
+  ) {
+    return BigInt(0);
+  }
+  return AccountLayout.decode(info.data.subarray(0, ACCOUNT_SIZE)).amount;
+}
+
+/**
+ * Build the update sent for a watched account's new amount
+ */
+function toUpdate(account: WatchedAccount, amount: bigint): BalanceUpdate {
+  return {
+    mint: account.mint,
+    symbol: account.symbol,
+    decimals: account.decimals,
+    amount: amount.toString(),
+    delta: (amount - account.amount).toString(),
+    uiAmount: Number(formatBaseUnits(amount, account.decimals)),
+  };
+}
+
+/**
+ * Handle GET request to stream balance changes for a wallet
+ * @param request - Next.js request with address and cluster as query parameters
+ * @returns text/event-stream response of balance events
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const address = searchParams.get("address");
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Validate address parameter
+    if (!address) {
+      return errorResponse("INVALID_REQUEST", "Missing wallet address");
+    }
+
+    let owner: PublicKey;
+    try {
+      owner = new PublicKey(address);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address");
+    }
+
+    const connection = getStreamConnection(cluster);
+
+    // Watch the owner for SOL and its USDC token account where the USDC mint
+    // exists, scaled by the decimals the mint reports
+    const watched: WatchedAccount[] = [
+      {
+        address: owner,
+        mint: null,
+        symbol: "SOL",
+        decimals: 9,
+        amount: BigInt(0),
+      },
+    ];
+    const usdc = getUsdcToken(cluster);
+    const usdcMint = usdc.mint ? new PublicKey(usdc.mint) : null;
+    const usdcDecimals = usdcMint
+      ? await fetchMintDecimals(connection, usdcMint)
+      : null;
+    if (usdcMint && usdcDecimals !== null) {
+      watched.push({
+        address: await getAssociatedTokenAddress(usdcMint, owner),
+        mint: usdcMint.toBase58(),
+        symbol: usdc.symbol,
+        decimals: usdcDecimals,
+        amount: BigInt(0),
+      });
+    }
+
+    // Current balances, sent first so the client starts in sync
+    const accounts = await connection.getMultipleAccountsInfo(
+      watched.map((account) => account.address)
+    );
+    const initial = watched.map((account, index) => {
+      account.amount = readAccountAmount(account, accounts[index]);
+      return toUpdate(account, account.amount);
+    });
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const write = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+        const send = (update: BalanceUpdate) =>
+          write(`event: ${BALANCE_EVENT}\ndata: ${JSON.stringify(update)}\n\n`);
+
+        initial.forEach(send);
+
+        const subscriptions = watched.map((account) =>
+          connection.onAccountChange(
+            account.address,
+            (info) => {
+              const amount = readAccountAmount(account, info);
+              if (amount === account.amount) return;
+              send(toUpdate(account, amount));
+              account.amount = amount;
+            },
+            { commitment: "confirmed" }
+          )
+        );
+        const keepAlive = setInterval(
+          () => write(": keep-alive\n\n"),
+          KEEP_ALIVE_MS
+        );
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(keepAlive);
+          subscriptions.forEach((id) => {
+            connection.removeAccountChangeListener(id).catch((error) => {
+              console.error("Failed to remove account listener:", error);
+            });
+          });
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        };
+        request.signal.addEventListener("abort", cleanup);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    // Log error for debugging
+    console.error("Failed to open balance stream:", error);
+
+    // Return error response
+    return toErrorResponse(error, "Failed to open balance stream");
+  }
+}
@@ -1,25 +1,310 @@
 /**
  * API route handler for USDC faucet claims
- * 
- * DISABLED: Faucet functionality has been disabled.
- * Users should use https://faucet.circle.com/ to get testnet USDC.
+ * Sends USDC on the faucet cluster (and optionally a small SOL drip) from the faucet wallet
+ * Claims are rate limited per address, and per IP behind a trusted proxy, and
+ * recorded in a ledger
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+} from "@solana/spl-token";
+import bs58 from "bs58";
+import { toBaseUnits } from "@/lib/amount";
+import { broadcastTransaction } from "@/lib/broadcast";
+import {
+  findLastClaim,
+  recordClaimStatus,
+  withLedger,
+} from "@/lib/faucet-ledger";
+import { loadKeypairFromEnv } from "@/lib/keypair";
+import { fetchMintDecimals } from "@/lib/mint";
+import { AppError } from "@/lib/errors";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { FAUCET_CLUSTER, getExplorerUrl, parseCluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
+import { getUsdcMint } from "@/lib/tokens";
 
 // Runtime configuration for Node.js environment
 export const runtime = "nodejs";
 
 /**
- * POST handler for faucet claims
- * Returns an error indicating the faucet is disabled
+ * Faucet switch, shared with the client so the claim UI matches the server
  */
-export async function POST() {
-  return NextResponse.json(
-    {
-      ok: false,
-      error: "Faucet functionality is disabled. Please use https://faucet.circle.com/ to get testnet USDC on Solana Devnet.",
-    },
-    { status: 503 }
-  );
+const FAUCET_ENABLED = process.env.NEXT_PUBLIC_FAUCET_ENABLED === "true";
+
+/**
+ * Allowed USDC claim tiers
+ */
+const CLAIM_TIERS = [2, 5, 10];
+
+/**
+ * Cooldowns between claims, in minutes
+ */
+const ADDRESS_COOLDOWN_MINUTES = Number(
+  process.env.FAUCET_ADDRESS_COOLDOWN_MINUTES || 24 * 60
+);
+const IP_COOLDOWN_MINUTES = Number(
+  process.env.FAUCET_IP_COOLDOWN_MINUTES || 60
+);
+
+/**
+ * SOL drip sent for gas when the recipient holds less than this amount
+ */
+const SOL_DRIP_LAMPORTS = Math.round(
+  Number(process.env.FAUCET_SOL_DRIP || 0.01) * LAMPORTS_PER_SOL
+);
+
+/**
+ * Claim signed under the ledger lock, ready to broadcast
+ */
+interface PreparedClaim {
+  transaction: VersionedTransaction;
+  lastValidBlockHeight: number;
+  signature: string;
+  solLamports: number;
+}
+
+/**
+ * Reverse proxies in front of the app that append to x-forwarded-for; 0
+ * means none, and forwarded headers are then ignored as client-supplied
+ */
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+
+/**
+ * Resolve the client IP from the entry the outermost trusted proxy appended
+ * Entries further left are client-supplied and ignored
+ * @returns The IP, or null without a trusted proxy, when claims are limited
+ * per recipient only
+ */
+function getClientIp(request: NextRequest): string | null {
+  if (TRUSTED_PROXY_HOPS <= 0) return null;
+  const hops = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - TRUSTED_PROXY_HOPS] || null;
+}
+
+/**
+ * Handle POST request to claim USDC from the faucet
+ * @param request - Next.js request with address, amount (2, 5 or 10), optional includeSol and cluster
+ * @returns JSON response with the claim transaction
+ */
+export async function POST(request: NextRequest) {
+  const faucetKeypair = FAUCET_ENABLED
+    ? loadKeypairFromEnv("FAUCET_PRIVATE_KEY")
+    : null;
+  if (!faucetKeypair) {
+    return errorResponse(
+      "NOT_CONFIGURED",
+      "Faucet functionality is disabled. Please use https://faucet.circle.com/ to get testnet USDC on Solana Devnet."
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { address, amount, includeSol } = body;
+
+    // Validate cluster against the allow-list; the faucet only pays out on its own cluster
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+    const usdcMintAddress = getUsdcMint(cluster);
+    if (cluster !== FAUCET_CLUSTER || !usdcMintAddress) {
+      return errorResponse(
+        "NOT_CONFIGURED",
+        `The faucet is only available on ${FAUCET_CLUSTER}`
+      );
+    }
+
+    // Validate required fields
+    if (!address || !amount) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: address, amount"
+      );
+    }
+
+    let recipient: PublicKey;
+    try {
+      recipient = new PublicKey(address);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address");
+    }
+
+    const claimAmount = Number(amount);
+    if (!CLAIM_TIERS.includes(claimAmount)) {
+      return errorResponse(
+        "INVALID_AMOUNT",
+        `Amount must be one of ${CLAIM_TIERS.join(", ")} USDC`
+      );
+    }
+
+    const ip = getClientIp(request);
+    const connection = getConnection(cluster);
+    const usdcMint = new PublicKey(usdcMintAddress);
+
+    // Check the cooldowns, sign and record the claim as submitted under the
+    // ledger lock, then broadcast outside it so a slow claim does not hold
+    // up others; a claim that lands after the broadcast gives up still
+    // counts towards the recipient's cooldown
+    const prepared = await withLedger(
+      async (claims, append): Promise<PreparedClaim | Response> => {
+        const now = Date.now();
+
+        // Enforce per-address and, where the client IP is known, per-IP cooldowns
+        const lastByAddress = findLastClaim(
+          claims,
+          (claim) => claim.address === recipient.toBase58()
+        );
+        const lastByIp = ip
+          ? findLastClaim(claims, (claim) => claim.ip === ip)
+          : undefined;
+        const retryAt = Math.max(
+          lastByAddress
+            ? lastByAddress.claimedAt + ADDRESS_COOLDOWN_MINUTES * 60_000
+            : 0,
+          lastByIp ? lastByIp.claimedAt + IP_COOLDOWN_MINUTES * 60_000 : 0
+        );
+        if (retryAt > now) {
+          const retryAfterSeconds = Math.ceil((retryAt - now) / 1000);
+          return errorResponse(
+            "RATE_LIMITED",
+            "Faucet cooldown active",
+            `Try again in ${Math.ceil(retryAfterSeconds / 60)} minutes.`,
+            { headers: { "Retry-After": String(retryAfterSeconds) } }
+          );
+        }
+
+        const faucetTokenAccount = await getAssociatedTokenAddress(
+          usdcMint,
+          faucetKeypair.publicKey
+        );
+        const recipientTokenAccount = await getAssociatedTokenAddress(
+          usdcMint,
+          recipient
+        );
+        const decimals = await fetchMintDecimals(connection, usdcMint);
+        if (decimals === null) {
+          throw new AppError(
+            "MINT_NOT_FOUND",
+            "USDC mint not found on this cluster"
+          );
+        }
+
+        const instructions = [
+          createAssociatedTokenAccountIdempotentInstruction(
+            faucetKeypair.publicKey, // Payer
+            recipientTokenAccount, // Associated token account address
+            recipient, // Owner
+            usdcMint // Mint
+          ),
+          createTransferCheckedInstruction(
+            faucetTokenAccount, // Source token account
+            usdcMint, // Mint
+            recipientTokenAccount, // Destination token account
+            faucetKeypair.publicKey, // Owner
+            toBaseUnits(String(claimAmount), decimals) as bigint, // Amount in smallest unit
+            decimals // Mint decimals
+          ),
+        ];
+
+        // Top up SOL for gas only when the recipient is nearly empty
+        let solLamports = 0;
+        if (includeSol && SOL_DRIP_LAMPORTS > 0) {
+          const balance = await connection.getBalance(recipient);
+          if (balance < SOL_DRIP_LAMPORTS) {
+            solLamports = SOL_DRIP_LAMPORTS;
+            instructions.push(
+              SystemProgram.transfer({
+                fromPubkey: faucetKeypair.publicKey,
+                toPubkey: recipient,
+                lamports: solLamports,
+              })
+            );
+          }
+        }
+
+        const { blockhash, lastValidBlockHeight } =
+          await connection.getLatestBlockhash("finalized");
+        const transaction = new VersionedTransaction(
+          new TransactionMessage({
+            payerKey: faucetKeypair.publicKey,
+            recentBlockhash: blockhash,
+            instructions,
+          }).compileToV0Message()
+        );
+        transaction.sign([faucetKeypair]);
+        const signature = bs58.encode(transaction.signatures[0]);
+
+        await append({
+          address: recipient.toBase58(),
+          ip,
+          amount: claimAmount,
+          solLamports,
+          signature,
+          status: "submitted",
+          claimedAt: now,
+        });
+        return { transaction, lastValidBlockHeight, signature, solLamports };
+      }
+    );
+    if (prepared instanceof Response) return prepared;
+
+    const result = await broadcastTransaction(
+      connection,
+      prepared.transaction,
+      prepared.lastValidBlockHeight
+    );
+    await recordClaimStatus(prepared.signature, result.status);
+
+    if (result.status === "expired") {
+      return errorResponse(
+        "TRANSACTION_EXPIRED",
+        "Faucet transfer expired before confirmation, please claim again"
+      );
+    }
+    if (result.status === "timeout") {
+      return errorResponse(
+        "TRANSACTION_UNCONFIRMED",
+        "Faucet transfer has not confirmed yet",
+        "Check your balance shortly before claiming again"
+      );
+    }
+    if (result.status !== "confirmed") {
+      return errorResponse(
+        result.error?.code ?? "TRANSACTION_FAILED",
+        "Faucet transfer failed",
+        result.error?.message
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      usdcTx: {
+        signature: prepared.signature,
+        url: getExplorerUrl("tx", prepared.signature, cluster),
+      },
+      solDrip: prepared.solLamports / LAMPORTS_PER_SOL,
+    });
+  } catch (error) {
+    console.error("Failed to process faucet claim:", error);
+
+    return toErrorResponse(error, "Failed to process faucet claim");
+  }
 }
@@ -0,0 +1,120 @@
+/**
+ * API route handler for exporting wallet activity
+ * Collects the owner's USDC movements in a date range with the opening and
+ * closing balances and totals statements need
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddress } from "@solana/spl-token";
+import {
+  MAX_EXPORT_RANGE_DAYS,
+  type ActivityExport,
+} from "@/lib/activity-export";
+import { formatBaseUnits } from "@/lib/amount";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { collectActivity } from "@/lib/history";
+import { getConnection } from "@/lib/solana-client";
+import { getUsdcToken } from "@/lib/tokens";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+
+/**
+ * Decimals of SOL amounts, for fees
+ */
+const SOL_DECIMALS = 9;
+
+/**
+ * Handle GET request to export activity for a date range
+ * @param request - Next.js request with address, from and to (unix seconds, to exclusive) and cluster
+ * @returns JSON response with movements oldest first, balances and totals
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const address = searchParams.get("address");
+    const from = Number(searchParams.get("from"));
+    const to = Number(searchParams.get("to"));
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    if (!address) {
+      return errorResponse("INVALID_REQUEST", "Missing wallet address");
+    }
+
+    let owner: PublicKey;
+    try {
+      owner = new PublicKey(address);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address");
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from >= to) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Invalid date range",
+        "from and to must be unix seconds with from before to"
+      );
+    }
+    if (to - from > MAX_EXPORT_RANGE_DAYS * 24 * 60 * 60) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `Date range is limited to ${MAX_EXPORT_RANGE_DAYS} days`
+      );
+    }
+
+    const usdc = getUsdcToken(cluster);
+    if (!usdc.mint) {
+      return errorResponse(
+        "NOT_CONFIGURED",
+        "USDC mint address not configured",
+        `No USDC mint is configured for ${cluster}`
+      );
+    }
+
+    const connection = getConnection(cluster);
+    const tokenAccount = await getAssociatedTokenAddress(
+      new PublicKey(usdc.mint),
+      owner
+    );
+    const activity = await collectActivity(
+      connection,
+      [owner, tokenAccount],
+      owner.toBase58(),
+      usdc.mint,
+      usdc.decimals,
+      from,
+      to
+    );
+
+    const response: ActivityExport = {
+      address: owner.toBase58(),
+      cluster,
+      symbol: usdc.symbol,
+      from,
+      to,
+      openingBalance: formatBaseUnits(activity.openingBalance, usdc.decimals),
+      closingBalance: formatBaseUnits(activity.closingBalance, usdc.decimals),
+      totalIn: formatBaseUnits(activity.totalIn, usdc.decimals),
+      totalOut: formatBaseUnits(activity.totalOut, usdc.decimals),
+      totalFees: formatBaseUnits(activity.totalFees, SOL_DECIMALS),
+      entries: activity.entries,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to export activity:", error);
+
+    return toErrorResponse(error, "Failed to export activity");
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * API route handler for fetching wallet transaction history
+ * Pages through signatures for the owner and its USDC token account
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddress } from "@solana/spl-token";
+import {
+  fetchSignaturePage,
+  MAX_HISTORY_PAGE_SIZE,
+  parseHistoryEntry,
+  type HistoryPage,
+} from "@/lib/history";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
+import { getUsdcMint } from "@/lib/tokens";
+
+/**
+ * Default number of entries per page
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Handle GET request to fetch a page of transaction history
+ * @param request - Next.js request with address, optional before cursor, limit and cluster
+ * @returns JSON response with parsed history entries and the next cursor
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const address = searchParams.get("address");
+    const before = searchParams.get("before") || undefined;
+    const limitParam = searchParams.get("limit");
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Validate address parameter
+    if (!address) {
+      return errorResponse("INVALID_REQUEST", "Missing wallet address");
+    }
+
+    let owner: PublicKey;
+    try {
+      owner = new PublicKey(address);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address");
+    }
+
+    // Validate page size
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+    if (isNaN(limit) || limit <= 0 || limit > MAX_HISTORY_PAGE_SIZE) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `Limit must be between 1 and ${MAX_HISTORY_PAGE_SIZE}`
+      );
+    }
+
+    const connection = getConnection(cluster);
+    const usdcMint = getUsdcMint(cluster);
+
+    // Include the USDC token account where the cluster has a USDC mint
+    const tracked = [owner];
+    if (usdcMint) {
+      tracked.push(
+        await getAssociatedTokenAddress(new PublicKey(usdcMint), owner)
+      );
+    }
+
+    const { signatures, nextCursor } = await fetchSignaturePage(
+      connection,
+      tracked,
+      limit,
+      before
+    );
+
+    const transactions =
+      signatures.length > 0
+        ? await connection.getParsedTransactions(
+            signatures.map((info) => info.signature),
+            { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+          )
+        : [];
+
+    const page: HistoryPage = {
+      entries: signatures.map((info, i) =>
+        parseHistoryEntry(info, transactions[i], owner.toBase58(), usdcMint)
+      ),
+      nextCursor,
+    };
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error("Failed to fetch history:", error);
+
+    return toErrorResponse(error, "Failed to fetch history");
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * API route handler for a single payment link
+ * GET returns the link's amount, status and whether its escrow is funded;
+ * POST records a built link once its sender signed the funding transaction
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey, VersionedTransaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import nacl from "tweetnacl";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import {
+  appendPaymentLink,
+  clearPendingLink,
+  findPaymentLink,
+  getEscrowBalances,
+  getPendingLink,
+  pruneUnfundedLinks,
+  resolveSweep,
+  toPaymentLinkView,
+} from "@/lib/payment-link-store";
+import { getConnection } from "@/lib/solana-client";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+
+/**
+ * Handle GET request to look up a payment link
+ * @param request - Next.js request with cluster as a query parameter
+ * @param context - Route parameters with the link id
+ * @returns JSON response with the link
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(request.nextUrl.searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    const found = await findPaymentLink(id, cluster);
+    if (!found) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Payment link not found",
+        `No payment link ${id} on ${cluster}`
+      );
+    }
+
+    const connection = getConnection(cluster);
+    const link = await resolveSweep(connection, found);
+    const [balance] = await getEscrowBalances(connection, [link]);
+    return NextResponse.json(toPaymentLinkView(link, balance));
+  } catch (error) {
+    console.error("Failed to fetch payment link:", error);
+
+    return toErrorResponse(error, "Failed to fetch payment link");
+  }
+}
+
+/**
+ * Handle POST request to record a payment link before its funding is sent
+ * The sender's signature on the funding proves it controls the wallet, so the
+ * limits on links waiting for funding count real senders
+ * @param request - Next.js request with base64 transaction, base58 sender
+ * signature and cluster
+ * @param context - Route parameters with the link id
+ * @returns JSON response with the link id
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+    const { transaction, signature } = body;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    if (!transaction || !signature) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: transaction, signature"
+      );
+    }
+
+    let tx: VersionedTransaction;
+    try {
+      tx = VersionedTransaction.deserialize(
+        Buffer.from(String(transaction), "base64")
+      );
+    } catch {
+      return errorResponse(
+        "INVALID_TRANSACTION",
+        "Invalid transaction encoding"
+      );
+    }
+
+    // Only the funding built for this link may be recorded
+    const messageBytes = tx.message.serialize();
+    const link = getPendingLink(
+      id,
+      Buffer.from(messageBytes).toString("base64")
+    );
+    if (!link || link.cluster !== cluster) {
+      return errorResponse(
+        "INVALID_TRANSACTION",
+        "Payment link not recognized",
+        "Create the payment link again"
+      );
+    }
+
+    let signatureBytes: Uint8Array | null = null;
+    try {
+      signatureBytes = bs58.decode(String(signature));
+    } catch {
+      // Reported below as a failed verification
+    }
+    if (
+      signatureBytes?.length !== 64 ||
+      !nacl.sign.detached.verify(
+        messageBytes,
+        signatureBytes,
+        new PublicKey(link.sender).toBytes()
+      )
+    ) {
+      return errorResponse(
+        "INVALID_SIGNATURE",
+        "Signature verification failed",
+        "The funding was not signed by the link's sender"
+      );
+    }
+
+    await pruneUnfundedLinks(getConnection(cluster), cluster);
+    await appendPaymentLink(link);
+    clearPendingLink(id);
+
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error("Failed to record payment link:", error);
+
+    return toErrorResponse(error, "Failed to record payment link");
+  }
+}
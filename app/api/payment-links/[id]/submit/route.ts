@@ -0,0 +1,134 @@
+/**
+ * API route handler for submitting payment link sweeps
+ * Verifies the escrow signature on a sweep this server built, marks the link
+ * as sweeping, broadcasts it and records the link as claimed or reclaimed
+ * once it confirms
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { VersionedTransaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import nacl from "tweetnacl";
+import { broadcastTransaction } from "@/lib/broadcast";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import {
+  clearPendingSweep,
+  finishSweep,
+  getPendingSweep,
+  startSweep,
+} from "@/lib/payment-link-store";
+import { getConnection } from "@/lib/solana-client";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+
+/**
+ * Handle POST request to submit a signed sweep
+ * @param request - Next.js request with base64 transaction, hex escrow signature and cluster
+ * @param context - Route parameters with the link id
+ * @returns JSON response with confirmed, expired, failed or timeout status
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+    const { transaction, signature } = body;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    if (!transaction || !signature) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: transaction, signature"
+      );
+    }
+
+    let tx: VersionedTransaction;
+    try {
+      tx = VersionedTransaction.deserialize(
+        Buffer.from(String(transaction), "base64")
+      );
+    } catch {
+      return errorResponse(
+        "INVALID_TRANSACTION",
+        "Invalid transaction encoding"
+      );
+    }
+
+    // Only the sweep built for this link may be submitted
+    const messageBytes = tx.message.serialize();
+    const sweep = getPendingSweep(
+      id,
+      Buffer.from(messageBytes).toString("base64")
+    );
+    if (!sweep) {
+      return errorResponse(
+        "INVALID_TRANSACTION",
+        "Sweep transaction not recognized",
+        "Build the sweep again and retry"
+      );
+    }
+
+    const hex = String(signature).replace(/^0x/, "");
+    const signatureBytes = /^[0-9a-fA-F]{128}$/.test(hex)
+      ? Uint8Array.from(Buffer.from(hex, "hex"))
+      : null;
+    const escrow = tx.message.staticAccountKeys[0];
+    if (
+      !signatureBytes ||
+      !nacl.sign.detached.verify(messageBytes, signatureBytes, escrow.toBytes())
+    ) {
+      return errorResponse(
+        "INVALID_SIGNATURE",
+        "Signature verification failed",
+        "The link secret does not match its escrow"
+      );
+    }
+    tx.addSignature(escrow, signatureBytes);
+
+    // Mark the link under the ledger lock and broadcast outside it, so a
+    // slow sweep does not hold up other links; a sweep whose outcome is not
+    // known leaves the link sweeping until its status is resolved
+    const txId = bs58.encode(tx.signatures[0]);
+    await startSweep(id, cluster, escrow.toBase58(), {
+      signature: txId,
+      to: sweep.to,
+      action: sweep.action,
+      lastValidBlockHeight: sweep.lastValidBlockHeight,
+    });
+    clearPendingSweep(id);
+
+    const result = await broadcastTransaction(
+      getConnection(cluster),
+      tx,
+      sweep.lastValidBlockHeight
+    );
+    await finishSweep(
+      id,
+      cluster,
+      txId,
+      result.status === "confirmed"
+        ? "confirmed"
+        : result.status === "failed" || result.status === "expired"
+          ? "dropped"
+          : "unknown"
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to submit payment link sweep:", error);
+
+    return toErrorResponse(error, "Failed to submit payment link sweep");
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * API route handler for building payment link sweeps
+ * Builds the transaction, paid and signed by the escrow, that moves a link's
+ * USDC and leftover SOL to the recipient, or back to the sender after expiry,
+ * for callers that prove they hold the link secret
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+  getMinimumBalanceForRentExemptAccount,
+} from "@solana/spl-token";
+import nacl from "tweetnacl";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { fetchMintDecimals } from "@/lib/mint";
+import {
+  findPaymentLink,
+  getEscrowBalances,
+  getEscrowTokenAccount,
+  rememberSweep,
+  resolveSweep,
+} from "@/lib/payment-link-store";
+import {
+  getSweepProofMessage,
+  type PaymentLinkAction,
+} from "@/lib/payment-links";
+import { getConnection } from "@/lib/solana-client";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+
+/**
+ * Fee for the escrow's single signature; sweeps carry no priority fee
+ */
+const SWEEP_FEE_LAMPORTS = 5_000;
+
+/**
+ * Handle POST request to build a sweep for a payment link
+ * @param request - Next.js request with to, action (claim or reclaim), cluster
+ * and proof, the hex escrow signature of the sweep proof message
+ * @param context - Route parameters with the link id
+ * @returns JSON response with the transaction for the escrow to sign
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+    const action: PaymentLinkAction = body.action;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    if (action !== "claim" && action !== "reclaim") {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Invalid action, expected claim or reclaim"
+      );
+    }
+
+    let toPublicKey: PublicKey;
+    try {
+      toPublicKey = new PublicKey(body.to);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+
+    const connection = getConnection(cluster);
+    const found = await findPaymentLink(id, cluster);
+    if (!found) {
+      return errorResponse("INVALID_REQUEST", "Payment link not found");
+    }
+
+    // Only holders of the link secret may build a sweep, so nobody else can
+    // replace the sweep a claimer is about to submit
+    const proofHex = String(body.proof ?? "").replace(/^0x/, "");
+    const proof = /^[0-9a-fA-F]{128}$/.test(proofHex)
+      ? Uint8Array.from(Buffer.from(proofHex, "hex"))
+      : null;
+    if (
+      !proof ||
+      !nacl.sign.detached.verify(
+        getSweepProofMessage(id, toPublicKey.toBase58(), action, cluster),
+        proof,
+        new PublicKey(found.escrow).toBytes()
+      )
+    ) {
+      return errorResponse(
+        "INVALID_SIGNATURE",
+        "Sweep proof verification failed",
+        "The link secret does not match its escrow"
+      );
+    }
+
+    // A sweep left unsettled may since have landed or been dropped
+    const link = await resolveSweep(connection, found);
+    if (link.status === "sweeping") {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Payment link is already being swept",
+        "Wait for the earlier sweep to confirm or expire"
+      );
+    }
+    if (link.status !== "unclaimed") {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `Payment link was already ${link.status}`
+      );
+    }
+
+    // Only the sender may reclaim, and only once the link has expired
+    if (action === "reclaim") {
+      if (toPublicKey.toBase58() !== link.sender) {
+        return errorResponse(
+          "INVALID_REQUEST",
+          "Only the sender can reclaim a payment link"
+        );
+      }
+      if (Date.now() < link.expiresAt) {
+        return errorResponse(
+          "INVALID_REQUEST",
+          "Payment link has not expired yet",
+          `It can be reclaimed after ${new Date(link.expiresAt).toISOString()}`
+        );
+      }
+    }
+
+    const escrow = new PublicKey(link.escrow);
+    const mint = new PublicKey(link.mint);
+    const escrowTokenAccount = getEscrowTokenAccount(link);
+    const toTokenAccount = await getAssociatedTokenAddress(mint, toPublicKey);
+
+    const [[balance], decimals, escrowLamports, toAccount] = await Promise.all([
+      getEscrowBalances(connection, [link]),
+      fetchMintDecimals(connection, mint),
+      connection.getBalance(escrow),
+      connection.getAccountInfo(toTokenAccount),
+    ]);
+    if (balance === BigInt(0) || decimals === null) {
+      return errorResponse(
+        "INSUFFICIENT_TOKEN",
+        "Payment link is not funded",
+        "The link holds no USDC; its funding may not have confirmed yet"
+      );
+    }
+
+    // The escrow pays the fee and any recipient account rent from its SOL
+    const rent = toAccount
+      ? 0
+      : await getMinimumBalanceForRentExemptAccount(connection);
+    const leftover = escrowLamports - SWEEP_FEE_LAMPORTS - rent;
+    if (leftover < 0) {
+      return errorResponse(
+        "INSUFFICIENT_SOL",
+        "Payment link cannot cover network fees",
+        "The escrow does not hold enough SOL for the sweep"
+      );
+    }
+
+    // Move the USDC, close the escrow token account and empty the escrow
+    const instructions = [
+      createAssociatedTokenAccountIdempotentInstruction(
+        escrow,
+        toTokenAccount,
+        toPublicKey,
+        mint
+      ),
+      createTransferCheckedInstruction(
+        escrowTokenAccount,
+        mint,
+        toTokenAccount,
+        escrow,
+        balance,
+        decimals
+      ),
+      createCloseAccountInstruction(escrowTokenAccount, toPublicKey, escrow),
+    ];
+    if (leftover > 0) {
+      instructions.push(
+        SystemProgram.transfer({
+          fromPubkey: escrow,
+          toPubkey: toPublicKey,
+          lamports: leftover,
+        })
+      );
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("finalized");
+    const message = new TransactionMessage({
+      payerKey: escrow,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+
+    // Only this exact transaction is accepted when the sweep is submitted
+    rememberSweep(id, {
+      message: Buffer.from(message.serialize()).toString("base64"),
+      to: toPublicKey.toBase58(),
+      action,
+      lastValidBlockHeight,
+      createdAt: Date.now(),
+    });
+
+    return NextResponse.json({
+      transaction: Buffer.from(
+        new VersionedTransaction(message).serialize()
+      ).toString("base64"),
+      lastValidBlockHeight,
+    });
+  } catch (error) {
+    console.error("Failed to build payment link sweep:", error);
+
+    return toErrorResponse(error, "Failed to build payment link sweep");
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * API route handler for claimable payment links
+ * POST builds the transaction funding a fresh escrow with USDC and a little
+ * SOL, and the link is recorded once the sender signs it; GET lists a
+ * sender's links with their status
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddress,
+  getMinimumBalanceForRentExemptAccount,
+  TokenAccountNotFoundError,
+} from "@solana/spl-token";
+import { toBaseUnits, validateAmount } from "@/lib/amount";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { fetchMintDecimals } from "@/lib/mint";
+import {
+  getEscrowBalances,
+  listPaymentLinks,
+  PAYMENT_LINK_LAMPORTS,
+  PAYMENT_LINK_TTL_MS,
+  rememberLink,
+  toPaymentLinkView,
+  type PaymentLink,
+} from "@/lib/payment-link-store";
+import {
+  buildFeeQuote,
+  estimateComputeUnits,
+  getPriorityFeeLevels,
+  withComputeBudget,
+} from "@/lib/priority-fee";
+import { getConnection } from "@/lib/solana-client";
+import { getUsdcMint } from "@/lib/tokens";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+
+/**
+ * Maximum number of links listed per sender
+ */
+const MAX_LISTED_LINKS = 100;
+
+/**
+ * Handle POST request to create a payment link
+ * @param request - Next.js request with from, amount, escrow (fresh public key) and cluster
+ * @returns JSON response with the link id and the funding transaction to sign,
+ * whose signature is sent to /api/payment-links/[id] before it is submitted
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { from, amount, escrow } = body;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Validate required fields
+    if (!from || !amount || !escrow) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: from, amount, escrow"
+      );
+    }
+
+    let fromPublicKey: PublicKey;
+    let escrowPublicKey: PublicKey;
+    try {
+      fromPublicKey = new PublicKey(from);
+      escrowPublicKey = new PublicKey(escrow);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+
+    const mintAddress = getUsdcMint(cluster);
+    if (!mintAddress) {
+      return errorResponse(
+        "NOT_CONFIGURED",
+        "USDC mint address not configured",
+        `No USDC mint is configured for ${cluster}`
+      );
+    }
+
+    const connection = getConnection(cluster);
+    const mint = new PublicKey(mintAddress);
+    const fromTokenAccount = await getAssociatedTokenAddress(
+      mint,
+      fromPublicKey
+    );
+    const escrowTokenAccount = await getAssociatedTokenAddress(
+      mint,
+      escrowPublicKey
+    );
+
+    const [decimals, senderAccount, escrowAccount] = await Promise.all([
+      fetchMintDecimals(connection, mint),
+      getAccount(connection, fromTokenAccount).catch((error) => {
+        if (error instanceof TokenAccountNotFoundError) return null;
+        throw error;
+      }),
+      connection.getAccountInfo(escrowPublicKey),
+    ]);
+    if (decimals === null) {
+      return errorResponse(
+        "MINT_NOT_FOUND",
+        "Token mint not found",
+        `USDC mint ${mintAddress} does not exist on this cluster`
+      );
+    }
+
+    // Each link needs its own freshly generated escrow
+    if (escrowAccount) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Escrow account already exists",
+        "Generate a new escrow keypair for each link"
+      );
+    }
+
+    const amountError = validateAmount(String(amount), decimals);
+    if (amountError) {
+      return errorResponse("INVALID_AMOUNT", "Invalid amount", amountError);
+    }
+    const transferAmount = toBaseUnits(String(amount), decimals) as bigint;
+
+    if (!senderAccount || senderAccount.amount < transferAmount) {
+      return errorResponse(
+        "INSUFFICIENT_TOKEN",
+        "Insufficient token balance",
+        `Sender holds less than ${amount} USDC`
+      );
+    }
+
+    // Create the escrow's token account, fund it and send SOL for the sweep
+    const instructions = [
+      createAssociatedTokenAccountInstruction(
+        fromPublicKey,
+        escrowTokenAccount,
+        escrowPublicKey,
+        mint
+      ),
+      createTransferCheckedInstruction(
+        fromTokenAccount,
+        mint,
+        escrowTokenAccount,
+        fromPublicKey,
+        transferAmount,
+        decimals
+      ),
+      SystemProgram.transfer({
+        fromPubkey: fromPublicKey,
+        toPubkey: escrowPublicKey,
+        lamports: PAYMENT_LINK_LAMPORTS,
+      }),
+    ];
+
+    const [computeUnits, feeLevels, rent, solBalance] = await Promise.all([
+      estimateComputeUnits(connection, fromPublicKey, instructions),
+      getPriorityFeeLevels(connection, [fromTokenAccount]),
+      getMinimumBalanceForRentExemptAccount(connection),
+      connection.getBalance(fromPublicKey),
+    ]);
+    const fees = buildFeeQuote(computeUnits, feeLevels, 1, rent);
+
+    // The sender pays fees, the escrow account rent and the escrow's SOL
+    const cost = fees.options.find((option) => option.tier === "normal");
+    const total = (cost?.total ?? 0) + PAYMENT_LINK_LAMPORTS;
+    if (solBalance < total) {
+      return errorResponse(
+        "INSUFFICIENT_SOL",
+        "Insufficient SOL for fees",
+        `A payment link needs ${total / LAMPORTS_PER_SOL} SOL for fees, rent and the claim fee`
+      );
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("finalized");
+    const message = new TransactionMessage({
+      payerKey: fromPublicKey,
+      recentBlockhash: blockhash,
+      instructions: withComputeBudget(
+        instructions,
+        computeUnits,
+        feeLevels.normal
+      ),
+    }).compileToV0Message();
+    const transaction = Buffer.from(
+      new VersionedTransaction(message).serialize()
+    ).toString("base64");
+
+    // Remember the link until the sender signs; it shows as funded once the
+    // transaction confirms
+    const now = Date.now();
+    const link: PaymentLink = {
+      id: randomUUID(),
+      cluster,
+      sender: fromPublicKey.toBase58(),
+      escrow: escrowPublicKey.toBase58(),
+      mint: mintAddress,
+      amount: String(amount),
+      status: "unclaimed",
+      createdAt: now,
+      expiresAt: now + PAYMENT_LINK_TTL_MS,
+      settledBy: null,
+      signature: null,
+      settledAt: null,
+    };
+    rememberLink(link, Buffer.from(message.serialize()).toString("base64"));
+
+    return NextResponse.json({
+      id: link.id,
+      transaction,
+      lastValidBlockHeight,
+      expiresAt: link.expiresAt,
+      message: `Fund payment link with ${amount} USDC`,
+      fees,
+    });
+  } catch (error) {
+    console.error("Failed to create payment link:", error);
+
+    return toErrorResponse(error, "Failed to create payment link");
+  }
+}
+
+/**
+ * Handle GET request to list a sender's payment links
+ * Links whose funding never confirmed are left out
+ * @param request - Next.js request with sender and cluster as query parameters
+ * @returns JSON response with the sender's links, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sender = searchParams.get("sender");
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    if (!sender) {
+      return errorResponse("INVALID_REQUEST", "Missing sender address");
+    }
+
+    const links = await listPaymentLinks(sender, cluster, MAX_LISTED_LINKS);
+    const balances = await getEscrowBalances(getConnection(cluster), links);
+    const views = links
+      .map((link, index) => toPaymentLinkView(link, balances[index]))
+      .filter((view) => view.funded || view.status !== "unclaimed");
+
+    return NextResponse.json({ links: views });
+  } catch (error) {
+    console.error("Failed to list payment links:", error);
+
+    return toErrorResponse(error, "Failed to list payment links");
+  }
+}
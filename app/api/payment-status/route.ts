@@ -0,0 +1,79 @@
+/**
+ * API route handler for checking payment request status
+ * Finds the transfer carrying a reference key and validates it
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import { findPaymentByReference } from "@/lib/payment-request";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
+import { getUsdcMint } from "@/lib/tokens";
+
+/**
+ * Handle GET request to check whether a payment request has been paid
+ * @param request - Next.js request with reference, recipient, optional amount and cluster
+ * @returns JSON response with pending, paid or mismatch status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const reference = searchParams.get("reference");
+    const recipient = searchParams.get("recipient");
+    const amount = searchParams.get("amount") || undefined;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Validate required parameters
+    if (!reference || !recipient) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required parameters: reference, recipient"
+      );
+    }
+
+    let referenceKey: PublicKey;
+    let recipientKey: PublicKey;
+    try {
+      referenceKey = new PublicKey(reference);
+      recipientKey = new PublicKey(recipient);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+
+    if (amount !== undefined && !/^\d+(\.\d+)?$/.test(amount)) {
+      return errorResponse("INVALID_AMOUNT", "Invalid amount");
+    }
+
+    const usdcMint = getUsdcMint(cluster);
+    if (!usdcMint) {
+      return errorResponse(
+        "NOT_CONFIGURED",
+        "USDC mint address not configured",
+        `No USDC mint is configured for ${cluster}`
+      );
+    }
+
+    const connection = getConnection(cluster);
+    const result = await findPaymentByReference(connection, referenceKey, {
+      recipient: recipientKey,
+      mint: new PublicKey(usdcMint),
+      amount,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to check payment status:", error);
+
+    return toErrorResponse(error, "Failed to check payment status");
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * API route handler for pre-sign transaction simulation
+ * Reports balance changes, logs and a decoded error before the user signs
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey, VersionedTransaction } from "@solana/web3.js";
+import { simulateWithBalanceChanges } from "@/lib/simulation";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
+
+/**
+ * Handle POST request to simulate a transaction
+ * @param request - Next.js request with base64 transaction, optional wallets to report on and cluster
+ * @returns JSON response with simulation result
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { transaction } = body;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Validate required fields
+    if (!transaction) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required field: transaction"
+      );
+    }
+
+    let tx: VersionedTransaction;
+    try {
+      tx = VersionedTransaction.deserialize(Buffer.from(transaction, "base64"));
+    } catch {
+      return errorResponse(
+        "INVALID_TRANSACTION",
+        "Invalid transaction encoding"
+      );
+    }
+
+    // Report on the fee payer unless specific wallets are requested
+    const wallets: string[] = Array.isArray(body.wallets)
+      ? body.wallets
+      : [tx.message.staticAccountKeys[0].toBase58()];
+    try {
+      wallets.forEach((wallet) => new PublicKey(wallet));
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+
+    const connection = getConnection(cluster);
+    const result = await simulateWithBalanceChanges(
+      connection,
+      tx,
+      wallets,
+      cluster
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to simulate transaction:", error);
+
+    return toErrorResponse(error, "Failed to simulate transaction");
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * API route handler for broadcasting signed transactions
+ * Verifies the MetaKeep signature, then broadcasts and confirms server-side
+ * Gasless transfers carry a relay ticket and are co-signed by the relayer
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { VersionedTransaction } from "@solana/web3.js";
+import nacl from "tweetnacl";
+import { broadcastTransaction } from "@/lib/broadcast";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { getRelayer, readRelayTicket, relayTransaction } from "@/lib/relayer";
+import { getConnection } from "@/lib/solana-client";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+
+/**
+ * Parse a hex signature from MetaKeep (with or without 0x prefix)
+ */
+function parseHexSignature(signature: string): Uint8Array | null {
+  const hex = signature.startsWith("0x") ? signature.slice(2) : signature;
+  if (!/^[0-9a-fA-F]{128}$/.test(hex)) return null;
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+/**
+ * Handle POST request to submit a signed transaction
+ * @param request - Next.js request with base64 transaction, hex signature, optional lastValidBlockHeight, relayTicket and cluster
+ * @returns JSON response with confirmed, expired, failed or timeout status
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { transaction, signature, lastValidBlockHeight, relayTicket } = body;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Validate required fields
+    if (!transaction || !signature) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: transaction, signature"
+      );
+    }
+
+    if (
+      lastValidBlockHeight !== undefined &&
+      (!Number.isSafeInteger(lastValidBlockHeight) || lastValidBlockHeight <= 0)
+    ) {
+      return errorResponse("INVALID_REQUEST", "Invalid lastValidBlockHeight");
+    }
+
+    // Deserialize transaction
+    let tx: VersionedTransaction;
+    try {
+      tx = VersionedTransaction.deserialize(
+        Buffer.from(String(transaction), "base64")
+      );
+    } catch {
+      return errorResponse(
+        "INVALID_TRANSACTION",
+        "Invalid transaction encoding"
+      );
+    }
+
+    const signatureBytes = parseHexSignature(String(signature));
+    if (!signatureBytes) {
+      return errorResponse("INVALID_SIGNATURE", "Invalid signature format");
+    }
+
+    // The fee payer is the first signer; relayed transfers are signed by the
+    // relayer first and the sender second
+    const relayer = relayTicket !== undefined ? getRelayer() : null;
+    const signers = tx.message.staticAccountKeys.slice(
+      0,
+      tx.message.header.numRequiredSignatures
+    );
+    const identity = relayer
+      ? readRelayTicket(relayer, tx.message.serialize(), String(relayTicket))
+      : null;
+    if (
+      relayer &&
+      (signers.length !== 2 ||
+        !signers[0].equals(relayer.publicKey) ||
+        !identity)
+    ) {
+      return errorResponse(
+        "INVALID_TRANSACTION",
+        "Transaction was not issued by the relayer"
+      );
+    }
+    const signer = relayer ? signers[1] : signers[0];
+    const isValid = nacl.sign.detached.verify(
+      tx.message.serialize(),
+      signatureBytes,
+      signer.toBytes()
+    );
+    if (!isValid) {
+      return errorResponse(
+        "INVALID_SIGNATURE",
+        "Signature verification failed",
+        `Signature does not match the transaction message for ${signer.toBase58()}`
+      );
+    }
+
+    tx.addSignature(signer, signatureBytes);
+
+    const connection = getConnection(cluster);
+    const result =
+      relayer && identity
+        ? await relayTransaction(
+            connection,
+            cluster,
+            relayer,
+            tx,
+            signer,
+            identity,
+            lastValidBlockHeight
+          )
+        : await broadcastTransaction(connection, tx, lastValidBlockHeight);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to submit transaction:", error);
+
+    return toErrorResponse(error, "Failed to submit transaction");
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * API route handler for building swap transactions
+ * Returns an unsigned versioned transaction for MetaKeep to sign
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import {
+  getSwapProvider,
+  SwapQuoteExpiredError,
+  validateSwapQuote,
+  type SwapQuote,
+} from "@/lib/swap";
+import { getUsdcMint } from "@/lib/tokens";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
+
+/**
+ * Handle POST request to build a swap transaction from a quote
+ * @param request - Next.js request with quote, userPublicKey and cluster
+ * @returns JSON response with serialized transaction
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const quote: SwapQuote | undefined = body.quote;
+    const { userPublicKey } = body;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Validate required fields
+    if (!quote || !userPublicKey) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: quote, userPublicKey"
+      );
+    }
+
+    const quoteError = validateSwapQuote(quote);
+    if (quoteError) {
+      return errorResponse("INVALID_REQUEST", "Invalid quote", quoteError);
+    }
+
+    let user: PublicKey;
+    try {
+      user = new PublicKey(userPublicKey);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+
+    const usdcMint = getUsdcMint(cluster);
+    if (!usdcMint) {
+      return errorResponse(
+        "NOT_CONFIGURED",
+        "USDC mint address not configured",
+        `No USDC mint is configured for ${cluster}`
+      );
+    }
+
+    const connection = getConnection(cluster);
+    const provider = getSwapProvider(
+      connection,
+      cluster,
+      new PublicKey(usdcMint)
+    );
+
+    // Quotes are only valid for the provider that issued them
+    if (quote.provider !== provider.name) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Quote was issued by a different swap provider"
+      );
+    }
+
+    const { transaction, lastValidBlockHeight } =
+      await provider.buildTransaction(quote, user);
+
+    return NextResponse.json({
+      transaction: Buffer.from(transaction.serialize()).toString("base64"),
+      lastValidBlockHeight,
+    });
+  } catch (error) {
+    if (error instanceof SwapQuoteExpiredError) {
+      return errorResponse("QUOTE_EXPIRED", "Quote expired", error.message);
+    }
+
+    console.error("Failed to build swap transaction:", error);
+
+    return toErrorResponse(error, "Failed to build swap transaction");
+  }
+}
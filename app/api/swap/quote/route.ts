@@ -0,0 +1,126 @@
+/**
+ * API route handler for swap quotes
+ * Asks the configured swap provider how much output an input amount buys
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PublicKey, type Connection } from "@solana/web3.js";
+import { toBaseUnits } from "@/lib/amount";
+import { fetchMintDecimals } from "@/lib/mint";
+import { getSwapProvider, MAX_SLIPPAGE_BPS } from "@/lib/swap";
+import { getTokenInfo, getUsdcMint, SOL_MINT_ADDRESS } from "@/lib/tokens";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster, type Cluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
+
+/**
+ * Default slippage tolerance in basis points
+ */
+const DEFAULT_SLIPPAGE_BPS = 50;
+
+/**
+ * Resolve on-chain decimals for SOL or a token registered on the cluster
+ * Returns null for unregistered mints and mints missing from the cluster
+ */
+async function getDecimals(
+  connection: Connection,
+  mint: string,
+  cluster: Cluster
+): Promise<number | null> {
+  if (mint === SOL_MINT_ADDRESS) return 9;
+  if (!getTokenInfo(mint, cluster)) return null;
+  return fetchMintDecimals(connection, new PublicKey(mint));
+}
+
+/**
+ * Handle GET request to quote a swap
+ * @param request - Next.js request with inputMint, outputMint, amount, optional slippageBps and cluster
+ * @returns JSON response with the quote plus UI amounts and rate
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    const usdcMint = getUsdcMint(cluster);
+    if (!usdcMint) {
+      return errorResponse(
+        "NOT_CONFIGURED",
+        "USDC mint address not configured",
+        `No USDC mint is configured for ${cluster}`
+      );
+    }
+
+    const inputMint = searchParams.get("inputMint") || SOL_MINT_ADDRESS;
+    const outputMint = searchParams.get("outputMint") || usdcMint;
+    const amount = searchParams.get("amount");
+    const slippageBps = Number(
+      searchParams.get("slippageBps") || DEFAULT_SLIPPAGE_BPS
+    );
+
+    if (!amount) {
+      return errorResponse("INVALID_REQUEST", "Missing amount");
+    }
+
+    const connection = getConnection(cluster);
+    const [inputDecimals, outputDecimals] = await Promise.all([
+      getDecimals(connection, inputMint, cluster),
+      getDecimals(connection, outputMint, cluster),
+    ]);
+    if (inputDecimals === null || outputDecimals === null) {
+      return errorResponse("MINT_NOT_FOUND", "Unsupported token mint");
+    }
+
+    if (
+      !Number.isInteger(slippageBps) ||
+      slippageBps < 0 ||
+      slippageBps > MAX_SLIPPAGE_BPS
+    ) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `Slippage must be between 0 and ${MAX_SLIPPAGE_BPS} bps`
+      );
+    }
+
+    const baseAmount = toBaseUnits(amount, inputDecimals);
+    if (baseAmount === null || baseAmount <= BigInt(0)) {
+      return errorResponse("INVALID_AMOUNT", "Invalid amount");
+    }
+
+    const provider = getSwapProvider(
+      connection,
+      cluster,
+      new PublicKey(usdcMint)
+    );
+    const quote = await provider.getQuote({
+      inputMint,
+      outputMint,
+      amount: baseAmount,
+      slippageBps,
+    });
+
+    const inUiAmount = Number(quote.inAmount) / 10 ** inputDecimals;
+    const outUiAmount = Number(quote.outAmount) / 10 ** outputDecimals;
+
+    return NextResponse.json({
+      quote,
+      inUiAmount,
+      outUiAmount,
+      minOutUiAmount: Number(quote.minOutAmount) / 10 ** outputDecimals,
+      rate: outUiAmount / inUiAmount,
+    });
+  } catch (error) {
+    console.error("Failed to fetch swap quote:", error);
+
+    return toErrorResponse(error, "Failed to fetch swap quote");
+  }
+}
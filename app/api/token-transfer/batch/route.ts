@@ -0,0 +1,261 @@
+/**
+ * API route handler for batch SPL token payouts
+ * Packs as many transfers as fit into each versioned transaction
+ * Returns serialized transactions for MetaKeep to sign in sequence
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountInstruction,
+} from "@solana/spl-token";
+import { createMemoInstruction } from "@solana/spl-memo";
+import { isValidAddress } from "@/lib/address";
+import { toBaseUnits, validateAmount } from "@/lib/amount";
+import {
+  MAX_PAYOUT_ROWS,
+  type BatchTransaction,
+  type PayoutRow,
+} from "@/lib/batch-payout";
+import { validateMemo } from "@/lib/memo";
+import { fetchMintDecimals } from "@/lib/mint";
+import { getTokenInfo, getUsdcMint } from "@/lib/tokens";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
+
+/**
+ * getMultipleAccountsInfo accepts at most 100 keys per call
+ */
+const ACCOUNT_LOOKUP_CHUNK = 100;
+
+/**
+ * Compile instructions into a transaction, or null if it exceeds the size limit
+ */
+function compileIfFits(
+  payer: PublicKey,
+  blockhash: string,
+  instructions: TransactionInstruction[]
+): VersionedTransaction | null {
+  try {
+    const messageV0 = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(messageV0);
+    return transaction.serialize().length <= PACKET_DATA_SIZE
+      ? transaction
+      : null;
+  } catch {
+    // Serialization overflows once the message is far past the limit
+    return null;
+  }
+}
+
+/**
+ * Handle POST request to create batch payout transactions
+ * @param request - Next.js request object with from, rows, optional mint and cluster
+ * @returns JSON response with serialized transactions and the rows each covers
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+    const { from } = body;
+    const rows: PayoutRow[] = body.rows;
+
+    // Validate required fields
+    if (!from || !Array.isArray(rows) || rows.length === 0) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: from, rows"
+      );
+    }
+
+    if (rows.length > MAX_PAYOUT_ROWS) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `Batch limit is ${MAX_PAYOUT_ROWS} rows`
+      );
+    }
+
+    let fromPublicKey: PublicKey;
+    try {
+      fromPublicKey = new PublicKey(from);
+    } catch {
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    // Only tokens registered on the cluster can be transferred
+    const mint: string = body.mint || getUsdcMint(cluster);
+    const token = getTokenInfo(mint, cluster);
+    if (!token) {
+      return errorResponse("MINT_NOT_FOUND", "Unsupported token mint");
+    }
+
+    const connection = getConnection(cluster);
+    const tokenMint = new PublicKey(token.mint);
+
+    // Amounts are converted with the mint's on-chain decimals
+    const decimals = await fetchMintDecimals(connection, tokenMint);
+    if (decimals === null) {
+      return errorResponse(
+        "MINT_NOT_FOUND",
+        "Token mint not found",
+        `${token.symbol} mint ${token.mint} does not exist on this cluster`
+      );
+    }
+
+    // Validate every row before building anything
+    const amounts: bigint[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const amountString = String(row?.amount ?? "");
+      if (!isValidAddress(String(row?.to ?? ""))) {
+        return errorResponse(
+          "INVALID_ADDRESS",
+          `Row ${i + 1}: invalid recipient address`
+        );
+      }
+      const amountError = validateAmount(amountString, decimals);
+      if (amountError) {
+        return errorResponse("INVALID_AMOUNT", `Row ${i + 1}: ${amountError}`);
+      }
+      const memoError = row.memo !== undefined ? validateMemo(row.memo) : null;
+      if (memoError) {
+        return errorResponse("INVALID_MEMO", `Row ${i + 1}: ${memoError}`);
+      }
+      amounts.push(toBaseUnits(amountString, decimals) as bigint);
+    }
+
+    const fromTokenAccount = getAssociatedTokenAddressSync(
+      tokenMint,
+      fromPublicKey
+    );
+    const recipients = rows.map((row) => new PublicKey(row.to));
+    const recipientTokenAccounts = recipients.map((recipient) =>
+      getAssociatedTokenAddressSync(tokenMint, recipient)
+    );
+
+    // Look up which recipient token accounts already exist
+    const existing = new Set<string>();
+    for (
+      let i = 0;
+      i < recipientTokenAccounts.length;
+      i += ACCOUNT_LOOKUP_CHUNK
+    ) {
+      const chunk = recipientTokenAccounts.slice(i, i + ACCOUNT_LOOKUP_CHUNK);
+      const infos = await connection.getMultipleAccountsInfo(chunk);
+      infos.forEach((info, index) => {
+        if (info) existing.add(chunk[index].toBase58());
+      });
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("finalized");
+
+    // Greedily pack rows into transactions under the packet size limit
+    const transactions: BatchTransaction[] = [];
+    let instructions: TransactionInstruction[] = [];
+    let groupRows: number[] = [];
+    let compiled: VersionedTransaction | null = null;
+
+    const flush = () => {
+      if (!compiled) return;
+      transactions.push({
+        transaction: Buffer.from(compiled.serialize()).toString("base64"),
+        rows: groupRows,
+      });
+    };
+
+    for (let i = 0; i < rows.length; i++) {
+      const toTokenAccount = recipientTokenAccounts[i];
+      const rowInstructions: TransactionInstruction[] = [];
+
+      // Create the recipient's token account once, in the first row paying it
+      if (!existing.has(toTokenAccount.toBase58())) {
+        rowInstructions.push(
+          createAssociatedTokenAccountInstruction(
+            fromPublicKey, // Payer
+            toTokenAccount, // Associated token account address
+            recipients[i], // Owner
+            tokenMint // Mint
+          )
+        );
+        existing.add(toTokenAccount.toBase58());
+      }
+
+      if (rows[i].memo) {
+        rowInstructions.push(
+          createMemoInstruction(rows[i].memo as string, [fromPublicKey])
+        );
+      }
+
+      rowInstructions.push(
+        createTransferCheckedInstruction(
+          fromTokenAccount, // Source token account
+          tokenMint, // Mint
+          toTokenAccount, // Destination token account
+          fromPublicKey, // Owner
+          amounts[i], // Amount in smallest unit
+          decimals // Mint decimals
+        )
+      );
+
+      const candidate = compileIfFits(fromPublicKey, blockhash, [
+        ...instructions,
+        ...rowInstructions,
+      ]);
+      if (candidate) {
+        instructions.push(...rowInstructions);
+        groupRows.push(i);
+        compiled = candidate;
+        continue;
+      }
+
+      // Start a new transaction with this row
+      flush();
+      compiled = compileIfFits(fromPublicKey, blockhash, rowInstructions);
+      if (!compiled) {
+        return errorResponse(
+          "INVALID_REQUEST",
+          `Row ${i + 1}: transfer does not fit in a transaction`
+        );
+      }
+      instructions = rowInstructions;
+      groupRows = [i];
+    }
+    flush();
+
+    return NextResponse.json({
+      transactions,
+      lastValidBlockHeight,
+    });
+  } catch (error) {
+    console.error("Failed to create batch transfer transactions:", error);
+
+    return toErrorResponse(
+      error,
+      "Failed to create batch transfer transactions"
+    );
+  }
+}
@@ -1,57 +1,83 @@
 /**
  * API route handler for creating SPL token transfer transactions
- * Returns a serialized transaction for MetaKeep to sign
+ * Supports any mint in the token registry, defaulting to USDC
+ * Adds compute budget instructions priced from recent prioritization fees
+ * Returns a serialized transaction for MetaKeep to sign with its fee breakdown
+ * Gasless USDC sends use the relayer as fee payer and return a relay ticket
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import {
-  Connection,
+  LAMPORTS_PER_SOL,
   PublicKey,
+  type Keypair,
   TransactionMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
 import {
-  createTransferInstruction,
+  createTransferCheckedInstruction,
   getAssociatedTokenAddress,
   createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
   getAccount,
+  getMinimumBalanceForRentExemptAccount,
+  TokenAccountNotFoundError,
 } from "@solana/spl-token";
+import { createMemoInstruction } from "@solana/spl-memo";
+import { formatBaseUnits, toBaseUnits, validateAmount } from "@/lib/amount";
+import { validateMemo } from "@/lib/memo";
+import { fetchMintDecimals } from "@/lib/mint";
+import {
+  buildFeeQuote,
+  estimateComputeUnits,
+  getPriorityFeeLevels,
+  isPriorityTier,
+  withComputeBudget,
+  type PriorityTier,
+} from "@/lib/priority-fee";
+import {
+  assertRelayerFunded,
+  checkRelayQuota,
+  createRelayTicket,
+  getRelayer,
+  getRelayerFee,
+} from "@/lib/relayer";
+import { verifyMetaKeepIdentity } from "@/lib/metakeep-server";
+import { getTokenInfo, getUsdcMint } from "@/lib/tokens";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import { getConnection } from "@/lib/solana-client";
 
 /**
- * Solana Devnet RPC endpoint
- */
-const RPC_URL =
-  process.env.SOLANA_RPC_URL ||
-  process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
-  "https://api.devnet.solana.com";
-
-/**
- * USDC mint address on Solana devnet
- * Updated to use devnet USDC token: 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU
- */
-const USDC_MINT_ADDRESS =
-  process.env.NEXT_PUBLIC_USDC_MINT_ADDRESS ||
-  "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
-
-/**
- * Handle POST request to create a USDC transfer transaction
- * @param request - Next.js request object with from, to, and amount
+ * Handle POST request to create a token transfer transaction
+ * @param request - Next.js request object with from, to, amount, optional mint, memo, reference, priority, gasless with the sender's MetaKeep email, and cluster
  * @returns JSON response with serialized transaction
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
     const body = await request.json();
-    const { from, to, amount } = body;
+    const { from, to, amount, memo, reference } = body;
+    const priority: PriorityTier = body.priority ?? "normal";
 
     // Validate required fields
     if (!from || !to || !amount) {
-      return NextResponse.json(
-        { error: "Missing required fields: from, to, amount" },
-        { status: 400 }
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Missing required fields: from, to, amount"
       );
     }
 
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(body.cluster);
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
     // Validate Solana addresses
     let fromPublicKey: PublicKey;
     let toPublicKey: PublicKey;
@@ -59,45 +85,124 @@ export async function POST(request: NextRequest) {
       fromPublicKey = new PublicKey(from);
       toPublicKey = new PublicKey(to);
     } catch {
-      return NextResponse.json(
-        { error: "Invalid Solana address format" },
-        { status: 400 }
+      return errorResponse("INVALID_ADDRESS", "Invalid Solana address format");
+    }
+
+    // Validate Solana Pay reference keys (single key or list)
+    let referenceKeys: PublicKey[] = [];
+    if (reference !== undefined) {
+      try {
+        referenceKeys = (
+          Array.isArray(reference) ? reference : [reference]
+        ).map((key: string) => new PublicKey(key));
+      } catch {
+        return errorResponse("INVALID_ADDRESS", "Invalid reference format");
+      }
+    }
+
+    // Validate priority tier
+    if (!isPriorityTier(priority)) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Invalid priority, expected low, normal or fast"
       );
     }
 
-    // Validate amount
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
-      return NextResponse.json(
-        { error: "Invalid amount" },
-        { status: 400 }
+    // Validate memo
+    const memoError = memo !== undefined ? validateMemo(memo) : null;
+    if (memoError) {
+      return errorResponse("INVALID_MEMO", "Invalid memo", memoError);
+    }
+
+    // Default to the cluster's USDC mint
+    const mint: string = body.mint || getUsdcMint(cluster);
+    if (!mint) {
+      return errorResponse(
+        "NOT_CONFIGURED",
+        "USDC mint address not configured",
+        `No USDC mint is configured for ${cluster}`
       );
     }
 
-    // Validate USDC mint address
-    if (!USDC_MINT_ADDRESS) {
-      return NextResponse.json(
-        {
-          error: "USDC mint address not configured",
-          message: "Set NEXT_PUBLIC_USDC_MINT_ADDRESS to a valid mint address.",
-        },
-        { status: 500 }
+    // Only tokens registered on the cluster can be transferred
+    const token = getTokenInfo(mint, cluster);
+    if (!token) {
+      return errorResponse("MINT_NOT_FOUND", "Unsupported token mint");
+    }
+
+    // Gasless sends are USDC only; the relayer pays fees, and quotas count
+    // the sender's verified MetaKeep account
+    let relayer: Keypair | null = null;
+    let identity = "";
+    if (body.gasless === true) {
+      if (token.mint !== getUsdcMint(cluster)) {
+        return errorResponse(
+          "INVALID_REQUEST",
+          "Gasless transfers only support USDC"
+        );
+      }
+      if (typeof body.email !== "string" || !body.email.includes("@")) {
+        return errorResponse(
+          "INVALID_REQUEST",
+          "Gasless transfers need the sender's MetaKeep email"
+        );
+      }
+      relayer = getRelayer();
+      identity = await verifyMetaKeepIdentity(
+        body.email,
+        fromPublicKey.toBase58()
       );
+      await checkRelayQuota(identity, cluster);
     }
+    const feePayer = relayer ? relayer.publicKey : fromPublicKey;
 
-    const connection = new Connection(RPC_URL, "confirmed");
-    const usdcMint = new PublicKey(USDC_MINT_ADDRESS);
+    const connection = getConnection(cluster);
+    const tokenMint = new PublicKey(token.mint);
 
     // Get associated token accounts
     const fromTokenAccount = await getAssociatedTokenAddress(
-      usdcMint,
+      tokenMint,
       fromPublicKey
     );
     const toTokenAccount = await getAssociatedTokenAddress(
-      usdcMint,
+      tokenMint,
       toPublicKey
     );
 
+    // Check the mint exists on this cluster and the sender holds enough
+    const [decimals, senderAccount] = await Promise.all([
+      fetchMintDecimals(connection, tokenMint),
+      getAccount(connection, fromTokenAccount).catch((error) => {
+        if (error instanceof TokenAccountNotFoundError) return null;
+        throw error;
+      }),
+    ]);
+    if (decimals === null) {
+      return errorResponse(
+        "MINT_NOT_FOUND",
+        "Token mint not found",
+        `${token.symbol} mint ${token.mint} does not exist on this cluster`
+      );
+    }
+
+    // Convert amount to base units using the mint's on-chain decimals
+    const amountError = validateAmount(String(amount), decimals);
+    if (amountError) {
+      return errorResponse("INVALID_AMOUNT", "Invalid amount", amountError);
+    }
+    const transferAmount = toBaseUnits(String(amount), decimals) as bigint;
+    const relayerFee = relayer ? getRelayerFee(decimals) : BigInt(0);
+
+    if (!senderAccount || senderAccount.amount < transferAmount + relayerFee) {
+      return errorResponse(
+        "INSUFFICIENT_TOKEN",
+        "Insufficient token balance",
+        relayerFee > BigInt(0)
+          ? `Sender holds less than ${amount} ${token.symbol} plus the ${formatBaseUnits(relayerFee, decimals)} ${token.symbol} relayer fee`
+          : `Sender holds less than ${amount} ${token.symbol}`
+      );
+    }
+
     // Build transaction instructions
     const instructions = [];
 
@@ -111,39 +216,116 @@ export async function POST(request: NextRequest) {
       recipientAccountExists = false;
     }
 
+    // The relayer never pays rent for new accounts, which the recipient
+    // could close to keep the SOL
+    if (relayer && !recipientAccountExists) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        "Gasless transfers need a recipient with a USDC account",
+        "Send with SOL fees to create the recipient's USDC account"
+      );
+    }
+
     // Add instruction to create recipient's token account if needed
     if (!recipientAccountExists) {
       instructions.push(
         createAssociatedTokenAccountInstruction(
-          fromPublicKey, // Payer
+          feePayer, // Payer
           toTokenAccount, // Associated token account address
           toPublicKey, // Owner
-          usdcMint // Mint
+          tokenMint // Mint
         )
       );
     }
 
+    // Add memo instruction before the transfer, as Solana Pay expects
+    if (memo) {
+      instructions.push(createMemoInstruction(memo, [fromPublicKey]));
+    }
+
     // Add transfer instruction
-    // Convert amount to smallest unit (USDC has 6 decimals)
-    const transferAmount = Math.floor(amountNum * 10 ** 6);
-
-    instructions.push(
-      createTransferInstruction(
-        fromTokenAccount, // Source token account
-        toTokenAccount, // Destination token account
-        fromPublicKey, // Owner
-        transferAmount // Amount in smallest unit
-      )
+    // Checked transfers make the token program enforce the mint decimals
+    const transferInstruction = createTransferCheckedInstruction(
+      fromTokenAccount, // Source token account
+      tokenMint, // Mint
+      toTokenAccount, // Destination token account
+      fromPublicKey, // Owner
+      transferAmount, // Amount in smallest unit
+      decimals // Mint decimals
     );
 
+    // Attach references as read-only keys so the payment can be found later
+    for (const referenceKey of referenceKeys) {
+      transferInstruction.keys.push({
+        pubkey: referenceKey,
+        isSigner: false,
+        isWritable: false,
+      });
+    }
+
+    instructions.push(transferInstruction);
+
+    // Reimburse the relayer in USDC, creating its token account on first use
+    if (relayer && relayerFee > BigInt(0)) {
+      const relayerTokenAccount = await getAssociatedTokenAddress(
+        tokenMint,
+        relayer.publicKey
+      );
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          relayer.publicKey,
+          relayerTokenAccount,
+          relayer.publicKey,
+          tokenMint
+        ),
+        createTransferCheckedInstruction(
+          fromTokenAccount,
+          tokenMint,
+          relayerTokenAccount,
+          fromPublicKey,
+          relayerFee,
+          decimals
+        )
+      );
+    }
+
+    // Size the compute budget and price it from recent fees on these accounts
+    const [computeUnits, feeLevels, rent] = await Promise.all([
+      estimateComputeUnits(connection, feePayer, instructions),
+      getPriorityFeeLevels(connection, [fromTokenAccount, toTokenAccount]),
+      recipientAccountExists
+        ? Promise.resolve(0)
+        : getMinimumBalanceForRentExemptAccount(connection),
+    ]);
+    const fees = buildFeeQuote(computeUnits, feeLevels, relayer ? 2 : 1, rent);
+    const cost = fees.options.find((option) => option.tier === priority);
+    const total = cost?.total ?? 0;
+
+    if (relayer) {
+      // The relayer pays fees while keeping its reserve
+      await assertRelayerFunded(connection, relayer.publicKey, total);
+    } else if ((await connection.getBalance(fromPublicKey)) < total) {
+      // The sender pays fees and any rent in SOL
+      return errorResponse(
+        "INSUFFICIENT_SOL",
+        "Insufficient SOL for fees",
+        `This transfer needs ${total / LAMPORTS_PER_SOL} SOL for fees and rent`
+      );
+    }
+
     // Get latest blockhash
-    const { blockhash } = await connection.getLatestBlockhash("finalized");
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("finalized");
 
     // Create versioned transaction message
     const messageV0 = new TransactionMessage({
-      payerKey: fromPublicKey,
+      payerKey: feePayer,
       recentBlockhash: blockhash,
-      instructions,
+      instructions: withComputeBudget(
+        instructions,
+        computeUnits,
+        feeLevels[priority]
+      ),
     }).compileToV0Message();
 
     // Create versioned transaction
@@ -156,17 +338,21 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       transaction: serializedTransaction,
-      message: `Transfer ${amount} USDC`,
+      lastValidBlockHeight,
+      message: `Transfer ${amount} ${token.symbol}`,
+      priority,
+      fees,
+      // Present on gasless sends; /api/submit needs the ticket to co-sign
+      relay: relayer
+        ? {
+            ticket: createRelayTicket(relayer, messageV0.serialize(), identity),
+            fee: formatBaseUnits(relayerFee, decimals),
+          }
+        : null,
     });
   } catch (error) {
     console.error("Failed to create transfer transaction:", error);
 
-    return NextResponse.json(
-      {
-        error: "Failed to create transfer transaction",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
+    return toErrorResponse(error, "Failed to create transfer transaction");
   }
 }
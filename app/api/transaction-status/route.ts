@@ -0,0 +1,122 @@
+/**
+ * API route handler for tracking submitted transactions
+ * Reports how far each signature has progressed, with the current block
+ * height so the client can tell when a transaction can no longer land
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import bs58 from "bs58";
+import {
+  errorResponse,
+  toErrorResponse,
+  unsupportedClusterResponse,
+} from "@/lib/api-errors";
+import { parseCluster } from "@/lib/clusters";
+import type {
+  PendingStage,
+  TransactionStatus,
+  TransactionStatusResponse,
+} from "@/lib/pending-transactions";
+import { findRelayedTransfer } from "@/lib/relayer";
+import { getConnection } from "@/lib/solana-client";
+import { decodeTransactionError } from "@/lib/transaction-errors";
+
+// Runtime configuration for Node.js environment
+export const runtime = "nodejs";
+
+/**
+ * Signatures accepted per request, within the RPC status lookup limit
+ */
+const MAX_STATUS_SIGNATURES = 50;
+
+/**
+ * Check whether a string is a base58 transaction signature
+ */
+function isSignature(value: string): boolean {
+  try {
+    return bs58.decode(value).length === 64;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Handle GET request to check transaction progress
+ * @param request - Next.js request with comma-separated signatures and cluster as query parameters
+ * @returns JSON response with the block height and a stage per signature
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // Validate cluster against the allow-list
+    const cluster = parseCluster(searchParams.get("cluster"));
+    if (!cluster) {
+      return unsupportedClusterResponse();
+    }
+
+    const signatures = Array.from(
+      new Set(
+        (searchParams.get("signatures") || "")
+          .split(",")
+          .map((signature) => signature.trim())
+          .filter(Boolean)
+      )
+    );
+    if (signatures.length === 0) {
+      return errorResponse("INVALID_REQUEST", "Missing signatures");
+    }
+    if (signatures.length > MAX_STATUS_SIGNATURES) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `At most ${MAX_STATUS_SIGNATURES} signatures per request`
+      );
+    }
+    if (!signatures.every(isSignature)) {
+      return errorResponse("INVALID_REQUEST", "Invalid transaction signature");
+    }
+
+    const connection = getConnection(cluster);
+
+    // Read the height first: a signature still unknown after it is checked
+    // cannot have landed at or below this height
+    const blockHeight = await connection.getBlockHeight("confirmed");
+
+    // Relayed sends are tracked by the sender's signature; look up the
+    // transaction id the relayer recorded
+    const txIds = await Promise.all(
+      signatures.map(async (signature) => {
+        const relayed = await findRelayedTransfer(signature, cluster);
+        return relayed?.signature ?? signature;
+      })
+    );
+    const { value } = await connection.getSignatureStatuses(txIds, {
+      searchTransactionHistory: true,
+    });
+
+    const statuses = signatures.map((signature, i): TransactionStatus => {
+      const status = value[i];
+      const txId = txIds[i] === signature && !status ? null : txIds[i];
+      if (!status) {
+        return { signature, txId, stage: "submitted", error: null };
+      }
+      if (status.err) {
+        return {
+          signature,
+          txId,
+          stage: "failed",
+          error: decodeTransactionError(status.err).message,
+        };
+      }
+      const stage: PendingStage = status.confirmationStatus ?? "processed";
+      return { signature, txId, stage, error: null };
+    });
+
+    const response: TransactionStatusResponse = { blockHeight, statuses };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to check transaction status:", error);
+
+    return toErrorResponse(error, "Failed to check transaction status");
+  }
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useWallet } from "@/components/WalletProvider";
+import { getExplorerUrl, parseCluster, type Cluster } from "@/lib/clusters";
+import { describeError, readApiError } from "@/lib/errors";
+import {
+  parseClaimSecret,
+  sweepPaymentLink,
+  type PaymentLinkView,
+} from "@/lib/payment-links";
+
+/**
+ * Shorten an address for display
+ */
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Claim page for a payment link
+ * The escrow secret is read from the URL fragment; the recipient connects
+ * their MetaKeep wallet and the escrow is swept to it
+ */
+export default function ClaimPage() {
+  const { id } = useParams<{ id: string }>();
+  const [cluster, setCluster] = useState<Cluster | null>(null);
+  const [secretKey, setSecretKey] = useState<Uint8Array | null>(null);
+  const [link, setLink] = useState<PaymentLinkView | null>(null);
+  const { wallet, connect } = useWallet();
+  const address = wallet?.address ?? null;
+  const [signature, setSignature] = useState<string | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Read the cluster and secret from the URL, then load the link
+   */
+  useEffect(() => {
+    const linkCluster = parseCluster(
+      new URLSearchParams(window.location.search).get("cluster")
+    );
+    const secret = parseClaimSecret(window.location.hash);
+    setCluster(linkCluster);
+    setSecretKey(secret);
+    if (!linkCluster || !secret) {
+      setError(
+        "This payment link is incomplete. Ask the sender to share it again."
+      );
+      return;
+    }
+
+    const loadLink = async () => {
+      try {
+        const response = await fetch(
+          `/api/payment-links/${id}?cluster=${linkCluster}`
+        );
+        if (!response.ok) {
+          throw await readApiError(response, "Failed to load payment link");
+        }
+        setLink(await response.json());
+      } catch (loadError) {
+        console.error("Failed to load payment link:", loadError);
+        setError(describeError(loadError).message);
+      }
+    };
+    void loadLink();
+  }, [id]);
+
+  /**
+   * Connect the recipient's MetaKeep wallet
+   */
+  const connectWallet = async () => {
+    try {
+      await connect();
+      setError(null);
+    } catch (connectError) {
+      console.error("Failed to connect wallet:", connectError);
+      setError(describeError(connectError).message);
+    }
+  };
+
+  /**
+   * Sweep the link's funds to the connected wallet
+   */
+  const claim = async () => {
+    if (!address || !secretKey || !cluster) return;
+    setIsClaiming(true);
+    setError(null);
+    try {
+      setSignature(
+        await sweepPaymentLink(id, secretKey, address, "claim", cluster)
+      );
+      setLink((current) =>
+        current
+          ? { ...current, status: "claimed", settledBy: address }
+          : current
+      );
+    } catch (claimError) {
+      console.error("Failed to claim payment link:", claimError);
+      setError(describeError(claimError).message);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const claimable = link?.status === "unclaimed" && link.funded;
+
+  return (
+    <main className="min-h-screen wallet-background flex items-center justify-center p-4">
+      <div className="w-full max-w-[440px] bg-[#000000] rounded-3xl shadow-[0_24px_80px_rgba(0,0,0,0.9)] border border-blue-600/20 p-6 space-y-4">
+        <h1 className="text-xl font-semibold text-white">
+          You have been sent USDC
+        </h1>
+
+        {link && (
+          <div className="rounded-xl border border-white/10 px-3 py-2 space-y-1">
+            <p className="text-sm text-gray-400">Amount</p>
+            <p className="text-2xl font-semibold text-white">
+              {link.amount} {link.symbol}
+            </p>
+            <p className="text-xs text-gray-500">
+              From {shortenAddress(link.sender)}
+            </p>
+            {link.status === "unclaimed" && (
+              <p className="text-xs text-gray-500">
+                {Date.now() < link.expiresAt
+                  ? `Claim before ${new Date(link.expiresAt).toLocaleString()}`
+                  : "Expired: the sender may reclaim it at any time"}
+              </p>
+            )}
+          </div>
+        )}
+
+        {link?.status === "claimed" && (
+          <p className="text-sm text-green-400">
+            Claimed
+            {link.settledBy ? ` by ${shortenAddress(link.settledBy)}` : ""}
+          </p>
+        )}
+        {link?.status === "sweeping" && (
+          <p className="text-sm text-gray-400">
+            This payment is being settled. Check back in a moment.
+          </p>
+        )}
+        {link?.status === "reclaimed" && (
+          <p className="text-sm text-gray-400">
+            The sender reclaimed this payment
+          </p>
+        )}
+        {link?.status === "unclaimed" && !link.funded && (
+          <p className="text-sm text-gray-400">
+            This link is not funded yet. Try again in a moment.
+          </p>
+        )}
+
+        {claimable && !address && (
+          <Button
+            className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
+            onClick={() => void connectWallet()}
+          >
+            Connect MetaKeep wallet
+          </Button>
+        )}
+
+        {claimable && address && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400 break-all">
+              Claiming to {address}
+            </p>
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
+              onClick={() => void claim()}
+              disabled={isClaiming}
+            >
+              {isClaiming
+                ? "Claiming..."
+                : `Claim ${link.amount} ${link.symbol}`}
+            </Button>
+          </div>
+        )}
+
+        {signature && cluster && (
+          <a
+            href={getExplorerUrl("tx", signature, cluster)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-sm text-blue-400 hover:text-blue-500 underline underline-offset-4 transition-colors"
+          >
+            View transaction
+          </a>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <Link
+          href="/"
+          className="block text-sm text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          Open wallet
+        </Link>
+      </div>
+    </main>
+  );
+}
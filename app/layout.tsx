@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import Script from "next/script";
+import WalletProvider from "@/components/WalletProvider";
 
 /**
  * Inter font configuration
@@ -25,7 +26,7 @@ export const metadata: Metadata = {
 };
 
 /**
- * Root layout component with MetaKeep SDK script
+ * Root layout component with MetaKeep SDK script and wallet context
  */
 export default function RootLayout({
   children,
@@ -43,7 +44,9 @@ export default function RootLayout({
           strategy="beforeInteractive"
         />
       </head>
-      <body className={`${inter.variable} antialiased`}>{children}</body>
+      <body className={`${inter.variable} antialiased`}>
+        <WalletProvider>{children}</WalletProvider>
+      </body>
     </html>
   );
 }
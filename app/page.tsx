@@ -8,10 +8,10 @@ import {
   QrCode,
   User,
   LogOut,
-  Mail,
   LogIn,
   CirclePlus,
-  ScanLine,
+  Link2,
+  Users,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -23,70 +23,195 @@ import {
 import { Input } from "@/components/ui/input";
 import QRCode from "qrcode";
 import dynamic from "next/dynamic";
+import { encodeTransferRequestUrl, generateReference } from "@/lib/solana-pay";
+import { validateMemo } from "@/lib/memo";
+import { formatBaseUnits, formatUiAmount } from "@/lib/amount";
+import type { PaymentStatusResult } from "@/lib/payment-request";
+import { BALANCE_EVENT, type BalanceUpdate } from "@/lib/balance-stream";
+import { describeError, readApiError } from "@/lib/errors";
+import SendDialog, { type SendDialogLink } from "@/components/SendDialog";
+import Toast, { useToast, type ToastOptions } from "@/components/Toast";
+import AccountSwitcher from "@/components/AccountSwitcher";
+import { useWallet } from "@/components/WalletProvider";
+import { usePendingTransactions } from "@/components/usePendingTransactions";
+import { useScheduledPayments } from "@/components/useScheduledPayments";
+import { useSendForm } from "@/components/useSendForm";
+import { applyAccountBalances, type WalletData } from "@/lib/accounts";
+import type { MultiBalanceResponse } from "@/lib/balances";
+import {
+  EMPTY_CONTACT_BOOK,
+  loadContactBook,
+  saveContactBook,
+  type ContactBook,
+} from "@/lib/contacts";
+import {
+  removePendingTransaction,
+  type PendingTransaction,
+} from "@/lib/pending-transactions";
+import {
+  DUST_THRESHOLD,
+  getTokenInfo,
+  getUsdcMint,
+  getUsdcToken,
+  type TokenBalance,
+} from "@/lib/tokens";
+import {
+  DEFAULT_CLUSTER,
+  DEFAULT_EXPLORER,
+  ENABLED_CLUSTERS,
+  EXPLORER_LABELS,
+  FAUCET_CLUSTER,
+  getClusterConfig,
+  getExplorerUrl,
+  loadNetworkPreference,
+  saveNetworkPreference,
+  type Cluster,
+  type Explorer,
+} from "@/lib/clusters";
 
 /**
- * Dynamically import QR scanner (client-side only)
+ * Dynamically import swap dialog (client-side only)
  */
-const QrScanner = dynamic(() => import("@/components/QrScanner"), {
+const SwapDialog = dynamic(() => import("@/components/SwapDialog"), {
   ssr: false,
 });
 
-const EXPLORER_TX_BASE =
-  process.env.NEXT_PUBLIC_EXPLORER_TX_BASE ||
-  "https://explorer.solana.com/tx/";
-
-type ToastKind = "info" | "success" | "error";
-type ToastState = {
-  id: number;
-  kind: ToastKind;
-  message: string;
-  actionLabel?: string;
-  actionHref?: string;
-};
+/**
+ * Dynamically import batch payout dialog (client-side only)
+ */
+const BatchPayoutDialog = dynamic(
+  () => import("@/components/BatchPayoutDialog"),
+  {
+    ssr: false,
+  }
+);
 
-type MetaKeepGetWalletResponse = {
-  status: string;
-  wallet: { solAddress: string };
-  user?: { email?: string };
-  email?: string;
-};
+/**
+ * Dynamically import scheduled payments dialog (client-side only)
+ */
+const ScheduledPaymentsDialog = dynamic(
+  () => import("@/components/ScheduledPaymentsDialog"),
+  {
+    ssr: false,
+  }
+);
 
-type MetaKeepSdkLike = {
-  user?: { email?: string };
-  config?: { user?: { email?: string } };
-};
+/**
+ * Dynamically import payment links dialog (client-side only)
+ */
+const PaymentLinksDialog = dynamic(
+  () => import("@/components/PaymentLinksDialog"),
+  {
+    ssr: false,
+  }
+);
+
+/**
+ * Dynamically import activity export dialog (client-side only)
+ */
+const ExportDialog = dynamic(() => import("@/components/ExportDialog"), {
+  ssr: false,
+});
+
+/**
+ * Dynamically import contacts dialog (client-side only)
+ */
+const ContactsDialog = dynamic(() => import("@/components/ContactsDialog"), {
+  ssr: false,
+});
 
-type MetaKeepSignTxResponse = {
-  status: string;
-  signature?: string;
-  transaction?: string;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  [key: string]: any;
+/**
+ * Dynamically import activity list (client-side only)
+ */
+const ActivityList = dynamic(() => import("@/components/ActivityList"), {
+  ssr: false,
+});
+
+/**
+ * Dynamically import pending transactions (client-side only)
+ */
+const PendingTransactions = dynamic(
+  () => import("@/components/PendingTransactions"),
+  {
+    ssr: false,
+  }
+);
+
+const FAUCET_ENABLED = process.env.NEXT_PUBLIC_FAUCET_ENABLED === "true";
+
+type OpenPaymentRequest = {
+  reference: string;
+  amount?: string;
+  result: PaymentStatusResult | null;
 };
 
 /**
- * Wallet data interface
+ * Window after a local send, swap or claim in which incoming balance
+ * changes are attributed to it rather than announced as payments
  */
-interface WalletData {
-  address: string;
-  email?: string;
-  usdcBalance: number;
-  solBalance: number;
-  usdValue: number;
-}
+const LOCAL_ACTIVITY_WINDOW_MS = 60_000;
+
+/**
+ * Apply a live balance update to wallet data
+ * @param name - Token name used when the token is not yet in the list
+ */
+const applyBalanceUpdate = (
+  wallet: WalletData,
+  update: BalanceUpdate,
+  name: string
+): WalletData => {
+  if (update.mint === null) {
+    return { ...wallet, solBalance: update.uiAmount };
+  }
+
+  const tokens = wallet.tokens ?? [];
+  const token: TokenBalance = {
+    ...(tokens.find((t) => t.mint === update.mint) ?? {
+      mint: update.mint,
+      symbol: update.symbol,
+      name,
+      decimals: update.decimals,
+      known: true,
+    }),
+    amount: update.amount,
+    uiAmount: update.uiAmount,
+    dust: update.uiAmount < DUST_THRESHOLD,
+  };
+  return {
+    ...wallet,
+    usdcBalance: update.uiAmount,
+    usdValue: update.uiAmount, // 1 USDC = 1 USD
+    tokens: tokens.some((t) => t.mint === update.mint)
+      ? tokens.map((t) => (t.mint === update.mint ? token : t))
+      : [token, ...tokens],
+  };
+};
 
 /**
  * Main wallet page component
  */
 export default function Home() {
-  // Wallet state
-  const [wallet, setWallet] = useState<WalletData | null>(null);
+  // Wallet state, shared through the wallet context
+  const {
+    wallet,
+    setWallet,
+    accounts,
+    updateAccounts,
+    isReady,
+    isLoggedOut,
+    connect,
+    switchAccount,
+    logout,
+  } = useWallet();
   const [showUserMenu, setShowUserMenu] = useState(false);
-  const [isLoggedOut, setIsLoggedOut] = useState(false);
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
 
-  // Toast state
-  const [toast, setToast] = useState<ToastState | null>(null);
-  const toastTimerRef = useRef<number | null>(null);
+  // Network state, persisted per wallet
+  const [cluster, setCluster] = useState<Cluster>(DEFAULT_CLUSTER);
+  const [explorer, setExplorer] = useState<Explorer>(DEFAULT_EXPLORER);
+
+  // Time of the last local send, swap or claim
+  const localActivityAtRef = useRef(0);
 
   // Refs
   const userMenuRef = useRef<HTMLDivElement | null>(null);
@@ -95,36 +220,175 @@ export default function Home() {
   const [sendDialogOpen, setSendDialogOpen] = useState(false);
   const [receiveDialogOpen, setReceiveDialogOpen] = useState(false);
   const [qrScanDialogOpen, setQrScanDialogOpen] = useState(false);
-  const [qrScanAddressDialogOpen, setQrScanAddressDialogOpen] = useState(false);
-
-  // Send form state
-  const [recipientInput, setRecipientInput] = useState("");
-  const [sendAmount, setSendAmount] = useState("1.00");
-  const [isSending, setIsSending] = useState(false);
-  const [isFetchingAddress, setIsFetchingAddress] = useState(false);
-  
-  // Faucet state - COMMENTED OUT: Faucet functionality disabled
-  // const [isClaiming, setIsClaiming] = useState(false);
-  // const [claimAmount, setClaimAmount] = useState<2 | 5 | 10>(2);
+  const [swapDialogOpen, setSwapDialogOpen] = useState(false);
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false);
+  const [scheduledDialogOpen, setScheduledDialogOpen] = useState(false);
+  const [paymentLinksDialogOpen, setPaymentLinksDialogOpen] = useState(false);
+  const [contactsDialogOpen, setContactsDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+
+  // Send form state, filled from scans, contacts and expired sends
+  const sendForm = useSendForm();
+
+  // Address book state
+  const [contactBook, setContactBook] =
+    useState<ContactBook>(EMPTY_CONTACT_BOOK);
+
+  // Portfolio state
+  const [showHiddenTokens, setShowHiddenTokens] = useState(false);
+
+  // Faucet state
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [claimAmount, setClaimAmount] = useState<2 | 5 | 10>(2);
 
   // QR code state
   const [qrCodeUrl, setQrCodeUrl] = useState("");
 
-  const showToast = useCallback((next: Omit<ToastState, "id">) => {
-    setToast({ id: Date.now(), ...next });
-  }, []);
+  // Receive request state (encoded into a Solana Pay URI)
+  const [requestAmount, setRequestAmount] = useState("");
+  const [requestLabel, setRequestLabel] = useState("");
+  const [requestMessage, setRequestMessage] = useState("");
+  const [requestMemo, setRequestMemo] = useState("");
+  const [openRequest, setOpenRequest] = useState<OpenPaymentRequest | null>(
+    null
+  );
+
+  // Activity state - bumped to reload history after a send
+  const [activityRefreshKey, setActivityRefreshKey] = useState(0);
+
+  // Toast state
+  const { toast, showToast, dismissToast } = useToast();
+
+  /**
+   * Update the address book and persist it
+   */
+  const updateContactBook = useCallback(
+    (update: (book: ContactBook) => ContactBook) => {
+      setContactBook((prev) => {
+        const next = update(prev);
+        if (wallet?.address) saveContactBook(wallet.address, next);
+        return next;
+      });
+    },
+    [wallet?.address]
+  );
+
+  /**
+   * Load the active account's address book from localStorage
+   */
+  useEffect(() => {
+    setContactBook(
+      wallet?.address ? loadContactBook(wallet.address) : EMPTY_CONTACT_BOOK
+    );
+  }, [wallet?.address]);
+
+  /**
+   * Announce sends restored after a reload that landed, as no submit
+   * response reports them
+   */
+  const announceRestoredConfirmed = useCallback(
+    (count: number) => {
+      showToast({
+        kind: "success",
+        message:
+          count === 1
+            ? "Pending transaction confirmed"
+            : `${count} pending transactions confirmed`,
+      });
+      setActivityRefreshKey((key) => key + 1);
+    },
+    [showToast]
+  );
+
+  // Sends tracked from signing until they finalize or expire
+  const {
+    pendingTransactions,
+    walletPending,
+    updatePendingTransactions,
+    signAndSubmit,
+  } = usePendingTransactions({
+    cluster,
+    onSign: () => {
+      localActivityAtRef.current = Date.now();
+    },
+    onRestoredConfirmed: announceRestoredConfirmed,
+  });
+
+  /**
+   * Announce scheduled runs as they become due
+   */
+  const announceDueRuns = useCallback(() => {
+    showToast({
+      kind: "info",
+      message: "Scheduled payment due",
+      actionLabel: "Review",
+      onAction: () => setScheduledDialogOpen(true),
+    });
+  }, [showToast]);
+
+  // Scheduled payments, with this wallet's runs waiting to be signed
+  const { schedules, scheduleClock, updateSchedules, dueRuns } =
+    useScheduledPayments({
+      walletAddress: wallet?.address,
+      cluster,
+      onDue: announceDueRuns,
+    });
+
+  /**
+   * Load the wallet's cluster and explorer preference
+   */
+  useEffect(() => {
+    if (!wallet?.address) return;
+    const preference = loadNetworkPreference(wallet.address);
+    setCluster(preference.cluster);
+    setExplorer(preference.explorer);
+  }, [wallet?.address]);
 
+  /**
+   * Stream live balance updates while a wallet is connected
+   * Keeps the wallet and its cached account current and announces
+   * incoming payments
+   */
   useEffect(() => {
-    if (!toast) return;
+    if (!wallet?.address) return;
+
+    const params = new URLSearchParams({ address: wallet.address, cluster });
+    const source = new EventSource(
+      `/api/balances/stream?${params.toString()}`
+    );
+
+    const onBalance = (event: MessageEvent<string>) => {
+      const update: BalanceUpdate = JSON.parse(event.data);
+      const name =
+        (update.mint && getTokenInfo(update.mint, cluster)?.name) ??
+        update.symbol;
+
+      setWallet((prev) => {
+        if (!prev) return prev;
+        return applyBalanceUpdate(prev, update, name);
+      });
 
-    if (toastTimerRef.current) window.clearTimeout(toastTimerRef.current);
-    toastTimerRef.current = window.setTimeout(() => setToast(null), 3_000);
+      const received = BigInt(update.delta) > BigInt(0);
+      const isLocal =
+        Date.now() - localActivityAtRef.current < LOCAL_ACTIVITY_WINDOW_MS;
+      if (received && !isLocal) {
+        showToast({
+          kind: "success",
+          message: `Incoming payment: +${formatBaseUnits(
+            update.delta,
+            update.decimals
+          )} ${update.symbol}`,
+        });
+        setActivityRefreshKey((key) => key + 1);
+      }
+    };
 
+    source.addEventListener(BALANCE_EVENT, onBalance);
     return () => {
-      if (toastTimerRef.current) window.clearTimeout(toastTimerRef.current);
-      toastTimerRef.current = null;
+      source.removeEventListener(BALANCE_EVENT, onBalance);
+      source.close();
     };
-  }, [toast]);
+  }, [wallet?.address, cluster, showToast, setWallet]);
 
   // Close profile dropdown on outside click
   useEffect(() => {
@@ -143,6 +407,58 @@ export default function Home() {
     };
   }, [showUserMenu]);
 
+  const inactiveAccountsKey = accounts.accounts
+    .map((account) => account.address)
+    .filter((address) => address !== wallet?.address)
+    .join(",");
+
+  /**
+   * Refresh the other accounts' cached balances while the dropdown is open,
+   * each on its own preferred cluster
+   */
+  useEffect(() => {
+    if (!showUserMenu || !inactiveAccountsKey) return;
+
+    const byCluster = new Map<Cluster, string[]>();
+    for (const address of inactiveAccountsKey.split(",")) {
+      const accountCluster = loadNetworkPreference(address).cluster;
+      byCluster.set(accountCluster, [
+        ...(byCluster.get(accountCluster) ?? []),
+        address,
+      ]);
+    }
+
+    const refreshAccounts = async () => {
+      for (const [accountCluster, addresses] of byCluster) {
+        try {
+          const params = new URLSearchParams({
+            addresses: addresses.join(","),
+            cluster: accountCluster,
+          });
+          const response = await fetch(`/api/balances?${params.toString()}`);
+          if (!response.ok) {
+            throw await readApiError(response, "Failed to fetch balances");
+          }
+          const data: MultiBalanceResponse = await response.json();
+          updateAccounts((store) =>
+            data.balances.reduce(
+              (next, balances) =>
+                applyAccountBalances(
+                  next,
+                  balances,
+                  getUsdcMint(accountCluster)
+                ),
+              store
+            )
+          );
+        } catch (error) {
+          console.error("Failed to refresh account balances:", error);
+        }
+      }
+    };
+    void refreshAccounts();
+  }, [showUserMenu, inactiveAccountsKey, updateAccounts]);
+
   // Toast when Receive tab opens
   useEffect(() => {
     if (!receiveDialogOpen) return;
@@ -155,197 +471,135 @@ export default function Home() {
   }, [receiveDialogOpen, wallet, showToast]);
 
   /**
-   * Load cached wallet data from localStorage
+   * Sign in with MetaKeep when no account is remembered
    */
+  const hasWallet = wallet !== null;
   useEffect(() => {
-    const cachedWallet = localStorage.getItem("walletData");
-    if (cachedWallet && !isLoggedOut) {
-      try {
-        const walletData = JSON.parse(cachedWallet);
-        setWallet(walletData);
-        // Refresh balances in the background
-        if (walletData?.address) {
-          void (async () => {
-            const balances = await fetchBalances(walletData.address);
-            const next: WalletData = {
-              ...walletData,
-              solBalance: balances.solBalance,
-              usdcBalance: balances.usdcBalance,
-              usdValue: balances.usdcBalance,
-            };
-            setWallet(next);
-            localStorage.setItem("walletData", JSON.stringify(next));
-          })();
-        }
-        return;
-      } catch (error) {
-        console.error("Failed to parse cached wallet:", error);
-      }
-    }
+    if (!isReady || hasWallet || isLoggedOut) return;
+    connect().catch((error) =>
+      console.error("Failed to initialize wallet:", error)
+    );
+  }, [isReady, hasWallet, isLoggedOut, connect]);
 
-    // If no cache or logged out, initialize wallet
-    if (!isLoggedOut) {
-      initWallet();
-    }
+  /**
+   * Refresh balances of the active account on its cluster whenever the
+   * account changes
+   */
+  useEffect(() => {
+    if (!wallet?.address) return;
+    void refreshBalances(
+      wallet.address,
+      loadNetworkPreference(wallet.address).cluster
+    );
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isLoggedOut]);
+  }, [wallet?.address]);
 
   /**
-   * Fetch token balances from Solana devnet via backend proxy
+   * Fetch token balances on a cluster via backend proxy
+   * Throws an AppError (e.g. RPC_UNAVAILABLE) rather than reporting zeros
    */
-  const fetchBalances = async (address: string) => {
-    try {
-      const response = await fetch(`/api/balances?address=${address}`, {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.message ||
-            `Failed to fetch balances: ${response.statusText}`
-        );
-      }
+  const fetchBalances = async (
+    address: string,
+    balanceCluster: Cluster = cluster
+  ) => {
+    const params = new URLSearchParams({ address, cluster: balanceCluster });
+    const response = await fetch(`/api/balances?${params.toString()}`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
 
-      const balanceData = await response.json();
-      return {
-        solBalance: balanceData.solBalance || 0,
-        usdcBalance: balanceData.usdcBalance || 0,
-      };
-    } catch (error) {
-      console.error("Failed to fetch balances:", error);
-      return {
-        solBalance: 0,
-        usdcBalance: 0,
-      };
+    if (!response.ok) {
+      throw await readApiError(
+        response,
+        `Failed to fetch balances: ${response.statusText}`
+      );
     }
+
+    const balanceData = await response.json();
+    return {
+      solBalance: balanceData.solBalance || 0,
+      usdcBalance: balanceData.usdcBalance || 0,
+      tokens: (balanceData.tokens || []) as TokenBalance[],
+    };
   };
 
   /**
-   * Initialize MetaKeep SDK and fetch wallet data
+   * Cluster settings and faucet availability for the selected cluster
    */
-  const initWallet = async () => {
-    try {
-      // Wait for MetaKeep SDK to load
-      if (typeof window.MetaKeep === "undefined") {
-        setTimeout(initWallet, 100);
-        return;
-      }
-
-      // Initialize MetaKeep SDK
-      const sdk = new window.MetaKeep({
-        appId:
-          process.env.NEXT_PUBLIC_METAKEEP_APP_ID ||
-          "2ff01bae-613c-4c90-a264-eecd14fb0bc0",
-      });
-
-      // Get wallet address from MetaKeep
-      const response = await sdk.getWallet();
-
-      if (response.status === "SUCCESS") {
-        const address = response.wallet.solAddress;
-
-        // Fetch balances from Solana devnet
-        const balances = await fetchBalances(address);
-
-        // Extract email from MetaKeep response or cache
-        let userEmail: string | undefined;
+  const clusterConfig = getClusterConfig(cluster);
+  const usdcMint = getUsdcMint(cluster);
+  const faucetEnabled = FAUCET_ENABLED && cluster === FAUCET_CLUSTER;
 
-        const responseSafe = response as unknown as MetaKeepGetWalletResponse;
-        if (responseSafe.user?.email) {
-          userEmail = responseSafe.user.email;
-        } else if (responseSafe.email) {
-          userEmail = responseSafe.email;
-        }
-
-        // Try to get from SDK instance if available
-        if (!userEmail) {
-          const sdkSafe = sdk as unknown as MetaKeepSdkLike;
-          if (sdkSafe.user?.email) {
-            userEmail = sdkSafe.user.email;
-          } else if (sdkSafe.config?.user?.email) {
-            userEmail = sdkSafe.config.user.email;
-          }
-        }
-
-        // Check MetaKeep's internal storage
-        if (!userEmail) {
-          try {
-            const metakeepKeys = Object.keys(localStorage).filter(
-              (key) =>
-                key.toLowerCase().includes("metakeep") ||
-                key.toLowerCase().includes("user")
-            );
-            for (const key of metakeepKeys) {
-              try {
-                const stored = localStorage.getItem(key);
-                if (stored) {
-                  const parsed = JSON.parse(stored);
-                  if (
-                    parsed.email &&
-                    typeof parsed.email === "string" &&
-                    parsed.email.includes("@")
-                  ) {
-                    userEmail = parsed.email;
-                    break;
-                  }
-                }
-              } catch {
-                // Continue checking other keys
-              }
-            }
-          } catch {
-            // Ignore errors
-          }
-        }
+  /**
+   * Portfolio tokens, always listing USDC even before its account exists
+   */
+  const portfolioTokens: TokenBalance[] = (() => {
+    const tokens = wallet?.tokens ?? [];
+    if (!usdcMint || tokens.some((token) => token.mint === usdcMint)) {
+      return tokens;
+    }
+    const usdc = getUsdcToken(cluster);
+    return [
+      {
+        ...usdc,
+        amount: "0",
+        uiAmount: wallet?.usdcBalance ?? 0,
+        known: true,
+        dust: false,
+      },
+      ...tokens,
+    ];
+  })();
+  const usdcToken = portfolioTokens.find((token) => token.mint === usdcMint);
+  const usdcDisplay = usdcToken
+    ? formatBaseUnits(usdcToken.amount, usdcToken.decimals, 2, 2)
+    : "0.00";
+  const visibleTokens = portfolioTokens.filter(
+    (token) =>
+      showHiddenTokens ||
+      token.mint === usdcMint ||
+      (token.known && !token.dust)
+  );
+  const hiddenTokenCount = portfolioTokens.length - visibleTokens.length;
 
-        // Check cached data
-        if (!userEmail) {
-          const cachedData = localStorage.getItem("walletData");
-          if (cachedData) {
-            try {
-              const parsed = JSON.parse(cachedData);
-              if (
-                parsed.email &&
-                parsed.email.includes("@") &&
-                !parsed.email.startsWith("User ")
-              ) {
-                userEmail = parsed.email;
-              }
-            } catch {
-              // Ignore parse errors
-            }
-          }
-        }
+  /**
+   * Registered tokens with a balance, selectable in the Send dialog
+   */
+  const sendableTokens = portfolioTokens.filter(
+    (token) => token.known && token.uiAmount > 0
+  );
 
-        const walletData: WalletData = {
-          address,
-          email: userEmail,
-          usdcBalance: balances.usdcBalance,
-          solBalance: balances.solBalance,
-          usdValue: balances.usdcBalance, // 1 USDC = 1 USD
-        };
+  // Contact names for activity labels
+  const contactNames = Object.fromEntries(
+    contactBook.contacts.map((contact) => [contact.address, contact.label])
+  );
 
-        setWallet(walletData);
-        // Cache wallet data
-        localStorage.setItem("walletData", JSON.stringify(walletData));
-      } else {
-        console.error("MetaKeep wallet connection failed");
-      }
-    } catch (error) {
-      console.error("Failed to initialize wallet:", error);
-    }
-  };
+  /**
+   * Solana Pay transfer request URI for the Receive dialog
+   */
+  const paymentRequestUrl = wallet?.address
+    ? encodeTransferRequestUrl({
+        recipient: wallet.address,
+        amount: openRequest
+          ? openRequest.amount
+          : requestAmount.trim() || undefined,
+        splToken: usdcMint || undefined,
+        reference: openRequest ? [openRequest.reference] : undefined,
+        label: requestLabel.trim() || undefined,
+        message: requestMessage.trim() || undefined,
+        memo: requestMemo.trim() || undefined,
+      })
+    : "";
 
   /**
-   * Generate QR code for wallet address
+   * Generate QR code for wallet address or payment request
    */
   useEffect(() => {
     if (wallet?.address && (receiveDialogOpen || qrScanDialogOpen)) {
-      QRCode.toDataURL(wallet.address, {
+      const qrContent = receiveDialogOpen ? paymentRequestUrl : wallet.address;
+      QRCode.toDataURL(qrContent, {
         width: 300,
         margin: 2,
         color: {
@@ -356,347 +610,218 @@ export default function Home() {
         .then(setQrCodeUrl)
         .catch(console.error);
     }
-  }, [wallet?.address, receiveDialogOpen, qrScanDialogOpen]);
+  }, [
+    wallet?.address,
+    receiveDialogOpen,
+    qrScanDialogOpen,
+    paymentRequestUrl,
+  ]);
 
   /**
-   * Check if an error indicates insufficient gas/balance
+   * Poll payment status while a payment request is open
    */
-  const isInsufficientGasError = (error: unknown): boolean => {
-    if (typeof error === "string") {
-      const errorLower = error.toLowerCase();
-      const insufficientGasKeywords = [
-        "insufficient funds",
-        "insufficient balance",
-        "insufficient lamports",
-        "not enough",
-        "insufficient sol",
-      ];
-      return insufficientGasKeywords.some((keyword) =>
-        errorLower.includes(keyword)
-      );
-    }
+  const openReference = openRequest?.reference;
+  const openAmount = openRequest?.amount;
+  const openRequestPaid = openRequest?.result?.status === "paid";
+  useEffect(() => {
+    if (!wallet?.address || !openReference || openRequestPaid) return;
+    if (!receiveDialogOpen) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      reference: openReference,
+      recipient: wallet.address,
+      cluster,
+    });
+    if (openAmount) params.set("amount", openAmount);
+
+    const checkStatus = async () => {
+      try {
+        const response = await fetch(
+          `/api/payment-status?${params.toString()}`
+        );
+        if (!response.ok) return;
+        const result: PaymentStatusResult = await response.json();
+        if (cancelled) return;
+
+        setOpenRequest((prev) =>
+          prev?.reference === openReference ? { ...prev, result } : prev
+        );
+        if (result.status === "paid" && result.signature) {
+          showToast({
+            kind: "success",
+            message: `Payment received: ${result.amount} USDC`,
+            actionLabel: "View",
+            actionHref: getExplorerUrl(
+              "tx",
+              result.signature,
+              cluster,
+              explorer
+            ),
+          });
+          setActivityRefreshKey((key) => key + 1);
+        }
+      } catch (error) {
+        console.error("Failed to check payment status:", error);
+      }
+    };
+
+    void checkStatus();
+    const interval = window.setInterval(checkStatus, 3_000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [
+    wallet?.address,
+    openReference,
+    openAmount,
+    openRequestPaid,
+    receiveDialogOpen,
+    cluster,
+    explorer,
+    showToast,
+  ]);
 
-    if (error instanceof Error) {
-      const errorMessage = error.message.toLowerCase();
-      const insufficientGasKeywords = [
-        "insufficient funds",
-        "insufficient balance",
-        "insufficient lamports",
-        "not enough",
-        "insufficient sol",
-      ];
-      return insufficientGasKeywords.some((keyword) =>
-        errorMessage.includes(keyword)
+  /**
+   * Refresh balances for the connected wallet and update the cache
+   * Keeps the last known balances when the fetch fails
+   */
+  const refreshBalances = async (
+    address: string,
+    balanceCluster: Cluster = cluster
+  ) => {
+    try {
+      const balances = await fetchBalances(address, balanceCluster);
+      setWallet((prev) => {
+        if (!prev) return null;
+        // Ignore balances of an account switched away from meanwhile
+        if (prev.address !== address) return prev;
+        return {
+          ...prev,
+          solBalance: balances.solBalance,
+          usdcBalance: balances.usdcBalance,
+          usdValue: balances.usdcBalance,
+          tokens: balances.tokens,
+        };
+      });
+    } catch (error) {
+      console.error("Failed to fetch balances:", error);
+      showErrorToast(
+        error,
+        () => void refreshBalances(address, balanceCluster)
       );
     }
-
-    return false;
   };
 
   /**
-   * Validate if input is a valid Solana wallet address
+   * Switch cluster, persist the choice and reload balances there
    */
-  const isValidWalletAddress = (address: string): boolean => {
-    // Solana addresses are base58 encoded and typically 32-44 characters
-    const solanaAddressRegex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
-    return solanaAddressRegex.test(address.trim());
+  const changeCluster = (next: Cluster) => {
+    if (next === cluster) return;
+    setCluster(next);
+    sendForm.setMint(getUsdcMint(next));
+    setOpenRequest(null);
+    if (!wallet) return;
+    saveNetworkPreference(wallet.address, { cluster: next, explorer });
+    void refreshBalances(wallet.address, next);
   };
 
   /**
-   * Validate if input is a valid email address
+   * Switch block explorer and persist the choice
    */
-  const isValidEmail = (email: string): boolean => {
-    const emailRegex =
-      /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-    const trimmedEmail = email.trim();
-
-    if (trimmedEmail.length > 254) return false;
-    if (trimmedEmail.split("@").length !== 2) return false;
-
-    return emailRegex.test(trimmedEmail);
+  const changeExplorer = (next: Explorer) => {
+    setExplorer(next);
+    if (wallet) {
+      saveNetworkPreference(wallet.address, { cluster, explorer: next });
+    }
   };
 
   /**
-   * Detect input type and validate
+   * Show a toast for a failed action with the recovery its error code suggests
+   * @param error - Thrown error, usually an AppError carrying a code
+   * @param retry - Repeats the failed action for transient errors
    */
-  const detectInputType = (input: string): "address" | "email" | "invalid" => {
-    const trimmed = input.trim();
-
-    if (!trimmed) return "invalid";
+  const showErrorToast = (error: unknown, retry?: () => void) => {
+    const { code, message, recovery } = describeError(error);
+    const next: ToastOptions = {
+      kind: code === "USER_DENIED" ? "info" : "error",
+      message,
+    };
 
-    // Check if it's an email
-    if (trimmed.includes("@")) {
-      return isValidEmail(trimmed) ? "email" : "invalid";
+    if (recovery === "GET_SOL" && clusterConfig.faucets.sol) {
+      next.actionLabel = "Get SOL";
+      next.actionHref = clusterConfig.faucets.sol;
+    } else if (recovery === "GET_TOKEN" && faucetEnabled) {
+      next.actionLabel = "Claim USDC";
+      next.onAction = () => void handleClaimUsdc();
+    } else if (recovery === "GET_TOKEN" && clusterConfig.faucets.usdc) {
+      next.actionLabel = "Get USDC";
+      next.actionHref = clusterConfig.faucets.usdc;
+    } else if (recovery === "RETRY" && retry) {
+      next.actionLabel = "Retry";
+      next.onAction = retry;
     }
 
-    // Check if it's a wallet address
-    return isValidWalletAddress(trimmed) ? "address" : "invalid";
+    showToast(next);
   };
 
   /**
-   * Fetch wallet address from email using MetaKeep SDK
+   * Refill the Send dialog from an expired send so it can be signed again
+   * An expired transaction can no longer land, so this cannot pay twice
    */
-  const fetchWalletFromEmail = async (
-    email: string
-  ): Promise<string | null> => {
-    try {
-      setIsFetchingAddress(true);
-
-      if (typeof window.MetaKeep === "undefined") {
-        throw new Error("MetaKeep SDK not loaded");
-      }
-
-      // Initialize MetaKeep SDK with the user parameter
-      const sdk = new window.MetaKeep({
-        appId:
-          process.env.NEXT_PUBLIC_METAKEEP_APP_ID ||
-          "2ff01bae-613c-4c90-a264-eecd14fb0bc0",
-        user: {
-          email: email,
-        },
-      });
-
-      const response = await sdk.getWallet();
-
-      if (response.status === "SUCCESS" && response.wallet?.solAddress) {
-        return response.wallet.solAddress;
-      }
-
-      return null;
-    } catch (error) {
-      console.error("Failed to fetch wallet from email:", error);
-      showToast({
-        kind: "error",
-        message: "Please enter valid email",
-      });
-      return null;
-    } finally {
-      setIsFetchingAddress(false);
-    }
+  const rebuildPendingSend = (transaction: PendingTransaction) => {
+    const { transfer } = transaction;
+    if (!transfer) return;
+    updatePendingTransactions((list) =>
+      removePendingTransaction(list, transaction.signature)
+    );
+    sendForm.fill({
+      recipient: transfer.recipientEmail ?? transfer.recipient,
+      amount: transfer.amount,
+      mint: transfer.mint,
+      memo: transfer.memo,
+      reference: transfer.reference,
+    });
+    sendForm.setAsLink(false);
+    setSendDialogOpen(true);
   };
 
   /**
-   * Handle send USDC tokens with MetaKeep transaction signing
+   * Reload activity and balances after a send, swap or payout lands
    */
-  const handleSend = async () => {
-    if (!wallet || !sendAmount || !recipientInput) return;
+  const handleSent = async () => {
+    if (!wallet) return;
+    setActivityRefreshKey((key) => key + 1);
+    await refreshBalances(wallet.address);
+  };
 
-    // Detect and validate input type
-    const inputType = detectInputType(recipientInput);
+  /**
+   * Open a dialog linked from the Send dialog in its place
+   */
+  const openFromSend = (link: SendDialogLink) => {
+    setSendDialogOpen(false);
+    if (link === "batch") setBatchDialogOpen(true);
+    if (link === "scheduled") setScheduledDialogOpen(true);
+    if (link === "paymentLinks") setPaymentLinksDialogOpen(true);
+  };
 
-    if (inputType === "invalid") {
-      showToast({
-        kind: "error",
-        message: "Please enter a valid wallet address or email address",
-      });
+  /**
+   * Get USDC from the faucet, or point to one, when there is none to send
+   */
+  const getUsdc = () => {
+    if (faucetEnabled) {
+      void handleClaimUsdc();
       return;
     }
-
-    // Get the final recipient address
-    let finalRecipientAddress = recipientInput.trim();
-
-    // If input is email, fetch the wallet address first
-    if (inputType === "email") {
-      const fetchedAddress = await fetchWalletFromEmail(recipientInput.trim());
-      if (!fetchedAddress) {
-        return;
-      }
-      finalRecipientAddress = fetchedAddress;
-
-      if (!isValidWalletAddress(finalRecipientAddress)) {
-        showToast({
-          kind: "error",
-          message: "Retrieved address is invalid. Please contact support.",
-        });
-        return;
-      }
-    }
-
-    // Validate final address
-    if (!isValidWalletAddress(finalRecipientAddress)) {
-      showToast({
-        kind: "error",
-        message: "Invalid wallet address format",
-      });
+    if (clusterConfig.faucets.usdc) {
+      window.open(clusterConfig.faucets.usdc, "_blank");
       return;
     }
-
-    try {
-      setIsSending(true);
-      setSendDialogOpen(false);
-      await new Promise((r) => setTimeout(r, 50));
-
-      if (typeof window.MetaKeep === "undefined") {
-        throw new Error("MetaKeep SDK not loaded");
-      }
-
-      // Initialize MetaKeep SDK
-      const sdk = new window.MetaKeep({
-        appId:
-          process.env.NEXT_PUBLIC_METAKEEP_APP_ID ||
-          "2ff01bae-613c-4c90-a264-eecd14fb0bc0",
-      });
-
-      // Get SPL token transfer transaction data from API
-      const transferDataResponse = await fetch("/api/token-transfer", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          from: wallet.address,
-          to: finalRecipientAddress,
-          amount: sendAmount,
-        }),
-      });
-
-      if (!transferDataResponse.ok) {
-        const errorData = await transferDataResponse.json().catch(() => ({}));
-        const errorMessage =
-          errorData.message || "Failed to create token transfer transaction";
-        if (
-          isInsufficientGasError(errorMessage) ||
-          isInsufficientGasError(errorData)
-        ) {
-          throw new Error("INSUFFICIENT_GAS");
-        }
-        throw new Error(errorMessage);
-      }
-
-      const transferData = await transferDataResponse.json();
-
-      // Import Solana web3.js dynamically (client-side only)
-      const { Connection, PublicKey, VersionedTransaction } = await import(
-        "@solana/web3.js"
-      );
-
-      // Deserialize the base64 transaction into a VersionedTransaction object
-      const transaction = VersionedTransaction.deserialize(
-        Buffer.from(transferData.transaction, "base64")
-      );
-
-      // Sign transaction using MetaKeep SDK
-      // Pass the VersionedTransaction object directly
-      // MetaKeep will return the signature in hex format
-      const signedTx = await sdk.signTransaction(
-        transaction,
-        `Send ${sendAmount} USDC to ${
-          inputType === "email"
-            ? recipientInput.trim()
-            : `${finalRecipientAddress.slice(
-                0,
-                6
-              )}...${finalRecipientAddress.slice(-4)}`
-        }`
-      );
-
-      const signed = signedTx as unknown as MetaKeepSignTxResponse;
-
-      // Log the response for debugging
-      console.log("MetaKeep signTransaction response:", {
-        status: signed?.status,
-        hasSignature: !!signed?.signature,
-        signature: signed?.signature,
-        allKeys: signed ? Object.keys(signed) : [],
-      });
-
-      if (!signed || signed.status !== "SUCCESS") {
-        const status = signed?.status || "UNKNOWN";
-        if (
-          status === "USER_REQUEST_DENIED" ||
-          status === "USER_CONSENT_DENIED"
-        ) {
-          throw new Error("User denied transaction signing");
-        }
-        throw new Error(`Transaction signing failed (${status})`);
-      }
-
-      // Check if MetaKeep returned a signature
-      if (!signed.signature) {
-        throw new Error("MetaKeep did not return a transaction signature");
-      }
-
-      // Parse signature from MetaKeep (hex format with or without 0x prefix)
-      let signatureBytes: Buffer;
-      const sigStr = String(signed.signature);
-      if (sigStr.startsWith("0x")) {
-        signatureBytes = Buffer.from(sigStr.slice(2), "hex");
-      } else {
-        signatureBytes = Buffer.from(sigStr, "hex");
-      }
-
-      // Add the signature to the transaction
-      transaction.addSignature(
-        new PublicKey(wallet.address),
-        signatureBytes
-      );
-
-      // Broadcast transaction to Solana devnet
-      const connection = new Connection(
-        "https://api.devnet.solana.com",
-        "confirmed"
-      );
-
-      // Serialize and send the transaction
-      const serializedTx = transaction.serialize();
-      const signature = await connection.sendRawTransaction(serializedTx, {
-        skipPreflight: false,
-        maxRetries: 3,
-      });
-
-      // Wait for transaction confirmation
-      await connection.confirmTransaction(signature, "confirmed");
-
-      showToast({
-        kind: "success",
-        message: "Transaction confirmed on Solana!",
-        actionLabel: "View",
-        actionHref: `${EXPLORER_TX_BASE}${signature}?cluster=devnet`,
-      });
-
-      // Reset form
-      setRecipientInput("");
-      setSendAmount("1.00");
-
-      // Refresh wallet balances
-      if (wallet.address) {
-        const balances = await fetchBalances(wallet.address);
-        setWallet((prev) => {
-          if (!prev) return null;
-          const next = {
-            ...prev,
-            solBalance: balances.solBalance,
-            usdcBalance: balances.usdcBalance,
-            usdValue: balances.usdcBalance,
-          };
-          localStorage.setItem("walletData", JSON.stringify(next));
-          return next;
-        });
-      }
-    } catch (error) {
-      console.error("Failed to send transaction:", error);
-
-      if (
-        error instanceof Error &&
-        (error.message === "INSUFFICIENT_GAS" || isInsufficientGasError(error))
-      ) {
-        showToast({
-          kind: "error",
-          message: "Insufficient SOL for gas",
-          actionLabel: "Get SOL",
-          actionHref: "https://faucet.solana.com/",
-        });
-      } else {
-        showToast({
-          kind: "error",
-          message: `Send failed: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`,
-        });
-      }
-    } finally {
-      setIsSending(false);
-    }
+    showToast({
+      kind: "info",
+      message: `No USDC faucet on ${clusterConfig.label}`,
+    });
   };
 
   /**
@@ -709,11 +834,40 @@ export default function Home() {
     }
   };
 
+  /**
+   * Copy Solana Pay payment request link to clipboard
+   */
+  const copyPaymentRequest = async () => {
+    if (paymentRequestUrl) {
+      await navigator.clipboard.writeText(paymentRequestUrl);
+      showToast({ kind: "success", message: "Payment link copied." });
+    }
+  };
+
+  /**
+   * Open a tracked payment request with a fresh reference key
+   */
+  const createPaymentRequest = () => {
+    const amount = requestAmount.trim();
+    if (amount && !(parseFloat(amount) > 0)) {
+      showToast({ kind: "error", message: "Enter a valid request amount" });
+      return;
+    }
+    const memoError = validateMemo(requestMemo.trim());
+    if (memoError) {
+      showToast({ kind: "error", message: memoError });
+      return;
+    }
+    setOpenRequest({
+      reference: generateReference(),
+      amount: amount || undefined,
+      result: null,
+    });
+  };
+
   /**
    * Handle USDC claim from faucet
-   * COMMENTED OUT: Faucet functionality disabled
    */
-  /*
   const handleClaimUsdc = async () => {
     if (!wallet) {
       showToast({
@@ -725,6 +879,7 @@ export default function Home() {
 
     try {
       setIsClaiming(true);
+      localActivityAtRef.current = Date.now();
 
       // Call the claim API
       const response = await fetch("/api/claim", {
@@ -735,12 +890,13 @@ export default function Home() {
         body: JSON.stringify({
           address: wallet.address,
           amount: claimAmount,
+          includeSol: (wallet.solBalance ?? 0) < 0.01,
+          cluster,
         }),
       });
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "Failed to claim USDC");
+        throw await readApiError(response, "Failed to claim USDC");
       }
 
       const data = await response.json();
@@ -748,7 +904,9 @@ export default function Home() {
       if (data.ok && data.usdcTx) {
         showToast({
           kind: "success",
-          message: `Successfully claimed ${claimAmount} USDC!`,
+          message: data.solDrip
+            ? `Successfully claimed ${claimAmount} USDC and ${data.solDrip} SOL!`
+            : `Successfully claimed ${claimAmount} USDC!`,
           actionLabel: "View",
           actionHref: data.usdcTx.url,
         });
@@ -756,54 +914,64 @@ export default function Home() {
         // Refresh wallet balances after a short delay
         setTimeout(async () => {
           if (wallet.address) {
-            const balances = await fetchBalances(wallet.address);
-            setWallet((prev) => {
-              if (!prev) return null;
-              const next = {
-                ...prev,
-                solBalance: balances.solBalance,
-                usdcBalance: balances.usdcBalance,
-                usdValue: balances.usdcBalance,
-              };
-              localStorage.setItem("walletData", JSON.stringify(next));
-              return next;
-            });
+            await refreshBalances(wallet.address);
           }
+          setActivityRefreshKey((key) => key + 1);
         }, 2000);
       } else {
         throw new Error("Claim response invalid");
       }
     } catch (error) {
       console.error("Failed to claim USDC:", error);
-      showToast({
-        kind: "error",
-        message: `Claim failed: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-      });
+      showErrorToast(error, () => void handleClaimUsdc());
     } finally {
       setIsClaiming(false);
     }
   };
-  */
 
   /**
-   * Handle logout - clear wallet and cache
+   * Switch to a remembered account
+   */
+  const handleSwitchAccount = (address: string) => {
+    switchAccount(address);
+    setShowUserMenu(false);
+    setSendDialogOpen(false);
+  };
+
+  /**
+   * Sign in as another MetaKeep identity and switch to it
+   */
+  const handleAddAccount = async (email: string) => {
+    setIsAddingAccount(true);
+    try {
+      await connect(email);
+      setShowUserMenu(false);
+    } catch (error) {
+      console.error("Failed to add account:", error);
+      showErrorToast(error, () => void handleAddAccount(email));
+    } finally {
+      setIsAddingAccount(false);
+    }
+  };
+
+  /**
+   * Handle logout - forget the active account and switch to the most
+   * recently used remaining one, if any
    */
   const handleLogout = () => {
-    setWallet(null);
     setShowUserMenu(false);
-    setIsLoggedOut(true);
-    localStorage.removeItem("walletData");
+    logout();
   };
 
   /**
-   * Handle login - reinitialize wallet
+   * Handle login - sign in with MetaKeep again
    */
   const handleLogin = () => {
-    setIsLoggedOut(false);
     setShowUserMenu(false);
-    initWallet();
+    connect().catch((error) => {
+      console.error("Failed to initialize wallet:", error);
+      showErrorToast(error, handleLogin);
+    });
   };
 
   /**
@@ -813,14 +981,6 @@ export default function Home() {
     setQrScanDialogOpen(true);
   };
 
-  /**
-   * Handle QR code scan for recipient address
-   */
-  const handleQRCodeScan = (scannedAddress: string) => {
-    setRecipientInput(scannedAddress);
-    setQrScanAddressDialogOpen(false);
-  };
-
   return (
     <main className="min-h-screen wallet-background flex items-center justify-center p-4">
       <div className="w-full max-w-[440px] bg-[#000000] rounded-3xl shadow-[0_24px_80px_rgba(0,0,0,0.9)] border border-blue-600/20 overflow-hidden">
@@ -833,6 +993,20 @@ export default function Home() {
             <h1 className="text-xl font-semibold text-white">USDC Wallet</h1>
           </div>
           <div className="flex items-center gap-2">
+            {ENABLED_CLUSTERS.length > 1 && (
+              <select
+                value={cluster}
+                onChange={(e) => changeCluster(e.target.value as Cluster)}
+                aria-label="Cluster"
+                className="h-9 bg-[#000000] text-sm text-gray-300 border border-white/10 rounded-xl px-2 hover:border-blue-600 focus:outline-none transition-all"
+              >
+                {ENABLED_CLUSTERS.map((option) => (
+                  <option key={option} value={option}>
+                    {getClusterConfig(option).label}
+                  </option>
+                ))}
+              </select>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -860,14 +1034,41 @@ export default function Home() {
               {/* User dropdown menu */}
               {showUserMenu && wallet && (
                 <div className="absolute right-0 mt-2 w-64 bg-[#000000] rounded-xl shadow-xl border border-blue-600/30 z-50 overflow-hidden">
-                  <div className="p-4 border-b border-white/10">
-                    <div className="flex items-center gap-2 text-sm text-gray-300">
-                      <Mail className="w-4 h-4" />
-                      <span className="truncate">
-                        {wallet.email || "Email not available"}
-                      </span>
-                    </div>
-                  </div>
+                  <AccountSwitcher
+                    accounts={accounts.accounts}
+                    activeAddress={wallet.address}
+                    isAdding={isAddingAccount}
+                    onSwitch={handleSwitchAccount}
+                    onAdd={(email) => void handleAddAccount(email)}
+                  />
+                  <button
+                    onClick={() => {
+                      setShowUserMenu(false);
+                      setContactsDialogOpen(true);
+                    }}
+                    className="w-full p-3 flex items-center gap-2 text-gray-300 hover:bg-white/5 transition-colors border-b border-white/10"
+                  >
+                    <Users className="w-4 h-4" />
+                    <span className="text-sm font-medium">Contacts</span>
+                  </button>
+                  <label className="w-full p-3 flex items-center justify-between gap-2 text-gray-300 border-b border-white/10">
+                    <span className="text-sm font-medium">Explorer</span>
+                    <select
+                      value={explorer}
+                      onChange={(e) =>
+                        changeExplorer(e.target.value as Explorer)
+                      }
+                      className="bg-[#000000] text-sm text-gray-300 border border-white/10 rounded-lg px-2 py-1 focus:outline-none"
+                    >
+                      {(Object.keys(EXPLORER_LABELS) as Explorer[]).map(
+                        (option) => (
+                          <option key={option} value={option}>
+                            {EXPLORER_LABELS[option]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </label>
                   <button
                     onClick={handleLogout}
                     className="w-full p-3 flex items-center gap-2 text-red-400 hover:bg-white/5 transition-colors"
@@ -887,30 +1088,76 @@ export default function Home() {
             Total Balance
           </p>
           <h2 className="text-5xl font-bold text-white mb-3">
-            ${wallet?.usdcBalance?.toFixed(0) ?? "0"}
+            $
+            {usdcToken
+              ? formatBaseUnits(usdcToken.amount, usdcToken.decimals, 0)
+              : "0"}
           </h2>
           <div className="flex items-center justify-center gap-2">
             <span className="text-blue-400 font-semibold">
-              {wallet?.usdcBalance?.toFixed(2) ?? "0.00"} USDC
+              {usdcDisplay} USDC
             </span>
             <span className="text-gray-500">
-              ≈ ${wallet?.usdValue?.toFixed(2) ?? "0.00"}
+              ≈ ${usdcDisplay}
             </span>
           </div>
         </div>
 
         {/* Get USDC Button */}
-        <div className="px-6 mb-4">
-          <Button
-            className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 rounded-2xl text-base shadow-lg shadow-blue-600/30 transition-all"
-            onClick={() => {
-              window.open("https://faucet.circle.com/", "_blank");
-            }}
-          >
-            <ShoppingCart className="w-5 h-5 mr-2" />
-            GET USDC
-          </Button>
-        </div>
+        {(faucetEnabled || clusterConfig.faucets.usdc) && (
+          <div className="px-6 mb-4">
+            {faucetEnabled && (
+              <div className="grid grid-cols-3 gap-2 mb-2">
+                {([2, 5, 10] as const).map((tier) => (
+                  <button
+                    key={tier}
+                    onClick={() => setClaimAmount(tier)}
+                    className={`rounded-xl border py-1.5 text-sm transition-colors ${
+                      claimAmount === tier
+                        ? "border-blue-600 text-white bg-blue-600/20"
+                        : "border-white/10 text-gray-400 hover:text-gray-200"
+                    }`}
+                  >
+                    {tier} USDC
+                  </button>
+                ))}
+              </div>
+            )}
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 rounded-2xl text-base shadow-lg shadow-blue-600/30 transition-all"
+              onClick={() => {
+                if (faucetEnabled) {
+                  void handleClaimUsdc();
+                  return;
+                }
+                window.open(clusterConfig.faucets.usdc ?? undefined, "_blank");
+              }}
+              disabled={faucetEnabled && isClaiming}
+            >
+              <ShoppingCart className="w-5 h-5 mr-2" />
+              {faucetEnabled
+                ? isClaiming
+                  ? "Claiming..."
+                  : `CLAIM ${claimAmount} USDC`
+                : "GET USDC"}
+            </Button>
+          </div>
+        )}
+
+        {/* Scheduled payments waiting to be signed */}
+        {dueRuns.length > 0 && (
+          <div className="px-6 mb-3">
+            <button
+              onClick={() => setScheduledDialogOpen(true)}
+              className="w-full rounded-2xl border border-blue-600/50 bg-blue-600/10 hover:bg-blue-600/20 px-4 py-3 text-left text-sm text-white transition-colors"
+            >
+              {dueRuns.length === 1
+                ? "1 scheduled payment is due"
+                : `${dueRuns.length} scheduled payments are due`}
+              {" - review and sign"}
+            </button>
+          </div>
+        )}
 
         {/* Send & Receive Buttons */}
         <div className="px-6 mb-6 grid grid-cols-2 gap-3">
@@ -918,7 +1165,7 @@ export default function Home() {
             variant="outline"
             className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
             onClick={() => {
-              if (wallet && (wallet.usdcBalance ?? 0) <= 0) {
+              if (wallet && sendableTokens.length === 0) {
                 showToast({
                   kind: "error",
                   message: "Get USDC to send",
@@ -947,26 +1194,62 @@ export default function Home() {
         <div className="px-6 pb-6">
           <h3 className="text-white font-semibold mb-4">Your Assets</h3>
 
-          {/* USDC Token */}
-          <div className="bg-[#2A2A2A] rounded-2xl p-4 mb-3 flex items-center justify-between border border-white/10 hover:border-blue-600/50 transition-all">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-600 to-blue-400 flex items-center justify-center shadow-md">
-                <span className="text-white font-bold text-lg">U</span>
+          {/* SPL Tokens */}
+          {visibleTokens.map((token) => (
+            <div
+              key={token.mint}
+              className="bg-[#2A2A2A] rounded-2xl p-4 mb-3 flex items-center justify-between border border-white/10 hover:border-blue-600/50 transition-all"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-600 to-blue-400 flex items-center justify-center shadow-md shrink-0 overflow-hidden">
+                  {token.logo ? (
+                    <Image
+                      src={token.logo}
+                      alt={token.symbol}
+                      width={40}
+                      height={40}
+                      unoptimized
+                    />
+                  ) : (
+                    <span className="text-white font-bold text-lg">
+                      {token.symbol.charAt(0)}
+                    </span>
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-white font-semibold truncate">
+                    {token.symbol}
+                  </p>
+                  <p className="text-gray-400 text-sm truncate">
+                    {token.name}
+                  </p>
+                </div>
               </div>
-              <div>
-                <p className="text-white font-semibold">USDC</p>
-                <p className="text-gray-400 text-sm">USD Stablecoin</p>
+              <div className="text-right">
+                <p className="text-white font-semibold">
+                  {formatBaseUnits(token.amount, token.decimals, 2, 2)}
+                </p>
+                {token.mint === usdcMint && (
+                  <p className="text-gray-400 text-sm">
+                    ${usdcDisplay}
+                  </p>
+                )}
               </div>
             </div>
-            <div className="text-right">
-              <p className="text-white font-semibold">
-                {wallet?.usdcBalance?.toFixed(2) ?? "0.00"}
-              </p>
-              <p className="text-gray-400 text-sm">
-                ${wallet?.usdValue?.toFixed(2) ?? "0.00"}
-              </p>
-            </div>
-          </div>
+          ))}
+
+          {(hiddenTokenCount > 0 || showHiddenTokens) && (
+            <button
+              onClick={() => setShowHiddenTokens(!showHiddenTokens)}
+              className="w-full text-xs text-gray-400 hover:text-gray-200 mb-3 transition-colors"
+            >
+              {showHiddenTokens
+                ? "Hide unknown and dust tokens"
+                : `Show ${hiddenTokenCount} hidden token${
+                    hiddenTokenCount === 1 ? "" : "s"
+                  }`}
+            </button>
+          )}
 
           {/* SOL Token */}
           <div className="bg-[#2A2A2A] rounded-2xl p-4 mb-4 flex items-center justify-between border border-white/10 hover:border-purple-500/50 transition-all">
@@ -981,7 +1264,7 @@ export default function Home() {
             </div>
             <div className="text-right">
               <p className="text-white font-semibold">
-                {wallet?.solBalance?.toFixed(3) ?? "0.000"}
+                {formatUiAmount(wallet?.solBalance ?? 0, 9, 3)}
               </p>
               <p className="text-gray-400 text-sm">
                 {wallet?.solBalance && wallet.solBalance > 0
@@ -997,8 +1280,9 @@ export default function Home() {
               variant="outline"
               className="bg-[#2A2A2A] border-white/10 hover:border-purple-500 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
               onClick={() =>
-                window.open("https://faucet.solana.com/", "_blank")
+                window.open(clusterConfig.faucets.sol ?? undefined, "_blank")
               }
+              disabled={!clusterConfig.faucets.sol}
             >
               <ShoppingCart className="w-4 h-4 mr-2" />
               Get SOL
@@ -1006,12 +1290,8 @@ export default function Home() {
             <Button
               variant="outline"
               className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
-              onClick={() => {
-                showToast({
-                  kind: "info",
-                  message: "Coming Soon",
-                });
-              }}
+              onClick={() => setSwapDialogOpen(true)}
+              disabled={!wallet}
             >
               <svg
                 className="w-4 h-4 mr-2"
@@ -1031,87 +1311,64 @@ export default function Home() {
           </div>
         </div>
 
-        {/* Send Dialog */}
-        <Dialog open={sendDialogOpen} onOpenChange={setSendDialogOpen}>
-          <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[380px] rounded-2xl">
-            <DialogHeader>
-              <DialogTitle className="text-xl font-semibold text-white">
-                Send USDC
-              </DialogTitle>
-            </DialogHeader>
-            {wallet && (wallet.usdcBalance ?? 0) <= 0 ? (
-              <div className="space-y-4 pt-2 text-center py-6">
-                <p className="text-gray-400 mb-4">
-                  You don&apos;t have any USDC to send. Get some first!
-                </p>
-                <Button
-                  className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
-                  onClick={() => {
-                    setSendDialogOpen(false);
-                    showToast({
-                      kind: "info",
-                      message: "USDC deployed on Solana Devnet!",
-                    });
-                  }}
-                >
-                  <ShoppingCart className="w-5 h-5 mr-2" />
-                  GET USDC
-                </Button>
-              </div>
-            ) : (
-              <div className="space-y-3 pt-2">
-                <Button
-                  variant="outline"
-                  className="w-full bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
-                  onClick={() => setQrScanAddressDialogOpen(true)}
-                >
-                  <ScanLine className="w-5 h-5 mr-2" />
-                  Scan QR Code
-                </Button>
+        {/* Pending Transactions */}
+        {walletPending.length > 0 && (
+          <div className="px-6 mb-6">
+            <h3 className="text-white font-semibold mb-4">Pending</h3>
+            <PendingTransactions
+              transactions={walletPending}
+              cluster={cluster}
+              explorer={explorer}
+              onRebuild={rebuildPendingSend}
+              onDismiss={(signature) =>
+                updatePendingTransactions((list) =>
+                  removePendingTransaction(list, signature)
+                )
+              }
+            />
+          </div>
+        )}
 
-                <div>
-                  <label className="text-sm text-gray-400 block mb-2 font-medium">
-                    Recipient Wallet Address or Email
-                  </label>
-                  <Input
-                    placeholder="Solana address or satoshi@example.com"
-                    value={recipientInput}
-                    onChange={(e) => setRecipientInput(e.target.value)}
-                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-11 rounded-xl transition-all"
-                  />
-                </div>
+        {/* Activity Section */}
+        {wallet && (
+          <div className="px-6 pb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-white font-semibold">Activity</h3>
+              <button
+                onClick={() => setExportDialogOpen(true)}
+                className="text-sm text-blue-400 hover:text-blue-500 transition-colors"
+              >
+                Export
+              </button>
+            </div>
+            <ActivityList
+              address={wallet.address}
+              cluster={cluster}
+              explorer={explorer}
+              refreshKey={activityRefreshKey}
+              contactNames={contactNames}
+            />
+          </div>
+        )}
 
-                <div>
-                  <label className="text-sm text-gray-400 block mb-2 font-medium">
-                    Amount (USDC)
-                  </label>
-                  <Input
-                    placeholder="1.00"
-                    type="number"
-                    step="0.01"
-                    value={sendAmount}
-                    onChange={(e) => setSendAmount(e.target.value)}
-                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-11 text-lg font-semibold rounded-xl transition-all"
-                  />
-                </div>
-                <Button
-                  className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
-                  onClick={handleSend}
-                  disabled={
-                    !recipientInput ||
-                    !sendAmount ||
-                    isSending ||
-                    isFetchingAddress
-                  }
-                >
-                  {isSending || isFetchingAddress
-                    ? "Processing..."
-                    : "Send USDC"}
-                </Button>
-              </div>
-            )}
-          </DialogContent>
-        </Dialog>
+        {/* Send Dialog */}
+        <SendDialog
+          open={sendDialogOpen}
+          onOpenChange={setSendDialogOpen}
+          form={sendForm}
+          cluster={cluster}
+          explorer={explorer}
+          tokens={sendableTokens}
+          contactBook={contactBook}
+          onContactBookChange={updateContactBook}
+          pendingTransactions={pendingTransactions}
+          signAndSubmit={signAndSubmit}
+          showToast={showToast}
+          showErrorToast={showErrorToast}
+          onGetUsdc={getUsdc}
+          onOpenLink={openFromSend}
+          onSent={handleSent}
+        />
 
         {/* Receive Dialog */}
         <Dialog open={receiveDialogOpen} onOpenChange={setReceiveDialogOpen}>
@@ -1138,19 +1395,118 @@ export default function Home() {
                   </div>
                 </div>
 
-                {/* Wallet Address */}
-                <div className="text-center">
-                  <p className="text-xs text-gray-400 mb-3 break-all px-2 font-mono">
-                    {wallet.address}
-                  </p>
+                {/* Payment Request Fields */}
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    placeholder="Amount (optional)"
+                    disabled={!!openRequest}
+                    type="number"
+                    step="0.01"
+                    value={requestAmount}
+                    onChange={(e) => setRequestAmount(e.target.value)}
+                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-9 rounded-xl transition-all"
+                  />
+                  <Input
+                    placeholder="Label"
+                    disabled={!!openRequest}
+                    value={requestLabel}
+                    onChange={(e) => setRequestLabel(e.target.value)}
+                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-9 rounded-xl transition-all"
+                  />
+                  <Input
+                    placeholder="Message"
+                    disabled={!!openRequest}
+                    value={requestMessage}
+                    onChange={(e) => setRequestMessage(e.target.value)}
+                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-9 rounded-xl transition-all"
+                  />
+                  <Input
+                    placeholder="Memo"
+                    disabled={!!openRequest}
+                    value={requestMemo}
+                    onChange={(e) => setRequestMemo(e.target.value)}
+                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-9 rounded-xl transition-all"
+                  />
+                </div>
+
+                {/* Payment Request Status */}
+                {openRequest ? (
+                  <div className="flex items-center justify-between gap-2 rounded-xl border border-white/10 px-3 py-2">
+                    <p className="text-sm truncate">
+                      {openRequest.result?.status === "paid" ? (
+                        <span className="text-green-400">
+                          Paid {openRequest.result.amount} USDC
+                        </span>
+                      ) : openRequest.result?.status === "mismatch" ? (
+                        <span className="text-red-400">
+                          {openRequest.result.message}
+                        </span>
+                      ) : (
+                        <span className="text-gray-300">
+                          Waiting for payment...
+                        </span>
+                      )}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      {openRequest.result?.status === "paid" &&
+                        openRequest.result.signature && (
+                          <a
+                            href={getExplorerUrl(
+                              "tx",
+                              openRequest.result.signature,
+                              cluster,
+                              explorer
+                            )}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-blue-400 hover:text-blue-500 underline underline-offset-4 whitespace-nowrap transition-colors"
+                          >
+                            View
+                          </a>
+                        )}
+                      <button
+                        onClick={() => setOpenRequest(null)}
+                        className="text-xs text-gray-400 hover:text-gray-200 whitespace-nowrap transition-colors"
+                      >
+                        {openRequest.result?.status === "paid"
+                          ? "New request"
+                          : "Cancel"}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
                   <Button
                     variant="outline"
                     className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white w-full rounded-2xl transition-all"
-                    onClick={copyAddress}
+                    onClick={createPaymentRequest}
                   >
-                    <QrCode className="w-4 h-4 mr-2" />
-                    Copy Address
+                    Request Payment
                   </Button>
+                )}
+
+                {/* Wallet Address */}
+                <div className="text-center">
+                  <p className="text-xs text-gray-400 mb-3 break-all px-2 font-mono">
+                    {wallet.address}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant="outline"
+                      className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white w-full rounded-2xl transition-all"
+                      onClick={copyAddress}
+                    >
+                      <QrCode className="w-4 h-4 mr-2" />
+                      Copy Address
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white w-full rounded-2xl transition-all"
+                      onClick={copyPaymentRequest}
+                    >
+                      <Link2 className="w-4 h-4 mr-2" />
+                      Copy Link
+                    </Button>
+                  </div>
                 </div>
               </div>
             ) : (
@@ -1233,52 +1589,108 @@ export default function Home() {
           </DialogContent>
         </Dialog>
 
-        {/* QR Scanner Dialog for Recipient Address */}
-        <Dialog
-          open={qrScanAddressDialogOpen}
-          onOpenChange={setQrScanAddressDialogOpen}
-        >
-          <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[400px] rounded-2xl">
-            <DialogHeader>
-              <DialogTitle className="text-xl font-semibold text-white">
-                Scan Recipient QR Code
-              </DialogTitle>
-            </DialogHeader>
-            <div className="pt-4">
-              <QrScanner onScan={handleQRCodeScan} />
-            </div>
-          </DialogContent>
-        </Dialog>
+        {/* Swap Dialog */}
+        {wallet && (
+          <SwapDialog
+            open={swapDialogOpen}
+            onOpenChange={setSwapDialogOpen}
+            walletAddress={wallet.address}
+            cluster={cluster}
+            solBalance={wallet.solBalance}
+            usdcBalance={wallet.usdcBalance}
+            signAndSubmit={signAndSubmit}
+            onSwapped={async (signature) => {
+              showToast({
+                kind: "success",
+                message: "Swap confirmed on Solana!",
+                actionLabel: "View",
+                actionHref: getExplorerUrl("tx", signature, cluster, explorer),
+              });
+              await handleSent();
+            }}
+            onError={showErrorToast}
+          />
+        )}
+
+        {/* Batch Payout Dialog */}
+        {wallet && sendableTokens.length > 0 && (
+          <BatchPayoutDialog
+            open={batchDialogOpen}
+            onOpenChange={setBatchDialogOpen}
+            walletAddress={wallet.address}
+            cluster={cluster}
+            tokens={sendableTokens}
+            signAndSubmit={signAndSubmit}
+            onComplete={(results) => {
+              const confirmed = results.filter(
+                (result) => result.status === "confirmed"
+              ).length;
+              showToast({
+                kind: confirmed === results.length ? "success" : "error",
+                message: `Batch payout: ${confirmed} of ${results.length} payments confirmed`,
+              });
+              void handleSent();
+            }}
+          />
+        )}
+
+        {/* Scheduled Payments Dialog */}
+        {wallet && (
+          <ScheduledPaymentsDialog
+            open={scheduledDialogOpen}
+            onOpenChange={setScheduledDialogOpen}
+            walletAddress={wallet.address}
+            cluster={cluster}
+            schedules={schedules}
+            contactNames={contactNames}
+            now={scheduleClock}
+            onChange={updateSchedules}
+            signAndSubmit={signAndSubmit}
+            onPaid={() => void handleSent()}
+          />
+        )}
+
+        {/* Payment Links Dialog */}
+        {wallet && (
+          <PaymentLinksDialog
+            open={paymentLinksDialogOpen}
+            onOpenChange={setPaymentLinksDialogOpen}
+            walletAddress={wallet.address}
+            cluster={cluster}
+            onReclaimed={() => {
+              setActivityRefreshKey((key) => key + 1);
+              void refreshBalances(wallet.address);
+            }}
+          />
+        )}
+
+        {/* Export Dialog */}
+        {wallet && (
+          <ExportDialog
+            open={exportDialogOpen}
+            onOpenChange={setExportDialogOpen}
+            walletAddress={wallet.address}
+            cluster={cluster}
+            contactNames={contactNames}
+          />
+        )}
+
+        {/* Contacts Dialog */}
+        <ContactsDialog
+          open={contactsDialogOpen}
+          onOpenChange={setContactsDialogOpen}
+          book={contactBook}
+          onChange={(book) => updateContactBook(() => book)}
+          onSelect={(contact) => {
+            sendForm.setRecipientInput(contact.address);
+            setContactsDialogOpen(false);
+            setSendDialogOpen(true);
+          }}
+        />
       </div>
 
       {/* Bottom toast */}
-      {toast && (
-        <div className="fixed bottom-6 left-1/2 z-[60] w-[min(520px,calc(100vw-24px))] -translate-x-1/2">
-          <div className="pointer-events-auto flex items-center justify-between gap-3 rounded-2xl border border-blue-600/30 bg-[#2A2A2A]/95 px-4 py-3 shadow-[0_16px_60px_rgba(0,0,0,0.8)] backdrop-blur-xl">
-            <div className="min-w-0">
-              <p className="text-sm text-gray-100 truncate">{toast.message}</p>
-            </div>
-            <div className="flex items-center gap-2">
-              {toast.actionHref && toast.actionLabel && (
-                <a
-                  href={toast.actionHref}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-sm text-blue-400 hover:text-blue-500 underline underline-offset-4 whitespace-nowrap transition-colors"
-                >
-                  {toast.actionLabel}
-                </a>
-              )}
-              <button
-                onClick={() => setToast(null)}
-                className="text-xs text-gray-400 hover:text-gray-200 whitespace-nowrap transition-colors"
-              >
-                Dismiss
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      {toast && <Toast toast={toast} onDismiss={dismissToast} />}
     </main>
   );
 }
@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  describeExportEntry,
+  fetchActivityExport,
+  getMonthRange,
+  type ActivityExport,
+} from "@/lib/activity-export";
+import { getClusterConfig, parseCluster } from "@/lib/clusters";
+import { loadContactBook } from "@/lib/contacts";
+import { describeError } from "@/lib/errors";
+
+/**
+ * Format unix seconds as a local date
+ */
+const formatDate = (blockTime: number) =>
+  new Date(blockTime * 1000).toLocaleDateString(undefined, {
+    dateStyle: "medium",
+  });
+
+/**
+ * Printable monthly statement
+ * Reads address, cluster and month (YYYY-MM) from the query string
+ */
+export default function StatementPage() {
+  const [statement, setStatement] = useState<ActivityExport | null>(null);
+  const [title, setTitle] = useState("");
+  const [contactNames, setContactNames] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the statement named in the URL
+   */
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const address = params.get("address");
+    const cluster = parseCluster(params.get("cluster"));
+    const month = params.get("month") ?? "";
+    const range = getMonthRange(month);
+    if (!address || !cluster || !range) {
+      setError("This statement link is incomplete");
+      return;
+    }
+
+    setTitle(
+      new Date(range.from * 1000).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      })
+    );
+    setContactNames(
+      Object.fromEntries(
+        loadContactBook(address).contacts.map((contact) => [
+          contact.address,
+          contact.label,
+        ])
+      )
+    );
+
+    const loadStatement = async () => {
+      try {
+        setStatement(
+          await fetchActivityExport(address, cluster, range.from, range.to)
+        );
+      } catch (loadError) {
+        console.error("Failed to load statement:", loadError);
+        setError(describeError(loadError).message);
+      }
+    };
+    void loadStatement();
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-white text-gray-900 p-8 print:p-0">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold">
+              {statement?.symbol ?? "USDC"} statement
+              {title ? ` for ${title}` : ""}
+            </h1>
+            {statement && (
+              <>
+                <p className="text-sm text-gray-600 break-all">
+                  Account {statement.address}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {getClusterConfig(statement.cluster).label}
+                </p>
+              </>
+            )}
+          </div>
+          {statement && (
+            <button
+              onClick={() => window.print()}
+              className="print:hidden rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-100 transition-colors"
+            >
+              Print
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!statement && !error && (
+          <p className="text-sm text-gray-600">Loading statement...</p>
+        )}
+
+        {statement && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 rounded-lg border border-gray-200 p-4 text-sm">
+              <div>
+                <p className="text-gray-500">Opening balance</p>
+                <p className="font-semibold">{statement.openingBalance}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Money in</p>
+                <p className="font-semibold">{statement.totalIn}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Money out</p>
+                <p className="font-semibold">{statement.totalOut}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Closing balance</p>
+                <p className="font-semibold">{statement.closingBalance}</p>
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-300 text-left text-gray-500">
+                  <th className="py-2 pr-2 font-medium">Date</th>
+                  <th className="py-2 pr-2 font-medium">Description</th>
+                  <th className="py-2 pr-2 font-medium text-right">Amount</th>
+                  <th className="py-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-100">
+                  <td className="py-2 pr-2">{formatDate(statement.from)}</td>
+                  <td className="py-2 pr-2">Opening balance</td>
+                  <td className="py-2 pr-2" />
+                  <td className="py-2 text-right">
+                    {statement.openingBalance}
+                  </td>
+                </tr>
+                {statement.entries.map((entry) => (
+                  <tr
+                    key={entry.signature}
+                    className="border-b border-gray-100 align-top"
+                  >
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {formatDate(entry.blockTime)}
+                    </td>
+                    <td className="py-2 pr-2 break-all">
+                      {describeExportEntry(
+                        entry,
+                        statement.symbol,
+                        contactNames
+                      )}
+                      <span className="block text-xs text-gray-400">
+                        {entry.signature}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">
+                      {entry.amount}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {entry.balance}
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 pr-2">{formatDate(statement.to - 1)}</td>
+                  <td className="py-2 pr-2 font-semibold">Closing balance</td>
+                  <td className="py-2 pr-2" />
+                  <td className="py-2 text-right font-semibold">
+                    {statement.closingBalance}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            {statement.entries.length === 0 && (
+              <p className="text-sm text-gray-600">
+                No {statement.symbol} movements this month
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              Network fees paid from this account: {statement.totalFees} SOL
+            </p>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Mail, Plus } from "lucide-react";
+import type { WalletData } from "@/lib/accounts";
+import { formatUiAmount } from "@/lib/amount";
+
+/**
+ * Account switcher props interface
+ */
+interface AccountSwitcherProps {
+  accounts: WalletData[];
+  activeAddress: string;
+  isAdding: boolean;
+  onSwitch: (address: string) => void;
+  onAdd: (email: string) => void;
+}
+
+/**
+ * Shorten an address for display
+ */
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+/**
+ * Remembered accounts with their email and cached balances, for the user
+ * dropdown; picking one switches to it, and another MetaKeep identity can
+ * be added by email
+ */
+export default function AccountSwitcher({
+  accounts,
+  activeAddress,
+  isAdding,
+  onSwitch,
+  onAdd,
+}: AccountSwitcherProps) {
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [email, setEmail] = useState("");
+  const isValidEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+  return (
+    <div className="border-b border-white/10">
+      {accounts.map((account) => {
+        const isActive = account.address === activeAddress;
+        return (
+          <button
+            key={account.address}
+            onClick={() => !isActive && onSwitch(account.address)}
+            className={`w-full px-4 py-3 flex items-start gap-2 text-left transition-colors ${
+              isActive ? "bg-white/5" : "hover:bg-white/5"
+            }`}
+          >
+            <Mail className="w-4 h-4 mt-0.5 shrink-0 text-gray-400" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-gray-300 truncate">
+                {account.email || shortenAddress(account.address)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatUiAmount(account.usdcBalance, 6, 2)} USDC ·{" "}
+                {formatUiAmount(account.solBalance, 9, 4)} SOL
+              </p>
+            </div>
+            {isActive && (
+              <Check className="w-4 h-4 mt-0.5 shrink-0 text-blue-400" />
+            )}
+          </button>
+        );
+      })}
+
+      {showAddForm ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isValidEmail) onAdd(email.trim());
+          }}
+          className="px-4 py-3 flex items-center gap-2"
+        >
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Account email"
+            autoFocus
+            className="min-w-0 flex-1 bg-[#000000] text-sm text-gray-300 border border-white/10 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-600"
+          />
+          <button
+            type="submit"
+            disabled={!isValidEmail || isAdding}
+            className="text-sm font-medium text-blue-400 hover:text-blue-300 disabled:text-gray-600 transition-colors"
+          >
+            {isAdding ? "Adding..." : "Add"}
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowAddForm(true)}
+          className="w-full p-3 flex items-center gap-2 text-gray-300 hover:bg-white/5 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span className="text-sm font-medium">Add account</span>
+        </button>
+      )}
+    </div>
+  );
+}
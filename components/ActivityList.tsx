@@ -0,0 +1,221 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ArrowDownLeft, ArrowUpRight, Repeat } from "lucide-react";
+import { formatBaseUnits } from "@/lib/amount";
+import type { HistoryEntry, HistoryPage } from "@/lib/history";
+import { describeError, readApiError } from "@/lib/errors";
+import { getExplorerUrl, type Cluster, type Explorer } from "@/lib/clusters";
+
+/**
+ * Activity list props interface
+ */
+interface ActivityListProps {
+  address: string;
+  cluster: Cluster;
+  explorer: Explorer;
+  refreshKey?: number;
+  contactNames?: Record<string, string>;
+}
+
+/**
+ * Decimals of SOL, used to display transaction fees
+ */
+const SOL_DECIMALS = 9;
+
+/**
+ * Shorten a Solana address for display
+ */
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+/**
+ * Format a unix block time for display
+ */
+const formatBlockTime = (blockTime: number | null) =>
+  blockTime ? new Date(blockTime * 1000).toLocaleString() : "Pending";
+
+/**
+ * Wallet activity list with infinite scroll
+ */
+export default function ActivityList({
+  address,
+  cluster,
+  explorer,
+  refreshKey,
+  contactNames = {},
+}: ActivityListProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  /**
+   * Show a contact name, falling back to a shortened address
+   */
+  const describeCounterparty = (counterparty: string | null) =>
+    counterparty
+      ? (contactNames[counterparty] ?? shortenAddress(counterparty))
+      : "unknown";
+  const loadingRef = useRef(false);
+  // Bumped on every reload so responses for an earlier list are discarded
+  const generationRef = useRef(0);
+
+  /**
+   * Fetch a page of history, replacing entries when no cursor is given
+   * Later pages wait for the current load; a reload always starts over
+   */
+  const loadPage = useCallback(
+    async (before: string | null) => {
+      if (before && loadingRef.current) return;
+      const generation = before
+        ? generationRef.current
+        : ++generationRef.current;
+      loadingRef.current = true;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ address, cluster });
+        if (before) params.set("before", before);
+
+        const response = await fetch(`/api/history?${params.toString()}`);
+        if (!response.ok) {
+          throw await readApiError(response, "Failed to load activity");
+        }
+
+        const page: HistoryPage = await response.json();
+        if (generation !== generationRef.current) return;
+        setEntries((prev) =>
+          before ? [...prev, ...page.entries] : page.entries
+        );
+        setCursor(page.nextCursor);
+        setHasMore(page.nextCursor !== null);
+      } catch (err) {
+        if (generation !== generationRef.current) return;
+        console.error("Failed to load activity:", err);
+        setError(describeError(err).message);
+      } finally {
+        if (generation === generationRef.current) {
+          loadingRef.current = false;
+          setIsLoading(false);
+        }
+      }
+    },
+    [address, cluster]
+  );
+
+  /**
+   * Reload from the newest entry when the wallet or refresh key changes
+   */
+  useEffect(() => {
+    setEntries([]);
+    setCursor(null);
+    setHasMore(true);
+    void loadPage(null);
+  }, [loadPage, refreshKey]);
+
+  /**
+   * Load the next page when the sentinel scrolls into view
+   */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !cursor) return;
+
+    const observer = new IntersectionObserver((observed) => {
+      if (observed.some((entry) => entry.isIntersecting)) {
+        void loadPage(cursor);
+      }
+    });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [cursor, hasMore, loadPage]);
+
+  return (
+    <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+      {entries.map((entry) => (
+        <a
+          key={entry.signature}
+          href={getExplorerUrl("tx", entry.signature, cluster, explorer)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="bg-[#2A2A2A] rounded-2xl p-3 flex items-center justify-between border border-white/10 hover:border-blue-600/50 transition-all"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center shrink-0">
+              {entry.direction === "send" ? (
+                <ArrowUpRight className="w-4 h-4 text-red-400" />
+              ) : entry.direction === "receive" ? (
+                <ArrowDownLeft className="w-4 h-4 text-green-400" />
+              ) : (
+                <Repeat className="w-4 h-4 text-gray-400" />
+              )}
+            </div>
+            <div className="min-w-0">
+              <p className="text-white text-sm font-medium truncate">
+                {entry.direction === "send"
+                  ? `Sent to ${describeCounterparty(entry.counterparty)}`
+                  : entry.direction === "receive"
+                    ? `Received from ${describeCounterparty(entry.counterparty)}`
+                    : "Transaction"}
+              </p>
+              {entry.memo && (
+                <p className="text-gray-300 text-xs truncate">{entry.memo}</p>
+              )}
+              <p className="text-gray-400 text-xs">
+                {formatBlockTime(entry.blockTime)}
+                {entry.status === "failed" && (
+                  <span className="text-red-400"> · Failed</span>
+                )}
+              </p>
+            </div>
+          </div>
+          <div className="text-right shrink-0">
+            {entry.amount !== "0" && (
+              <p
+                className={`text-sm font-semibold ${
+                  entry.direction === "receive"
+                    ? "text-green-400"
+                    : "text-white"
+                }`}
+              >
+                {entry.direction === "receive" ? "+" : "-"}
+                {formatBaseUnits(entry.amount, entry.decimals, 2, 2)} USDC
+              </p>
+            )}
+            <p className="text-gray-500 text-xs">
+              Fee {formatBaseUnits(BigInt(entry.fee), SOL_DECIMALS, 6, 6)} SOL
+            </p>
+          </div>
+        </a>
+      ))}
+
+      {!isLoading && !error && entries.length === 0 && (
+        <p className="text-gray-400 text-sm text-center py-4">
+          No activity yet
+        </p>
+      )}
+
+      {error && (
+        <div className="text-center py-2">
+          <p className="text-red-400 text-sm mb-1">{error}</p>
+          <button
+            onClick={() => void loadPage(entries.length > 0 ? cursor : null)}
+            className="text-xs text-blue-400 hover:text-blue-500 underline underline-offset-4 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {isLoading && (
+        <p className="text-gray-400 text-sm text-center py-2">Loading...</p>
+      )}
+
+      <div ref={sentinelRef} className="h-1" />
+    </div>
+  );
+}
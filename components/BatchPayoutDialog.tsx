@@ -0,0 +1,504 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import type { SignAndSubmit } from "./usePendingTransactions";
+import { formatBaseUnits, toBaseUnits } from "@/lib/amount";
+import {
+  formatPayoutCsv,
+  formatPayoutReport,
+  parsePayoutCsv,
+  type BatchTransferResponse,
+  type PayoutResult,
+  type PayoutRow,
+} from "@/lib/batch-payout";
+import { describeError, readApiError } from "@/lib/errors";
+import type { Cluster } from "@/lib/clusters";
+import {
+  fetchTransactionStatuses,
+  hasExpired,
+  isUnsettledError,
+  type TransactionStatus,
+} from "@/lib/pending-transactions";
+import type { TokenBalance } from "@/lib/tokens";
+
+/**
+ * Batch payout dialog props interface
+ */
+interface BatchPayoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  walletAddress: string;
+  cluster: Cluster;
+  tokens: TokenBalance[];
+  signAndSubmit: SignAndSubmit;
+  onComplete: (results: PayoutResult[]) => void;
+}
+
+/**
+ * Request batch transfer transactions for a set of rows
+ */
+const buildBatch = async (
+  from: string,
+  mint: string,
+  rows: PayoutRow[],
+  cluster: Cluster
+): Promise<BatchTransferResponse> => {
+  const response = await fetch("/api/token-transfer/batch", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from, mint, rows, cluster }),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, "Failed to create batch transactions");
+  }
+  return response.json();
+};
+
+/**
+ * Signatures per status check, within the /api/transaction-status limit
+ */
+const STATUS_BATCH_SIZE = 50;
+
+/**
+ * Batch payout dialog: CSV upload, validation preview and per-row results
+ */
+export default function BatchPayoutDialog({
+  open,
+  onOpenChange,
+  walletAddress,
+  cluster,
+  tokens,
+  signAndSubmit,
+  onComplete,
+}: BatchPayoutDialogProps) {
+  const [mint, setMint] = useState(tokens[0]?.mint ?? "");
+  const [fileName, setFileName] = useState("");
+  const [csvText, setCsvText] = useState("");
+  const [isPaying, setIsPaying] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [results, setResults] = useState<PayoutResult[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const token = tokens.find((t) => t.mint === mint) ?? tokens[0];
+  const decimals = token?.decimals ?? 6;
+
+  const rows = useMemo(
+    () => (csvText ? parsePayoutCsv(csvText, decimals) : []),
+    [csvText, decimals]
+  );
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  const total = rows.reduce(
+    (sum, row) =>
+      sum +
+      ((row.errors.length === 0 && toBaseUnits(row.amount, decimals)) ||
+        BigInt(0)),
+    BigInt(0)
+  );
+  const balance = token ? BigInt(token.amount) : BigInt(0);
+  const exceedsBalance = total > balance;
+
+  /**
+   * Load a CSV file chosen by the user
+   */
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setCsvText(await file.text());
+    setResults(null);
+    setNotice(null);
+  };
+
+  /**
+   * Build, sign and submit each transaction in sequence
+   */
+  const handlePay = async () => {
+    if (!token || rows.length === 0 || invalidRows.length > 0) return;
+
+    setIsPaying(true);
+    const payoutRows: PayoutRow[] = rows.map(({ to, amount, memo }) => ({
+      to,
+      amount,
+      memo,
+    }));
+    const outcome: PayoutResult[] = rows.map((row) => ({
+      line: row.line,
+      to: row.to,
+      amount: row.amount,
+      memo: row.memo,
+      status: "skipped",
+      signature: null,
+      error: null,
+    }));
+
+    try {
+      const plan = await buildBatch(
+        walletAddress,
+        token.mint,
+        payoutRows,
+        cluster
+      );
+
+      for (let i = 0; i < plan.transactions.length; i++) {
+        const group = plan.transactions[i].rows;
+        setProgress(
+          `Signing transaction ${i + 1} of ${plan.transactions.length}`
+        );
+
+        // Transaction being submitted, with the sender's signature once signed
+        const attempt: { rows: number[]; signature: string | null } = {
+          rows: [],
+          signature: null,
+        };
+        let attemptExpiry: number | undefined;
+
+        try {
+          // Later transactions are rebuilt so each is signed with a fresh blockhash
+          const batch =
+            i === 0
+              ? { ...plan, transactions: [plan.transactions[0]] }
+              : await buildBatch(
+                  walletAddress,
+                  token.mint,
+                  group.map((index) => payoutRows[index]),
+                  cluster
+                );
+
+          for (const built of batch.transactions) {
+            const builtRows =
+              i === 0 ? built.rows : built.rows.map((index) => group[index]);
+            attempt.rows = builtRows;
+            attempt.signature = null;
+            attemptExpiry = batch.lastValidBlockHeight;
+            const signature = await signAndSubmit(
+              built.transaction,
+              batch.lastValidBlockHeight,
+              `Batch payout ${i + 1} of ${plan.transactions.length}: ${builtRows.length} ${token.symbol} transfers`,
+              {
+                onSigned: (signed) => {
+                  attempt.signature = signed;
+                },
+              }
+            );
+            builtRows.forEach((index) => {
+              outcome[index].status = "confirmed";
+              outcome[index].signature = signature;
+            });
+          }
+        } catch (error) {
+          const { code, message } = describeError(error);
+          // A signed transfer that expired or hit a server error may still
+          // land, so it is not retried until its signature is checked
+          const unsettled =
+            attempt.signature !== null && isUnsettledError(error);
+          group.forEach((index) => {
+            if (outcome[index].status === "confirmed") return;
+            if (unsettled && attempt.rows.includes(index)) {
+              outcome[index].status = "unconfirmed";
+              outcome[index].signature = attempt.signature;
+              outcome[index].lastValidBlockHeight = attemptExpiry;
+            } else {
+              outcome[index].status = "failed";
+            }
+            outcome[index].error = message;
+          });
+
+          // Stop asking for signatures once the user declines
+          if (code === "USER_DENIED") break;
+        }
+      }
+    } catch (error) {
+      const { message } = describeError(error);
+      outcome.forEach((result) => {
+        result.status = "failed";
+        result.error = message;
+      });
+    } finally {
+      setResults(outcome);
+      setProgress(null);
+      setIsPaying(false);
+      onComplete(outcome);
+    }
+  };
+
+  /**
+   * Download the per-row result report as CSV
+   */
+  const downloadReport = () => {
+    if (!results) return;
+    const blob = new Blob([formatPayoutReport(results)], {
+      type: "text/csv",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `payout-report-${Date.now()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Resolve unconfirmed rows by signature: landed ones are confirmed, and
+   * only rows that failed on-chain or expired can be retried
+   */
+  const checkUnconfirmed = async (
+    current: PayoutResult[]
+  ): Promise<PayoutResult[]> => {
+    const signatures = Array.from(
+      new Set(
+        current
+          .filter((result) => result.status === "unconfirmed")
+          .map((result) => result.signature)
+          .filter((signature): signature is string => !!signature)
+      )
+    );
+    if (signatures.length === 0) return current;
+
+    let blockHeight = 0;
+    const statuses = new Map<string, TransactionStatus>();
+    for (let i = 0; i < signatures.length; i += STATUS_BATCH_SIZE) {
+      const response = await fetchTransactionStatuses(
+        signatures.slice(i, i + STATUS_BATCH_SIZE),
+        cluster
+      );
+      blockHeight = Math.max(blockHeight, response.blockHeight);
+      response.statuses.forEach((status) =>
+        statuses.set(status.signature, status)
+      );
+    }
+
+    return current.map((result): PayoutResult => {
+      const status = result.signature && statuses.get(result.signature);
+      if (result.status !== "unconfirmed" || !status) return result;
+      if (status.stage === "confirmed" || status.stage === "finalized") {
+        return { ...result, status: "confirmed", error: null };
+      }
+      if (status.stage === "failed") {
+        return { ...result, status: "failed", error: status.error };
+      }
+      if (
+        result.lastValidBlockHeight !== undefined &&
+        hasExpired(status, blockHeight, result.lastValidBlockHeight)
+      ) {
+        return { ...result, status: "failed", error: "Transaction expired" };
+      }
+      return result;
+    });
+  };
+
+  /**
+   * Load failed and skipped rows back in for another attempt, once no
+   * unconfirmed row could still land
+   */
+  const retryFailed = async () => {
+    if (!results) return;
+    setNotice(null);
+    setIsChecking(true);
+    let checked: PayoutResult[];
+    try {
+      checked = await checkUnconfirmed(results);
+    } catch (error) {
+      setNotice(describeError(error).message);
+      return;
+    } finally {
+      setIsChecking(false);
+    }
+
+    const retryable = checked.filter(
+      (result) => result.status === "failed" || result.status === "skipped"
+    );
+    if (
+      retryable.length === 0 ||
+      checked.some((result) => result.status === "unconfirmed")
+    ) {
+      setResults(checked);
+      setNotice(
+        retryable.length === 0
+          ? null
+          : "Some payments are still settling, check again shortly"
+      );
+      return;
+    }
+    setCsvText(formatPayoutCsv(retryable));
+    setResults(null);
+  };
+
+  const confirmedCount =
+    results?.filter((result) => result.status === "confirmed").length ?? 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!isPaying) onOpenChange(next);
+      }}
+    >
+      <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[440px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">
+            Batch Payout
+          </DialogTitle>
+        </DialogHeader>
+        {results ? (
+          <div className="space-y-3 pt-2">
+            <p className="text-sm text-gray-300">
+              {confirmedCount} of {results.length} payments confirmed
+            </p>
+            <div className="max-h-64 overflow-y-auto rounded-xl border border-white/10 divide-y divide-white/5">
+              {results.map((result) => (
+                <div
+                  key={result.line}
+                  className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+                >
+                  <span className="text-gray-300 truncate">
+                    {result.to.slice(0, 4)}...{result.to.slice(-4)}
+                  </span>
+                  <span className="text-gray-200">
+                    {result.amount} {token?.symbol}
+                  </span>
+                  <span
+                    className={
+                      result.status === "confirmed"
+                        ? "text-green-400"
+                        : result.status === "failed"
+                          ? "text-red-400"
+                          : result.status === "unconfirmed"
+                            ? "text-blue-400"
+                            : "text-gray-500"
+                    }
+                    title={result.error ?? undefined}
+                  >
+                    {result.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                variant="outline"
+                className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
+                onClick={downloadReport}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Report
+              </Button>
+              <Button
+                variant="outline"
+                className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
+                onClick={retryFailed}
+                disabled={confirmedCount === results.length || isChecking}
+              >
+                {isChecking ? "Checking..." : "Retry failed"}
+              </Button>
+            </div>
+            {notice && <p className="text-sm text-gray-300">{notice}</p>}
+          </div>
+        ) : (
+          <div className="space-y-3 pt-2">
+            {tokens.length > 1 && (
+              <div>
+                <label className="text-sm text-gray-400 block mb-2 font-medium">
+                  Token
+                </label>
+                <select
+                  value={token?.mint}
+                  onChange={(e) => setMint(e.target.value)}
+                  className="w-full bg-[#2A2A2A] border border-white/10 focus:border-blue-600 text-white h-11 rounded-xl px-3 transition-all"
+                >
+                  {tokens.map((t) => (
+                    <option key={t.mint} value={t.mint}>
+                      {t.symbol} ({formatBaseUnits(t.amount, t.decimals, 2, 2)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <label className="flex items-center justify-center w-full border border-dashed border-white/20 hover:border-blue-600 rounded-2xl py-5 cursor-pointer transition-colors">
+              <Upload className="w-4 h-4 mr-2 text-gray-300" />
+              <span className="text-sm text-gray-300">
+                {fileName || "Upload CSV (to,amount,memo)"}
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+
+            {rows.length > 0 && (
+              <>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-400">
+                    <span>Recipients</span>
+                    <span className="text-gray-200">{rows.length}</span>
+                  </div>
+                  <div className="flex justify-between text-gray-400">
+                    <span>Total</span>
+                    <span
+                      className={
+                        exceedsBalance ? "text-red-400" : "text-gray-200"
+                      }
+                    >
+                      {formatBaseUnits(total, decimals)} {token?.symbol}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-gray-400">
+                    <span>Balance</span>
+                    <span className="text-gray-200">
+                      {formatBaseUnits(balance, decimals)} {token?.symbol}
+                    </span>
+                  </div>
+                </div>
+
+                {invalidRows.length > 0 && (
+                  <div className="max-h-40 overflow-y-auto rounded-xl border border-red-400/30 divide-y divide-white/5">
+                    {invalidRows.map((row) => (
+                      <div key={row.line} className="px-3 py-2 text-sm">
+                        <span className="text-gray-400">Line {row.line}: </span>
+                        <span className="text-red-400">
+                          {row.errors.join(", ")}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {exceedsBalance && (
+                  <p className="text-sm text-red-400">
+                    Total exceeds your {token?.symbol} balance
+                  </p>
+                )}
+              </>
+            )}
+
+            {progress && <p className="text-sm text-gray-300">{progress}</p>}
+
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
+              onClick={handlePay}
+              disabled={
+                !token ||
+                rows.length === 0 ||
+                invalidRows.length > 0 ||
+                exceedsBalance ||
+                isPaying
+              }
+            >
+              {isPaying
+                ? "Processing..."
+                : `Pay ${rows.length} recipient${rows.length === 1 ? "" : "s"}`}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Pencil, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Input } from "./ui/input";
+import {
+  exportContacts,
+  importContacts,
+  removeContact,
+  sortContacts,
+  upsertContact,
+  validateContact,
+  type Contact,
+  type ContactBook,
+} from "@/lib/contacts";
+
+/**
+ * Contacts dialog props interface
+ */
+interface ContactsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  book: ContactBook;
+  onChange: (book: ContactBook) => void;
+  onSelect: (contact: Contact) => void;
+}
+
+/**
+ * Address book: add, edit, remove, import and export contacts
+ */
+export default function ContactsDialog({
+  open,
+  onOpenChange,
+  book,
+  onChange,
+  onSelect,
+}: ContactsDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [address, setAddress] = useState("");
+  const [email, setEmail] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  /**
+   * Clear the contact form
+   */
+  const resetForm = () => {
+    setEditingId(null);
+    setLabel("");
+    setAddress("");
+    setEmail("");
+  };
+
+  /**
+   * Save the contact in the form
+   */
+  const handleSave = () => {
+    const input = { label, address, email: email || undefined };
+    const error = validateContact(input);
+    if (error) {
+      setMessage(error);
+      return;
+    }
+    onChange(upsertContact(book, input, editingId ?? undefined));
+    setMessage(editingId ? "Contact updated" : "Contact added");
+    resetForm();
+  };
+
+  /**
+   * Load a contact into the form for editing
+   */
+  const handleEdit = (contact: Contact) => {
+    setEditingId(contact.id);
+    setLabel(contact.label);
+    setAddress(contact.address);
+    setEmail(contact.email ?? "");
+    setMessage(null);
+  };
+
+  /**
+   * Download contacts as JSON
+   */
+  const handleExport = () => {
+    const blob = new Blob([exportContacts(book)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "contacts.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Merge contacts from a JSON file
+   */
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = importContacts(book, await file.text());
+      onChange(result.book);
+      setMessage(`Imported ${result.imported} contacts`);
+    } catch (error) {
+      console.error("Failed to import contacts:", error);
+      setMessage("Could not read contacts file");
+    }
+  };
+
+  const contacts = sortContacts(book.contacts);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[400px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">
+            Contacts
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 pt-2">
+          {contacts.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-2">
+              No contacts yet
+            </p>
+          ) : (
+            <div className="max-h-56 overflow-y-auto rounded-xl border border-white/10 divide-y divide-white/5">
+              {contacts.map((contact) => (
+                <div
+                  key={contact.id}
+                  className="flex items-center justify-between gap-2 px-3 py-2"
+                >
+                  <button
+                    onClick={() => onSelect(contact)}
+                    className="min-w-0 text-left hover:text-blue-400 transition-colors"
+                  >
+                    <p className="text-sm text-white truncate">
+                      {contact.label}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {contact.email ||
+                        `${contact.address.slice(0, 6)}...${contact.address.slice(-4)}`}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleEdit(contact)}
+                      className="text-gray-400 hover:text-gray-200 transition-colors"
+                      aria-label={`Edit ${contact.label}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        onChange(removeContact(book, contact.id));
+                        if (editingId === contact.id) resetForm();
+                      }}
+                      className="text-gray-400 hover:text-red-400 transition-colors"
+                      aria-label={`Remove ${contact.label}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Input
+              placeholder="Label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-10 rounded-xl transition-all"
+            />
+            <Input
+              placeholder="Solana address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-10 rounded-xl transition-all"
+            />
+            <Input
+              placeholder="Email (optional)"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-10 rounded-xl transition-all"
+            />
+            <div className="flex gap-2">
+              <Button
+                className="flex-1 bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold rounded-xl transition-all"
+                onClick={handleSave}
+              >
+                {editingId ? "Update contact" : "Add contact"}
+              </Button>
+              {editingId && (
+                <Button
+                  variant="outline"
+                  className="bg-[#2A2A2A] border-white/10 hover:bg-white/5 text-white rounded-xl"
+                  onClick={resetForm}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {message && <p className="text-sm text-gray-300">{message}</p>}
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex items-center justify-center border border-white/10 hover:border-blue-600 rounded-2xl py-2 text-sm text-white cursor-pointer transition-colors">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  void handleImport(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <Button
+              variant="outline"
+              className="bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white rounded-2xl transition-all"
+              onClick={handleExport}
+              disabled={contacts.length === 0}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Input } from "./ui/input";
+import type { Cluster } from "@/lib/clusters";
+import { describeError } from "@/lib/errors";
+import {
+  fetchActivityExport,
+  MAX_EXPORT_RANGE_DAYS,
+  renderExport,
+  type ExportFormat,
+} from "@/lib/activity-export";
+
+/**
+ * Export dialog props interface
+ */
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  walletAddress: string;
+  cluster: Cluster;
+  contactNames?: Record<string, string>;
+}
+
+/**
+ * Download formats with their labels
+ */
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+  { format: "accounting", label: "Accounting CSV (QuickBooks, Xero)" },
+];
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+/**
+ * Activity export: download USDC movements for a date range, or open a
+ * printable monthly statement
+ */
+export default function ExportDialog({
+  open,
+  onOpenChange,
+  walletAddress,
+  cluster,
+  contactNames = {},
+}: ExportDialogProps) {
+  const [fromDate, setFromDate] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [month, setMonth] = useState(() => toDateInput(new Date()).slice(0, 7));
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  /**
+   * Fetch the range and download it in the chosen format
+   * The end date is inclusive, so the range runs to the next midnight
+   */
+  const handleDownload = async () => {
+    const from = new Date(`${fromDate}T00:00:00`);
+    const to = new Date(`${toDate}T00:00:00`);
+    to.setDate(to.getDate() + 1);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      setMessage("Choose a start date on or before the end date");
+      return;
+    }
+    if (to.getTime() - from.getTime() > MAX_EXPORT_RANGE_DAYS * 86_400_000) {
+      setMessage(`Exports cover at most ${MAX_EXPORT_RANGE_DAYS} days`);
+      return;
+    }
+
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const data = await fetchActivityExport(
+        walletAddress,
+        cluster,
+        from.getTime() / 1000,
+        to.getTime() / 1000
+      );
+      const { contents, type, extension } = renderExport(
+        data,
+        format,
+        contactNames
+      );
+      const blob = new Blob([contents], { type });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `usdc-activity-${fromDate}-to-${toDate}.${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage(
+        `Exported ${data.entries.length} ${
+          data.entries.length === 1 ? "movement" : "movements"
+        }`
+      );
+    } catch (error) {
+      console.error("Failed to export activity:", error);
+      setMessage(describeError(error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Open the printable statement for the chosen month
+   */
+  const openStatement = () => {
+    const params = new URLSearchParams({
+      address: walletAddress,
+      cluster,
+      month,
+    });
+    window.open(`/statement?${params.toString()}`, "_blank", "noopener");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[400px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">
+            Export activity
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-sm text-gray-400 block">
+                From
+                <Input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="mt-1 bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white h-10 rounded-xl transition-all"
+                />
+              </label>
+              <label className="text-sm text-gray-400 block">
+                To
+                <Input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="mt-1 bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white h-10 rounded-xl transition-all"
+                />
+              </label>
+            </div>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full bg-[#2A2A2A] border border-white/10 focus:border-blue-600 text-white h-10 rounded-xl px-3 transition-all"
+            >
+              {FORMAT_OPTIONS.map((option) => (
+                <option key={option.format} value={option.format}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold rounded-xl transition-all"
+              onClick={() => void handleDownload()}
+              disabled={isExporting || !fromDate || !toDate}
+            >
+              {isExporting ? "Exporting..." : "Download"}
+            </Button>
+          </div>
+
+          <div className="space-y-2 border-t border-white/10 pt-4">
+            <label className="text-sm text-gray-400 block">
+              Monthly statement
+              <Input
+                type="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="mt-1 bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white h-10 rounded-xl transition-all"
+              />
+            </label>
+            <Button
+              variant="outline"
+              className="w-full bg-[#2A2A2A] border-white/10 hover:bg-white/5 text-white rounded-xl"
+              onClick={openStatement}
+              disabled={!month}
+            >
+              Open printable statement
+            </Button>
+          </div>
+
+          {message && <p className="text-sm text-gray-300">{message}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { getExplorerUrl, type Cluster } from "@/lib/clusters";
+import { describeError, readApiError } from "@/lib/errors";
+import {
+  loadSentLinks,
+  parseClaimSecret,
+  sweepPaymentLink,
+  type PaymentLinkView,
+} from "@/lib/payment-links";
+
+/**
+ * Payment links dialog props interface
+ */
+interface PaymentLinksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  walletAddress: string;
+  cluster: Cluster;
+  onReclaimed: () => void;
+}
+
+/**
+ * Shorten an address for display
+ */
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Format a timestamp in the user's locale
+ */
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+/**
+ * Payment links: list links sent from this wallet with their status, copy
+ * them again and reclaim unclaimed ones after expiry
+ */
+export default function PaymentLinksDialog({
+  open,
+  onOpenChange,
+  walletAddress,
+  cluster,
+  onReclaimed,
+}: PaymentLinksDialogProps) {
+  const [links, setLinks] = useState<PaymentLinkView[]>([]);
+  const [sentLinks, setSentLinks] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [reclaimingId, setReclaimingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  /**
+   * Fetch the wallet's links and the claim URLs stored in this browser
+   */
+  const loadLinks = useCallback(async () => {
+    setIsLoading(true);
+    setSentLinks(loadSentLinks());
+    try {
+      const response = await fetch(
+        `/api/payment-links?sender=${walletAddress}&cluster=${cluster}`
+      );
+      if (!response.ok) {
+        throw await readApiError(response, "Failed to load payment links");
+      }
+      const data = await response.json();
+      setLinks(data.links);
+    } catch (error) {
+      console.error("Failed to load payment links:", error);
+      setMessage(describeError(error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [walletAddress, cluster]);
+
+  useEffect(() => {
+    if (open) {
+      setMessage(null);
+      void loadLinks();
+    }
+  }, [open, loadLinks]);
+
+  /**
+   * Copy a link's claim URL to the clipboard
+   */
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("Link copied to clipboard");
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+      setMessage("Failed to copy link");
+    }
+  };
+
+  /**
+   * Sweep an expired link back to this wallet
+   */
+  const reclaim = async (link: PaymentLinkView, secretKey: Uint8Array) => {
+    setReclaimingId(link.id);
+    setMessage(null);
+    try {
+      await sweepPaymentLink(
+        link.id,
+        secretKey,
+        walletAddress,
+        "reclaim",
+        cluster
+      );
+      setMessage(`Reclaimed ${link.amount} ${link.symbol}`);
+      onReclaimed();
+      await loadLinks();
+    } catch (error) {
+      console.error("Failed to reclaim payment link:", error);
+      setMessage(describeError(error).message);
+    } finally {
+      setReclaimingId(null);
+    }
+  };
+
+  const now = Date.now();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[400px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">
+            Payment links
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 pt-2 max-h-[70vh] overflow-y-auto">
+          {links.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-2">
+              {isLoading ? "Loading..." : "No payment links yet"}
+            </p>
+          ) : (
+            <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+              {links.map((link) => {
+                const url = sentLinks[link.id];
+                const secretKey = url
+                  ? parseClaimSecret(new URL(url).hash)
+                  : null;
+                const expired = now >= link.expiresAt;
+                return (
+                  <div
+                    key={link.id}
+                    className="flex items-center justify-between gap-2 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-white truncate">
+                        {link.amount} {link.symbol}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {link.status === "unclaimed"
+                          ? `${expired ? "Expired" : "Expires"} ${formatTime(
+                              link.expiresAt
+                            )}`
+                          : link.status === "sweeping"
+                            ? "Settling"
+                            : `${link.status === "claimed" ? "Claimed" : "Reclaimed"}${
+                                link.settledBy && link.status === "claimed"
+                                  ? ` by ${shortenAddress(link.settledBy)}`
+                                  : ""
+                              }`}
+                      </p>
+                      {link.signature && (
+                        <a
+                          href={getExplorerUrl("tx", link.signature, cluster)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-blue-400 hover:text-blue-500 underline underline-offset-4 transition-colors"
+                        >
+                          View transaction
+                        </a>
+                      )}
+                    </div>
+                    {link.status === "unclaimed" && url && (
+                      <div className="flex items-center gap-2">
+                        {expired && secretKey ? (
+                          <Button
+                            className="bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white text-xs h-8 px-3 rounded-xl"
+                            onClick={() => void reclaim(link, secretKey)}
+                            disabled={reclaimingId !== null}
+                          >
+                            {reclaimingId === link.id
+                              ? "Reclaiming..."
+                              : "Reclaim"}
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            className="bg-[#2A2A2A] border-white/10 hover:bg-white/5 text-white text-xs h-8 px-3 rounded-xl"
+                            onClick={() => void copyLink(url)}
+                          >
+                            Copy link
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Anyone with a link can claim it. Unclaimed links can be reclaimed
+            from this browser after they expire.
+          </p>
+
+          {message && <p className="text-sm text-gray-300">{message}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
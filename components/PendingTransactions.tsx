@@ -0,0 +1,135 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Button } from "./ui/button";
+import { getExplorerUrl, type Cluster, type Explorer } from "@/lib/clusters";
+import {
+  PROGRESS_STAGES,
+  type PendingStage,
+  type PendingTransaction,
+} from "@/lib/pending-transactions";
+
+/**
+ * Pending transactions props interface
+ */
+interface PendingTransactionsProps {
+  transactions: PendingTransaction[];
+  cluster: Cluster;
+  explorer: Explorer;
+  onRebuild: (transaction: PendingTransaction) => void;
+  onDismiss: (signature: string) => void;
+}
+
+/**
+ * Timeline labels per stage
+ */
+const STAGE_LABELS: Partial<Record<PendingStage, string>> = {
+  processed: "Processed",
+  confirmed: "Confirmed",
+  finalized: "Finalized",
+};
+
+/**
+ * Tracked sends with their processed, confirmed and finalized progress;
+ * expired sends can be rebuilt and failed ones dismissed
+ */
+export default function PendingTransactions({
+  transactions,
+  cluster,
+  explorer,
+  onRebuild,
+  onDismiss,
+}: PendingTransactionsProps) {
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-white/10 divide-y divide-white/5">
+      {transactions.map((transaction) => {
+        const settled =
+          transaction.stage === "failed" || transaction.stage === "expired";
+        const progress = PROGRESS_STAGES.indexOf(transaction.stage);
+        return (
+          <div key={transaction.signature} className="px-4 py-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm text-white min-w-0 break-words">
+                {transaction.label}
+              </p>
+              {(settled || transaction.stage === "finalized") && (
+                <button
+                  onClick={() => onDismiss(transaction.signature)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                  aria-label="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {settled ? (
+              <p className="text-xs text-red-400">
+                {transaction.stage === "expired"
+                  ? "Expired before it landed; no funds moved"
+                  : `Failed${transaction.error ? `: ${transaction.error}` : ""}`}
+              </p>
+            ) : (
+              <div className="flex items-center gap-2">
+                {PROGRESS_STAGES.map((stage, i) => {
+                  const reached = i <= progress;
+                  return (
+                    <div key={stage} className="flex items-center gap-2">
+                      {i > 0 && (
+                        <span
+                          className={`h-px w-4 ${
+                            reached ? "bg-blue-500" : "bg-white/20"
+                          }`}
+                        />
+                      )}
+                      <span
+                        className={`h-2 w-2 rounded-full ${
+                          reached ? "bg-blue-500" : "bg-white/20"
+                        }`}
+                      />
+                      <span
+                        className={`text-xs ${
+                          reached ? "text-white" : "text-gray-500"
+                        }`}
+                      >
+                        {STAGE_LABELS[stage]}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              {transaction.txId && (
+                <a
+                  href={getExplorerUrl(
+                    "tx",
+                    transaction.txId,
+                    cluster,
+                    explorer
+                  )}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-400 hover:text-blue-500 underline underline-offset-4 transition-colors"
+                >
+                  View transaction
+                </a>
+              )}
+              {transaction.stage === "expired" && transaction.transfer && (
+                <Button
+                  className="bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white text-xs h-8 px-3 rounded-xl"
+                  onClick={() => onRebuild(transaction)}
+                >
+                  Rebuild and re-sign
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -181,11 +181,11 @@ export default function QrScanner({ onScan }: QrScannerProps) {
 
         {/* Manual entry fallback */}
         <div className="pt-4 border-t border-gray-700">
-          <p className="text-sm text-gray-400 mb-2">Or enter address manually:</p>
+          <p className="text-sm text-gray-400 mb-2">Or enter address or payment link manually:</p>
           <div className="flex gap-2">
             <input
               type="text"
-              placeholder="Paste wallet address"
+              placeholder="Paste wallet address or solana: link"
               value={manualAddress}
               onChange={(e) => setManualAddress(e.target.value)}
               onKeyDown={(e) => {
@@ -0,0 +1,414 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Input } from "./ui/input";
+import type { SignAndSubmit } from "./usePendingTransactions";
+import type { Cluster } from "@/lib/clusters";
+import { describeError, readApiError } from "@/lib/errors";
+import { isUnsettledError } from "@/lib/pending-transactions";
+import {
+  addSchedule,
+  CADENCE_PRESETS,
+  describeCadence,
+  dismissRun,
+  getDueRuns,
+  getPendingRuns,
+  getRetryableRuns,
+  getWalletSchedules,
+  recordRun,
+  removeSchedule,
+  validateSchedule,
+  type ScheduledPayment,
+} from "@/lib/scheduled-payments";
+import { getUsdcToken } from "@/lib/tokens";
+
+/**
+ * Scheduled payments dialog props interface
+ */
+interface ScheduledPaymentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  walletAddress: string;
+  cluster: Cluster;
+  schedules: ScheduledPayment[];
+  contactNames?: Record<string, string>;
+  now: number;
+  onChange: (
+    update: (schedules: ScheduledPayment[]) => ScheduledPayment[]
+  ) => void;
+  signAndSubmit: SignAndSubmit;
+  onPaid: () => void;
+}
+
+/**
+ * Select value for a cadence typed by the user
+ */
+const CUSTOM_CADENCE = "custom";
+
+/**
+ * Shorten an address for display
+ */
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Format a timestamp in the user's locale
+ */
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+/**
+ * Scheduled payments: create recurring USDC payments, pay due runs and
+ * retry missed or failed ones
+ */
+export default function ScheduledPaymentsDialog({
+  open,
+  onOpenChange,
+  walletAddress,
+  cluster,
+  schedules,
+  contactNames = {},
+  now,
+  onChange,
+  signAndSubmit,
+  onPaid,
+}: ScheduledPaymentsDialogProps) {
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [memo, setMemo] = useState("");
+  const [preset, setPreset] = useState(CADENCE_PRESETS[1].cadence);
+  const [customCadence, setCustomCadence] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [payingKey, setPayingKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const usdc = getUsdcToken(cluster);
+  const walletSchedules = getWalletSchedules(schedules, walletAddress, cluster);
+  const dueRuns = new Map(
+    getDueRuns(walletSchedules, now).map(({ schedule, dueAt }) => [
+      schedule.id,
+      dueAt,
+    ])
+  );
+  const retryable = getRetryableRuns(walletSchedules);
+  const pendingRuns = getPendingRuns(walletSchedules);
+
+  const recipientLabel = (address: string) =>
+    contactNames[address] ?? shortenAddress(address);
+
+  /**
+   * Save the schedule in the form
+   */
+  const handleAdd = () => {
+    const input = {
+      recipient,
+      amount,
+      memo: memo || undefined,
+      cadence: preset === CUSTOM_CADENCE ? customCadence : preset,
+      // End dates include the whole selected day
+      endAt: endDate ? new Date(`${endDate}T23:59:59`).getTime() : null,
+    };
+    const error = validateSchedule(input, usdc.decimals);
+    if (error) {
+      setMessage(error);
+      return;
+    }
+    onChange((list) => addSchedule(list, input, walletAddress, cluster));
+    setMessage("Schedule added");
+    setRecipient("");
+    setAmount("");
+    setMemo("");
+    setEndDate("");
+  };
+
+  /**
+   * Build, sign and submit the transfer for one run, recording the outcome
+   * Runs that expired or hit a server error after signing stay pending until
+   * their signature lands or expires, so they cannot be paid twice
+   */
+  const payRun = async (schedule: ScheduledPayment, dueAt: number) => {
+    setPayingKey(`${schedule.id}:${dueAt}`);
+    setMessage(null);
+    const attempt: {
+      signature: string | null;
+      lastValidBlockHeight: number | null;
+    } = { signature: null, lastValidBlockHeight: null };
+    try {
+      const response = await fetch("/api/token-transfer", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: walletAddress,
+          to: schedule.recipient,
+          amount: schedule.amount,
+          memo: schedule.memo,
+          cluster,
+        }),
+      });
+      if (!response.ok) {
+        throw await readApiError(
+          response,
+          "Failed to create scheduled transfer"
+        );
+      }
+      const transfer = await response.json();
+      attempt.lastValidBlockHeight = transfer.lastValidBlockHeight;
+
+      const signature = await signAndSubmit(
+        transfer.transaction,
+        transfer.lastValidBlockHeight,
+        `Scheduled payment: ${schedule.amount} ${usdc.symbol} to ${recipientLabel(
+          schedule.recipient
+        )} (due ${formatTime(dueAt)})`,
+        {
+          transfer: {
+            recipient: schedule.recipient,
+            amount: schedule.amount,
+            mint: usdc.mint,
+            symbol: usdc.symbol,
+            memo: schedule.memo,
+          },
+          onSigned: (signed) => {
+            attempt.signature = signed;
+          },
+        }
+      );
+      onChange((list) => recordRun(list, schedule.id, dueAt, { signature }));
+      setMessage("Scheduled payment sent");
+      onPaid();
+    } catch (error) {
+      console.error("Failed to pay scheduled run:", error);
+      const { message: errorMessage } = describeError(error);
+      const { signature, lastValidBlockHeight } = attempt;
+      if (
+        signature !== null &&
+        lastValidBlockHeight !== null &&
+        isUnsettledError(error)
+      ) {
+        onChange((list) =>
+          recordRun(list, schedule.id, dueAt, {
+            pendingSignature: signature,
+            lastValidBlockHeight,
+          })
+        );
+        setMessage("Scheduled payment submitted, waiting for confirmation");
+      } else {
+        onChange((list) =>
+          recordRun(list, schedule.id, dueAt, { error: errorMessage })
+        );
+        setMessage(errorMessage);
+      }
+    } finally {
+      setPayingKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[400px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">
+            Scheduled payments
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 pt-2 max-h-[70vh] overflow-y-auto">
+          {walletSchedules.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-2">
+              No scheduled payments yet
+            </p>
+          ) : (
+            <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+              {walletSchedules.map((schedule) => {
+                const dueAt = dueRuns.get(schedule.id);
+                return (
+                  <div
+                    key={schedule.id}
+                    className="flex items-center justify-between gap-2 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-white truncate">
+                        {schedule.amount} {usdc.symbol} to{" "}
+                        {recipientLabel(schedule.recipient)}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {describeCadence(schedule.cadence)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {dueAt !== undefined
+                          ? `Due since ${formatTime(dueAt)}`
+                          : schedule.nextRunAt === null
+                            ? "Ended"
+                            : `Next ${formatTime(schedule.nextRunAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {dueAt !== undefined && (
+                        <Button
+                          className="bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white text-xs h-8 px-3 rounded-xl"
+                          onClick={() => void payRun(schedule, dueAt)}
+                          disabled={payingKey !== null}
+                        >
+                          {payingKey === `${schedule.id}:${dueAt}`
+                            ? "Paying..."
+                            : "Sign and pay"}
+                        </Button>
+                      )}
+                      <button
+                        onClick={() =>
+                          onChange((list) => removeSchedule(list, schedule.id))
+                        }
+                        className="text-gray-400 hover:text-red-400 transition-colors"
+                        aria-label="Remove schedule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {pendingRuns.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm text-gray-400">Waiting for confirmation</p>
+              <div className="max-h-40 overflow-y-auto rounded-xl border border-white/10 divide-y divide-white/5">
+                {pendingRuns.map(({ schedule, run }) => (
+                  <div
+                    key={`${schedule.id}:${run.dueAt}`}
+                    className="px-3 py-2"
+                  >
+                    <p className="text-sm text-white truncate">
+                      {schedule.amount} {usdc.symbol} to{" "}
+                      {recipientLabel(schedule.recipient)}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      Due {formatTime(run.dueAt)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {retryable.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm text-gray-400">Missed and failed runs</p>
+              <div className="max-h-40 overflow-y-auto rounded-xl border border-red-400/30 divide-y divide-white/5">
+                {retryable.map(({ schedule, run }) => (
+                  <div
+                    key={`${schedule.id}:${run.dueAt}`}
+                    className="flex items-center justify-between gap-2 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-white truncate">
+                        {schedule.amount} {usdc.symbol} to{" "}
+                        {recipientLabel(schedule.recipient)}
+                      </p>
+                      <p className="text-xs text-red-400 truncate">
+                        {run.status === "missed" ? "Missed" : "Failed"}{" "}
+                        {formatTime(run.dueAt)}
+                        {run.error ? `: ${run.error}` : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        className="bg-[#2A2A2A] border-white/10 hover:bg-white/5 text-white text-xs h-8 px-3 rounded-xl"
+                        onClick={() => void payRun(schedule, run.dueAt)}
+                        disabled={payingKey !== null}
+                      >
+                        {payingKey === `${schedule.id}:${run.dueAt}`
+                          ? "Paying..."
+                          : "Retry"}
+                      </Button>
+                      <button
+                        onClick={() =>
+                          onChange((list) =>
+                            dismissRun(list, schedule.id, run.dueAt)
+                          )
+                        }
+                        className="text-gray-400 hover:text-red-400 transition-colors"
+                        aria-label="Dismiss run"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Input
+              placeholder="Recipient Solana address"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-10 rounded-xl transition-all"
+            />
+            <Input
+              placeholder={`Amount (${usdc.symbol})`}
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-10 rounded-xl transition-all"
+            />
+            <Input
+              placeholder="Memo (optional)"
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-10 rounded-xl transition-all"
+            />
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value)}
+              className="w-full bg-[#2A2A2A] border border-white/10 focus:border-blue-600 text-white h-10 rounded-xl px-3 transition-all"
+            >
+              {CADENCE_PRESETS.map((option) => (
+                <option key={option.cadence} value={option.cadence}>
+                  {option.label}
+                </option>
+              ))}
+              <option value={CUSTOM_CADENCE}>Custom (cron expression)</option>
+            </select>
+            {preset === CUSTOM_CADENCE && (
+              <Input
+                placeholder="minute hour day month weekday, e.g. 0 9 * * 1"
+                value={customCadence}
+                onChange={(e) => setCustomCadence(e.target.value)}
+                className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-10 rounded-xl transition-all"
+              />
+            )}
+            <label className="text-sm text-gray-400 block">
+              End date (optional)
+              <Input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1 bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white h-10 rounded-xl transition-all"
+              />
+            </label>
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold rounded-xl transition-all"
+              onClick={handleAdd}
+            >
+              Add schedule
+            </Button>
+          </div>
+
+          {message && <p className="text-sm text-gray-300">{message}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
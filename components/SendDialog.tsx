@@ -0,0 +1,885 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import { ScanLine, ShoppingCart } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Input } from "./ui/input";
+import SendReview, { type SendReviewData } from "./SendReview";
+import type { ToastOptions } from "./Toast";
+import type { SendForm } from "./useSendForm";
+import type { SignAndSubmit } from "./usePendingTransactions";
+import { useWallet } from "./WalletProvider";
+import { formatBaseUnits, validateAmount } from "@/lib/amount";
+import { getExplorerUrl, type Cluster, type Explorer } from "@/lib/clusters";
+import {
+  cacheResolvedEmail,
+  getCachedAddress,
+  markContactUsed,
+  sortContacts,
+  upsertContact,
+  type ContactBook,
+} from "@/lib/contacts";
+import { describeError, readApiError } from "@/lib/errors";
+import { getMemoByteLength, MAX_MEMO_BYTES } from "@/lib/memo";
+import { getMetaKeepAddress } from "@/lib/metakeep";
+import {
+  buildClaimUrl,
+  recordPaymentLink,
+  saveSentLink,
+} from "@/lib/payment-links";
+import {
+  findInFlightTransfer,
+  type PendingTransaction,
+} from "@/lib/pending-transactions";
+import type { PriorityTier } from "@/lib/priority-fee";
+import type { SimulationResult } from "@/lib/simulation";
+import {
+  parseTransferRequestUrl,
+  type TransferRequest,
+} from "@/lib/solana-pay";
+import {
+  getTokenInfo,
+  getUsdcMint,
+  getUsdcToken,
+  type TokenBalance,
+} from "@/lib/tokens";
+
+/**
+ * Dynamically import QR scanner (client-side only)
+ */
+const QrScanner = dynamic(() => import("./QrScanner"), {
+  ssr: false,
+});
+
+const RELAYER_ENABLED = process.env.NEXT_PUBLIC_RELAYER_ENABLED === "true";
+
+/**
+ * Dialogs the Send dialog links to
+ */
+export type SendDialogLink = "batch" | "scheduled" | "paymentLinks";
+
+/**
+ * Send dialog props interface
+ */
+interface SendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  form: SendForm;
+  cluster: Cluster;
+  explorer: Explorer;
+  /** Registered tokens with a balance */
+  tokens: TokenBalance[];
+  contactBook: ContactBook;
+  onContactBookChange: (update: (book: ContactBook) => ContactBook) => void;
+  pendingTransactions: PendingTransaction[];
+  signAndSubmit: SignAndSubmit;
+  showToast: (toast: ToastOptions) => void;
+  showErrorToast: (error: unknown, retry?: () => void) => void;
+  onGetUsdc: () => void;
+  onOpenLink: (link: SendDialogLink) => void;
+  /** Called after a send or payment link lands */
+  onSent: () => void | Promise<void>;
+}
+
+/**
+ * Validate if input is a valid Solana wallet address
+ */
+const isValidWalletAddress = (address: string): boolean => {
+  // Solana addresses are base58 encoded and typically 32-44 characters
+  const solanaAddressRegex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+  return solanaAddressRegex.test(address.trim());
+};
+
+/**
+ * Validate if input is a valid email address
+ */
+const isValidEmail = (email: string): boolean => {
+  const emailRegex =
+    /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+  const trimmedEmail = email.trim();
+
+  if (trimmedEmail.length > 254) return false;
+  if (trimmedEmail.split("@").length !== 2) return false;
+
+  return emailRegex.test(trimmedEmail);
+};
+
+/**
+ * Detect input type and validate
+ */
+const detectInputType = (input: string): "address" | "email" | "invalid" => {
+  const trimmed = input.trim();
+
+  if (!trimmed) return "invalid";
+
+  // Check if it's an email
+  if (trimmed.includes("@")) {
+    return isValidEmail(trimmed) ? "email" : "invalid";
+  }
+
+  // Check if it's a wallet address
+  return isValidWalletAddress(trimmed) ? "address" : "invalid";
+};
+
+/**
+ * Send dialog: recipient, token, amount and memo, then a simulated review
+ * before signing; USDC can also be sent gasless or as a claimable link
+ */
+export default function SendDialog({
+  open,
+  onOpenChange,
+  form,
+  cluster,
+  explorer,
+  tokens,
+  contactBook,
+  onContactBookChange,
+  pendingTransactions,
+  signAndSubmit,
+  showToast,
+  showErrorToast,
+  onGetUsdc,
+  onOpenLink,
+  onSent,
+}: SendDialogProps) {
+  const { wallet } = useWallet();
+  const [isSending, setIsSending] = useState(false);
+  const [isFetchingAddress, setIsFetchingAddress] = useState(false);
+  const [scanOpen, setScanOpen] = useState(false);
+  const [sendReview, setSendReview] = useState<SendReviewData | null>(null);
+
+  const {
+    recipientInput,
+    setRecipientInput,
+    amount: sendAmount,
+    memo: sendMemo,
+    reference: sendReference,
+  } = form;
+
+  const usdcMint = getUsdcMint(cluster);
+  const sendToken =
+    tokens.find((token) => token.mint === form.mint) ?? tokens[0];
+  const sendSymbol = sendToken?.symbol ?? "USDC";
+
+  // Gasless sends are USDC only, with fees paid by the relayer; quotas
+  // count the MetaKeep account, so its email must be known
+  const gaslessAvailable =
+    RELAYER_ENABLED &&
+    !!usdcMint &&
+    !!wallet?.email &&
+    (sendToken?.mint ?? usdcMint) === usdcMint;
+  // Payment links hold USDC only
+  const linkAvailable =
+    !!usdcMint && (sendToken?.mint ?? usdcMint) === usdcMint;
+  const sendingLink = form.asLink && linkAvailable;
+  const sendAmountError = sendAmount
+    ? validateAmount(
+        sendAmount,
+        sendToken?.decimals ?? getUsdcToken(cluster).decimals
+      )
+    : null;
+  const sendMemoBytes = getMemoByteLength(sendMemo.trim());
+
+  const sortedContacts = sortContacts(contactBook.contacts);
+  const recipientKey = recipientInput.trim().toLowerCase();
+  const recipientContact = recipientKey
+    ? contactBook.contacts.find(
+        (contact) =>
+          contact.address.toLowerCase() === recipientKey ||
+          getCachedAddress(contactBook, recipientKey) === contact.address
+      )
+    : undefined;
+
+  /**
+   * Discard the reviewed send when its inputs change or the dialog closes
+   */
+  useEffect(() => {
+    setSendReview(null);
+  }, [recipientInput, sendAmount, sendMemo, form.mint, sendReference, open]);
+
+  /**
+   * Fetch wallet address from email using MetaKeep SDK
+   */
+  const fetchWalletFromEmail = async (
+    email: string
+  ): Promise<string | null> => {
+    // Reuse an earlier MetaKeep resolution for this email
+    const cachedAddress = getCachedAddress(contactBook, email);
+    if (cachedAddress) {
+      return cachedAddress;
+    }
+
+    try {
+      setIsFetchingAddress(true);
+
+      const address = await getMetaKeepAddress(email);
+      onContactBookChange((book) => cacheResolvedEmail(book, email, address));
+      return address;
+    } catch (error) {
+      console.error("Failed to fetch wallet from email:", error);
+      showToast({
+        kind: "error",
+        message: "Please enter valid email",
+      });
+      return null;
+    } finally {
+      setIsFetchingAddress(false);
+    }
+  };
+
+  /**
+   * Build the send transaction and simulate it for review
+   * @param recipientAddress - Resolved recipient wallet address
+   * @param recipientEmail - Email the recipient was resolved from, if any
+   * @param priority - Priority fee tier
+   * @param gasless - Have the relayer pay fees
+   */
+  const prepareSendReview = async (
+    recipientAddress: string,
+    recipientEmail: string | undefined,
+    priority: PriorityTier,
+    gasless: boolean
+  ): Promise<SendReviewData> => {
+    if (!wallet) throw new Error("Wallet not connected");
+
+    // Get SPL token transfer transaction data from API
+    const transferDataResponse = await fetch("/api/token-transfer", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: wallet.address,
+        to: recipientAddress,
+        amount: sendAmount,
+        mint: sendToken?.mint ?? usdcMint,
+        memo: sendMemo.trim() || undefined,
+        reference: sendReference.length > 0 ? sendReference : undefined,
+        priority,
+        gasless: gasless || undefined,
+        email: gasless ? wallet.email : undefined,
+        cluster,
+      }),
+    });
+
+    if (!transferDataResponse.ok) {
+      throw await readApiError(
+        transferDataResponse,
+        "Failed to create token transfer transaction"
+      );
+    }
+
+    const transferData = await transferDataResponse.json();
+
+    // Simulate before signing so failures show up in the review
+    let simulation: SimulationResult | null = null;
+    try {
+      const simulateResponse = await fetch("/api/simulate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          transaction: transferData.transaction,
+          wallets: [wallet.address, recipientAddress],
+          cluster,
+        }),
+      });
+      if (simulateResponse.ok) {
+        simulation = await simulateResponse.json();
+      }
+    } catch (error) {
+      console.error("Failed to simulate transaction:", error);
+    }
+
+    return {
+      recipientAddress,
+      recipientEmail,
+      priority: transferData.priority,
+      transaction: transferData.transaction,
+      lastValidBlockHeight: transferData.lastValidBlockHeight,
+      fees: transferData.fees,
+      relay: transferData.relay ?? null,
+      simulation,
+    };
+  };
+
+  /**
+   * Resolve the recipient and move to the review step
+   * @param gasless - Have the relayer pay fees
+   */
+  const handleSend = async (gasless = form.gasless && gaslessAvailable) => {
+    if (!wallet || !sendAmount || !recipientInput) return;
+
+    // Detect and validate input type
+    const inputType = detectInputType(recipientInput);
+
+    if (inputType === "invalid") {
+      showToast({
+        kind: "error",
+        message: "Please enter a valid wallet address or email address",
+      });
+      return;
+    }
+
+    // Get the final recipient address
+    let finalRecipientAddress = recipientInput.trim();
+
+    // If input is email, fetch the wallet address first
+    if (inputType === "email") {
+      const fetchedAddress = await fetchWalletFromEmail(recipientInput.trim());
+      if (!fetchedAddress) {
+        return;
+      }
+      finalRecipientAddress = fetchedAddress;
+
+      if (!isValidWalletAddress(finalRecipientAddress)) {
+        showToast({
+          kind: "error",
+          message: "Retrieved address is invalid. Please contact support.",
+        });
+        return;
+      }
+    }
+
+    // Validate final address
+    if (!isValidWalletAddress(finalRecipientAddress)) {
+      showToast({
+        kind: "error",
+        message: "Invalid wallet address format",
+      });
+      return;
+    }
+
+    // Wait for an identical send still in flight rather than paying twice
+    if (
+      findInFlightTransfer(
+        pendingTransactions,
+        wallet.address,
+        cluster,
+        finalRecipientAddress,
+        sendAmount
+      )
+    ) {
+      showToast({
+        kind: "error",
+        message: "An identical send is still confirming, wait for it to land",
+      });
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      setSendReview(
+        await prepareSendReview(
+          finalRecipientAddress,
+          inputType === "email" ? recipientInput.trim() : undefined,
+          "normal",
+          gasless
+        )
+      );
+    } catch (error) {
+      console.error("Failed to prepare send:", error);
+      // Without SOL for fees, offer the relayer instead of a faucet
+      if (
+        !gasless &&
+        gaslessAvailable &&
+        describeError(error).code === "INSUFFICIENT_SOL"
+      ) {
+        showToast({
+          kind: "error",
+          message: "Not enough SOL for fees",
+          actionLabel: "Send gasless",
+          onAction: () => {
+            form.setGasless(true);
+            void handleSend(true);
+          },
+        });
+      } else {
+        showErrorToast(error, () => void handleSend(gasless));
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  /**
+   * Fund a claimable payment link and copy it to the clipboard
+   */
+  const handleSendLink = async () => {
+    if (!wallet || !sendAmount) return;
+
+    try {
+      setIsSending(true);
+
+      // The escrow secret only ever lives in the claim URL
+      const { Keypair } = await import("@solana/web3.js");
+      const escrow = Keypair.generate();
+
+      const linkResponse = await fetch("/api/payment-links", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: wallet.address,
+          amount: sendAmount,
+          escrow: escrow.publicKey.toBase58(),
+          cluster,
+        }),
+      });
+      if (!linkResponse.ok) {
+        throw await readApiError(linkResponse, "Failed to create payment link");
+      }
+      const link = await linkResponse.json();
+
+      // Keep the URL before signing so a funded link can always be reclaimed
+      const claimUrl = buildClaimUrl(
+        window.location.origin,
+        link.id,
+        cluster,
+        escrow.secretKey
+      );
+      saveSentLink(link.id, claimUrl);
+
+      onOpenChange(false);
+      await new Promise((r) => setTimeout(r, 50));
+      await signAndSubmit(
+        link.transaction,
+        link.lastValidBlockHeight,
+        link.message,
+        {
+          onSigned: (signature) =>
+            recordPaymentLink(link.id, link.transaction, signature, cluster),
+        }
+      );
+
+      const copied = await navigator.clipboard
+        .writeText(claimUrl)
+        .then(() => true)
+        .catch((error) => {
+          console.error("Failed to copy payment link:", error);
+          return false;
+        });
+      showToast({
+        kind: "success",
+        message: copied
+          ? "Payment link created and copied to clipboard."
+          : "Payment link created.",
+        actionLabel: "View links",
+        onAction: () => onOpenLink("paymentLinks"),
+      });
+
+      form.reset();
+      await onSent();
+    } catch (error) {
+      console.error("Failed to create payment link:", error);
+      showErrorToast(error, () => onOpenChange(true));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  /**
+   * Rebuild the reviewed send with a different priority tier
+   */
+  const changeSendPriority = async (priority: PriorityTier) => {
+    if (!sendReview || sendReview.priority === priority) return;
+
+    try {
+      setIsSending(true);
+      setSendReview(
+        await prepareSendReview(
+          sendReview.recipientAddress,
+          sendReview.recipientEmail,
+          priority,
+          sendReview.relay !== null
+        )
+      );
+    } catch (error) {
+      console.error("Failed to prepare send:", error);
+      showErrorToast(error, () => void changeSendPriority(priority));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  /**
+   * Sign the reviewed send with MetaKeep and submit it
+   */
+  const confirmSend = async () => {
+    if (!wallet || !sendReview) return;
+    const review = sendReview;
+    const { recipientAddress, recipientEmail } = review;
+
+    try {
+      setIsSending(true);
+      onOpenChange(false);
+      await new Promise((r) => setTimeout(r, 50));
+
+      const signature = await signAndSubmit(
+        review.transaction,
+        review.lastValidBlockHeight,
+        `Send ${sendAmount} ${sendSymbol} to ${
+          recipientEmail ??
+          `${recipientAddress.slice(0, 6)}...${recipientAddress.slice(-4)}`
+        }${sendMemo.trim() ? ` with memo "${sendMemo.trim()}"` : ""}`,
+        {
+          relayTicket: review.relay?.ticket,
+          transfer: {
+            recipient: recipientAddress,
+            recipientEmail,
+            amount: sendAmount,
+            mint: sendToken?.mint ?? usdcMint,
+            symbol: sendSymbol,
+            memo: sendMemo.trim() || undefined,
+            reference: sendReference.length > 0 ? sendReference : undefined,
+          },
+        }
+      );
+
+      showToast({
+        kind: "success",
+        message: "Transaction confirmed on Solana!",
+        actionLabel: "View",
+        actionHref: getExplorerUrl("tx", signature, cluster, explorer),
+      });
+
+      // Save the recipient if requested and record the contact as used
+      const contactLabel = form.saveRecipient
+        ? form.saveRecipientLabel.trim()
+        : "";
+      onContactBookChange((book) =>
+        markContactUsed(
+          contactLabel
+            ? upsertContact(book, {
+                label: contactLabel,
+                address: recipientAddress,
+                email: recipientEmail,
+              })
+            : book,
+          recipientAddress
+        )
+      );
+
+      form.reset();
+      setSendReview(null);
+      await onSent();
+    } catch (error) {
+      console.error("Failed to send transaction:", error);
+      // The review is discarded with the dialog, so retry starts a new one
+      showErrorToast(error, () => onOpenChange(true));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  /**
+   * Handle QR code scan for recipient address or Solana Pay request
+   */
+  const handleQRCodeScan = (scannedData: string) => {
+    setScanOpen(false);
+
+    let request: TransferRequest;
+    try {
+      request = parseTransferRequestUrl(scannedData);
+    } catch (error) {
+      showToast({
+        kind: "error",
+        message: error instanceof Error ? error.message : "Unsupported QR code",
+      });
+      return;
+    }
+
+    // Only registered tokens can be paid from this wallet
+    if (request.splToken && !getTokenInfo(request.splToken, cluster)) {
+      showToast({
+        kind: "error",
+        message: "This request is for a token this wallet does not support",
+      });
+      return;
+    }
+    if (!request.splToken && request.amount) {
+      showToast({
+        kind: "error",
+        message: "This request asks for SOL, only SPL tokens are supported",
+      });
+      return;
+    }
+
+    form.fill({
+      recipient: request.recipient,
+      mint: request.splToken,
+      amount: request.amount,
+      memo: request.memo,
+      reference: request.reference,
+    });
+
+    if (request.label || request.message) {
+      showToast({
+        kind: "info",
+        message: [request.label, request.message].filter(Boolean).join(": "),
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[380px] rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-semibold text-white">
+              Send {sendSymbol}
+            </DialogTitle>
+          </DialogHeader>
+          {wallet && tokens.length === 0 ? (
+            <div className="space-y-4 pt-2 text-center py-6">
+              <p className="text-gray-400 mb-4">
+                You don&apos;t have any USDC to send. Get some first!
+              </p>
+              <Button
+                className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
+                onClick={() => {
+                  onOpenChange(false);
+                  onGetUsdc();
+                }}
+              >
+                <ShoppingCart className="w-5 h-5 mr-2" />
+                GET USDC
+              </Button>
+            </div>
+          ) : wallet && sendReview ? (
+            <SendReview
+              review={sendReview}
+              amount={sendAmount}
+              symbol={sendSymbol}
+              memo={sendMemo.trim()}
+              walletAddress={wallet.address}
+              cluster={cluster}
+              recipientLabel={recipientContact?.label}
+              isSending={isSending}
+              onPriorityChange={changeSendPriority}
+              onBack={() => setSendReview(null)}
+              onConfirm={confirmSend}
+            />
+          ) : (
+            <div className="space-y-3 pt-2">
+              <Button
+                variant="outline"
+                className="w-full bg-[#2A2A2A] border-white/10 hover:border-blue-600 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
+                onClick={() => setScanOpen(true)}
+              >
+                <ScanLine className="w-5 h-5 mr-2" />
+                Scan QR Code
+              </Button>
+
+              {linkAvailable && (
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={form.asLink}
+                    onChange={(e) => form.setAsLink(e.target.checked)}
+                  />
+                  Send as link (anyone with the link can claim it)
+                </label>
+              )}
+
+              {!sendingLink && (
+                <div>
+                  <label className="text-sm text-gray-400 block mb-2 font-medium">
+                    Recipient Wallet Address or Email
+                  </label>
+                  <Input
+                    placeholder="Solana address or satoshi@example.com"
+                    value={recipientInput}
+                    onChange={(e) => setRecipientInput(e.target.value)}
+                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-11 rounded-xl transition-all"
+                  />
+                  {recipientContact && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      Sending to {recipientContact.label}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {!sendingLink && sortedContacts.length > 0 && (
+                <div>
+                  <label className="text-sm text-gray-400 block mb-2 font-medium">
+                    Contacts
+                  </label>
+                  <select
+                    value={recipientContact?.id ?? ""}
+                    onChange={(e) => {
+                      const contact = contactBook.contacts.find(
+                        (c) => c.id === e.target.value
+                      );
+                      if (contact) setRecipientInput(contact.address);
+                    }}
+                    className="w-full bg-[#2A2A2A] border border-white/10 focus:border-blue-600 text-white h-11 rounded-xl px-3 transition-all"
+                  >
+                    <option value="">Choose a contact</option>
+                    {sortedContacts.map((contact) => (
+                      <option key={contact.id} value={contact.id}>
+                        {contact.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {tokens.length > 1 && (
+                <div>
+                  <label className="text-sm text-gray-400 block mb-2 font-medium">
+                    Token
+                  </label>
+                  <select
+                    value={sendToken?.mint}
+                    onChange={(e) => form.setMint(e.target.value)}
+                    className="w-full bg-[#2A2A2A] border border-white/10 focus:border-blue-600 text-white h-11 rounded-xl px-3 transition-all"
+                  >
+                    {tokens.map((token) => (
+                      <option key={token.mint} value={token.mint}>
+                        {token.symbol} (
+                        {formatBaseUnits(token.amount, token.decimals, 2, 2)})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="text-sm text-gray-400 block mb-2 font-medium">
+                  Amount ({sendSymbol})
+                </label>
+                <Input
+                  placeholder="1.00"
+                  type="number"
+                  step="0.01"
+                  value={sendAmount}
+                  onChange={(e) => form.setAmount(e.target.value)}
+                  className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-11 text-lg font-semibold rounded-xl transition-all"
+                />
+                {sendAmountError && (
+                  <p className="text-xs text-red-400 mt-1">{sendAmountError}</p>
+                )}
+              </div>
+
+              {!sendingLink && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-sm text-gray-400 font-medium">
+                      Memo (optional)
+                    </label>
+                    <span
+                      className={`text-xs ${
+                        sendMemoBytes > MAX_MEMO_BYTES
+                          ? "text-red-400"
+                          : "text-gray-500"
+                      }`}
+                    >
+                      {sendMemoBytes}/{MAX_MEMO_BYTES} bytes
+                    </span>
+                  </div>
+                  <Input
+                    placeholder="Invoice number or deposit tag"
+                    value={sendMemo}
+                    onChange={(e) => form.setMemo(e.target.value)}
+                    className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-11 rounded-xl transition-all"
+                  />
+                </div>
+              )}
+              {!sendingLink && recipientInput.trim() && !recipientContact && (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={form.saveRecipient}
+                      onChange={(e) => form.setSaveRecipient(e.target.checked)}
+                    />
+                    Save recipient to contacts
+                  </label>
+                  {form.saveRecipient && (
+                    <Input
+                      placeholder="Contact name"
+                      value={form.saveRecipientLabel}
+                      onChange={(e) =>
+                        form.setSaveRecipientLabel(e.target.value)
+                      }
+                      className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-11 rounded-xl transition-all"
+                    />
+                  )}
+                </div>
+              )}
+              {!sendingLink && gaslessAvailable && (
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={form.gasless}
+                    onChange={(e) => form.setGasless(e.target.checked)}
+                  />
+                  Gasless send (network fees covered by the relayer)
+                </label>
+              )}
+
+              <Button
+                className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
+                onClick={() =>
+                  void (sendingLink ? handleSendLink() : handleSend())
+                }
+                disabled={
+                  (!recipientInput && !sendingLink) ||
+                  !sendAmount ||
+                  !!sendAmountError ||
+                  (!sendingLink && sendMemoBytes > MAX_MEMO_BYTES) ||
+                  isSending ||
+                  isFetchingAddress
+                }
+              >
+                {isSending || isFetchingAddress
+                  ? "Processing..."
+                  : sendingLink
+                    ? "Create payment link"
+                    : "Review send"}
+              </Button>
+              <button
+                onClick={() => onOpenLink("batch")}
+                className="w-full text-sm text-blue-400 hover:text-blue-500 transition-colors"
+              >
+                Pay many recipients from CSV
+              </button>
+              <button
+                onClick={() => onOpenLink("scheduled")}
+                className="w-full text-sm text-blue-400 hover:text-blue-500 transition-colors"
+              >
+                Scheduled and recurring payments
+              </button>
+              <button
+                onClick={() => onOpenLink("paymentLinks")}
+                className="w-full text-sm text-blue-400 hover:text-blue-500 transition-colors"
+              >
+                Payment links
+              </button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* QR Scanner Dialog for Recipient Address */}
+      <Dialog open={scanOpen} onOpenChange={setScanOpen}>
+        <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[400px] rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-semibold text-white">
+              Scan Recipient QR Code
+            </DialogTitle>
+          </DialogHeader>
+          <div className="pt-4">
+            <QrScanner onScan={handleQRCodeScan} />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { formatBaseUnits } from "@/lib/amount";
+import { getClusterConfig, type Cluster } from "@/lib/clusters";
+import type { FeeQuote, PriorityTier } from "@/lib/priority-fee";
+import type { BalanceChange, SimulationResult } from "@/lib/simulation";
+
+/**
+ * Built and simulated send awaiting confirmation
+ */
+export interface SendReviewData {
+  recipientAddress: string;
+  recipientEmail?: string;
+  priority: PriorityTier;
+  transaction: string;
+  lastValidBlockHeight: number;
+  fees: FeeQuote;
+  /** Relay ticket and USDC relayer fee when the relayer pays network fees */
+  relay: { ticket: string; fee: string } | null;
+  simulation: SimulationResult | null;
+}
+
+/**
+ * Send review props interface
+ */
+interface SendReviewProps {
+  review: SendReviewData;
+  amount: string;
+  symbol: string;
+  memo: string;
+  walletAddress: string;
+  cluster: Cluster;
+  recipientLabel?: string;
+  isSending: boolean;
+  onPriorityChange: (priority: PriorityTier) => void;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Format lamports as SOL for fee display
+ */
+const formatLamports = (lamports: number) =>
+  (lamports / 1_000_000_000).toFixed(6).replace(/\.?0+$/, "");
+
+/**
+ * Format a signed base-unit delta for display
+ */
+const formatDelta = (change: BalanceChange) => {
+  const value = formatBaseUnits(change.delta, change.decimals);
+  return `${value.startsWith("-") ? "" : "+"}${value} ${change.symbol}`;
+};
+
+/**
+ * Review step of the Send dialog: recipient, simulated balance changes and fees
+ */
+export default function SendReview({
+  review,
+  amount,
+  symbol,
+  memo,
+  walletAddress,
+  cluster,
+  recipientLabel,
+  isSending,
+  onPriorityChange,
+  onBack,
+  onConfirm,
+}: SendReviewProps) {
+  const [showLogs, setShowLogs] = useState(false);
+  const { simulation } = review;
+  const selectedFee = review.fees.options.find(
+    (option) => option.tier === review.priority
+  );
+  const simulationFailed = simulation !== null && !simulation.success;
+  const solFaucet = getClusterConfig(cluster).faucets.sol;
+
+  const walletChanges = (owner: string) =>
+    simulation?.balanceChanges.filter((change) => change.owner === owner) ?? [];
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="rounded-xl border border-white/10 px-3 py-2 space-y-1">
+        <p className="text-sm text-gray-400">Sending</p>
+        <p className="text-lg font-semibold text-white">
+          {amount} {symbol}
+        </p>
+        <p className="text-sm text-gray-400">To</p>
+        {(recipientLabel || review.recipientEmail) && (
+          <p className="text-sm text-white">
+            {recipientLabel ?? review.recipientEmail}
+          </p>
+        )}
+        <p className="text-xs text-gray-300 break-all">
+          {review.recipientAddress}
+        </p>
+        {memo && (
+          <p className="text-sm text-gray-300 truncate">
+            <span className="text-gray-500">Memo: </span>
+            {memo}
+          </p>
+        )}
+      </div>
+
+      {simulation && simulation.success && (
+        <div className="rounded-xl border border-white/10 px-3 py-2 space-y-1">
+          <p className="text-sm text-gray-400">Balance changes</p>
+          {[
+            ["You", walletAddress],
+            ["Recipient", review.recipientAddress],
+          ].map(([label, owner]) =>
+            walletChanges(owner).map((change) => (
+              <div
+                key={`${owner}:${change.mint ?? "SOL"}`}
+                className="flex justify-between text-sm"
+              >
+                <span className="text-gray-400">{label}</span>
+                <span
+                  className={
+                    change.delta.startsWith("-")
+                      ? "text-red-400"
+                      : "text-green-400"
+                  }
+                >
+                  {formatDelta(change)}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {simulationFailed && (
+        <div className="rounded-xl border border-red-400/30 px-3 py-2 space-y-1">
+          <p className="text-sm text-red-400">
+            Simulation failed: {simulation.error?.message}
+          </p>
+          {simulation.error?.code === "INSUFFICIENT_SOL" && solFaucet && (
+            <a
+              href={solFaucet}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-xs text-blue-400 hover:text-blue-500 underline underline-offset-4 transition-colors"
+            >
+              Get SOL
+            </a>
+          )}
+          <button
+            onClick={() => setShowLogs(!showLogs)}
+            className="text-xs text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            {showLogs ? "Hide logs" : "Show logs"}
+          </button>
+          {showLogs && (
+            <pre className="max-h-40 overflow-auto text-[10px] text-gray-400 whitespace-pre-wrap">
+              {simulation.logs.join("\n")}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-white/10 px-3 py-2 space-y-2">
+        <div className="grid grid-cols-3 gap-2">
+          {review.fees.options.map((option) => (
+            <button
+              key={option.tier}
+              onClick={() => onPriorityChange(option.tier)}
+              disabled={isSending}
+              className={`rounded-xl border py-1.5 text-sm capitalize transition-colors ${
+                review.priority === option.tier
+                  ? "border-blue-600 text-white bg-blue-600/20"
+                  : "border-white/10 text-gray-400 hover:text-gray-200"
+              }`}
+            >
+              {option.tier}
+            </button>
+          ))}
+        </div>
+        {review.relay ? (
+          <>
+            <div className="flex justify-between text-sm text-gray-400">
+              <span>Network fees and rent</span>
+              <span>
+                {formatLamports(selectedFee?.total ?? 0)} SOL, paid by relayer
+              </span>
+            </div>
+            <div className="flex justify-between text-sm text-white font-medium">
+              <span>Relayer fee</span>
+              <span>
+                {review.relay.fee} {symbol}
+              </span>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex justify-between text-sm text-gray-400">
+              <span>Network fee</span>
+              <span>{formatLamports(review.fees.baseFee)} SOL</span>
+            </div>
+            <div className="flex justify-between text-sm text-gray-400">
+              <span>Priority fee</span>
+              <span>{formatLamports(selectedFee?.priorityFee ?? 0)} SOL</span>
+            </div>
+            {review.fees.rent > 0 && (
+              <div className="flex justify-between text-sm text-gray-400">
+                <span>Recipient account rent</span>
+                <span>{formatLamports(review.fees.rent)} SOL</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm text-white font-medium">
+              <span>Total cost</span>
+              <span>{formatLamports(selectedFee?.total ?? 0)} SOL</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <Button
+          variant="outline"
+          className="bg-[#2A2A2A] border-white/10 hover:bg-white/5 text-white py-5 rounded-2xl transition-all"
+          onClick={onBack}
+          disabled={isSending}
+        >
+          Back
+        </Button>
+        <Button
+          className="col-span-2 bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
+          onClick={onConfirm}
+          disabled={isSending || simulationFailed}
+        >
+          {isSending ? "Processing..." : "Confirm and sign"}
+        </Button>
+      </div>
+    </div>
+  );
+}
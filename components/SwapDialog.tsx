@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowDownUp } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Input } from "./ui/input";
+import { describeError, readApiError } from "@/lib/errors";
+import type { SwapQuote } from "@/lib/swap";
+import type { SignAndSubmit } from "./usePendingTransactions";
+import type { Cluster } from "@/lib/clusters";
+import { getUsdcMint, SOL_MINT_ADDRESS } from "@/lib/tokens";
+
+/**
+ * Quote response from /api/swap/quote
+ */
+export interface SwapQuoteResponse {
+  quote: SwapQuote;
+  inUiAmount: number;
+  outUiAmount: number;
+  minOutUiAmount: number;
+  rate: number;
+}
+
+/**
+ * Swap dialog props interface
+ */
+interface SwapDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  walletAddress: string;
+  cluster: Cluster;
+  solBalance: number;
+  usdcBalance: number;
+  signAndSubmit: SignAndSubmit;
+  /** Called with the signature of a confirmed swap */
+  onSwapped: (signature: string) => void | Promise<void>;
+  onError: (error: unknown, retry: () => void) => void;
+}
+
+/**
+ * Slippage tolerance options in basis points
+ */
+const SLIPPAGE_OPTIONS = [50, 100, 200];
+
+/**
+ * Delay before requesting a quote while the user types
+ */
+const QUOTE_DEBOUNCE_MS = 400;
+
+/**
+ * Swap dialog for SOL and USDC with rate, slippage and minimum received
+ */
+export default function SwapDialog({
+  open,
+  onOpenChange,
+  walletAddress,
+  cluster,
+  solBalance,
+  usdcBalance,
+  signAndSubmit,
+  onSwapped,
+  onError,
+}: SwapDialogProps) {
+  const [solToUsdc, setSolToUsdc] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [slippageBps, setSlippageBps] = useState(SLIPPAGE_OPTIONS[0]);
+  const [quote, setQuote] = useState<SwapQuoteResponse | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSwapping, setIsSwapping] = useState(false);
+
+  const inputSymbol = solToUsdc ? "SOL" : "USDC";
+  const outputSymbol = solToUsdc ? "USDC" : "SOL";
+  const balance = solToUsdc ? solBalance : usdcBalance;
+
+  /**
+   * Fetch a quote whenever the amount, direction or slippage changes
+   */
+  useEffect(() => {
+    setQuote(null);
+    setError(null);
+    if (!open || !(parseFloat(amount) > 0)) return;
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setIsQuoting(true);
+      try {
+        const usdcMint = getUsdcMint(cluster);
+        const params = new URLSearchParams({
+          inputMint: solToUsdc ? SOL_MINT_ADDRESS : usdcMint,
+          outputMint: solToUsdc ? usdcMint : SOL_MINT_ADDRESS,
+          amount: amount.trim(),
+          slippageBps: String(slippageBps),
+          cluster,
+        });
+        const response = await fetch(`/api/swap/quote?${params.toString()}`);
+        if (!response.ok) {
+          throw await readApiError(response, "Failed to get quote");
+        }
+        const data = await response.json();
+        if (!cancelled) setQuote(data);
+      } catch (err) {
+        if (!cancelled) {
+          setError(describeError(err).message);
+        }
+      } finally {
+        if (!cancelled) setIsQuoting(false);
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [open, amount, solToUsdc, slippageBps, cluster]);
+
+  const insufficientBalance = parseFloat(amount) > balance;
+
+  /**
+   * Build, sign and submit a swap for a quote
+   * @param quoteResponse - Quote response from /api/swap/quote
+   * @param reason - Reason shown in the MetaKeep signing prompt
+   */
+  const handleSwap = async (
+    quoteResponse: SwapQuoteResponse,
+    reason: string
+  ) => {
+    setIsSwapping(true);
+    try {
+      const buildResponse = await fetch("/api/swap/build", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          quote: quoteResponse.quote,
+          userPublicKey: walletAddress,
+          cluster,
+        }),
+      });
+
+      if (!buildResponse.ok) {
+        throw await readApiError(buildResponse, "Failed to build swap");
+      }
+
+      const buildData = await buildResponse.json();
+
+      const signature = await signAndSubmit(
+        buildData.transaction,
+        buildData.lastValidBlockHeight,
+        reason
+      );
+
+      onOpenChange(false);
+      await onSwapped(signature);
+    } catch (err) {
+      console.error("Failed to swap:", err);
+      onError(err, () => void handleSwap(quoteResponse, reason));
+    } finally {
+      setIsSwapping(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#2A2A2A] border-blue-600/30 text-white max-w-[380px] rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">
+            Swap {inputSymbol} to {outputSymbol}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 pt-2">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm text-gray-400 font-medium">
+                You pay ({inputSymbol})
+              </label>
+              <button
+                onClick={() => setAmount(String(balance))}
+                className="text-xs text-blue-400 hover:text-blue-500 transition-colors"
+              >
+                Balance: {balance.toFixed(solToUsdc ? 3 : 2)}
+              </button>
+            </div>
+            <Input
+              placeholder="0.00"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="bg-[#2A2A2A] border-white/10 focus:border-blue-600 text-white placeholder:text-gray-500 h-11 text-lg font-semibold rounded-xl transition-all"
+            />
+          </div>
+
+          <div className="flex justify-center">
+            <button
+              onClick={() => {
+                setSolToUsdc(!solToUsdc);
+                setAmount("");
+              }}
+              className="w-9 h-9 rounded-full border border-white/10 hover:border-blue-600 flex items-center justify-center transition-colors"
+            >
+              <ArrowDownUp className="w-4 h-4 text-gray-300" />
+            </button>
+          </div>
+
+          <div className="rounded-xl border border-white/10 px-3 py-2">
+            <p className="text-sm text-gray-400">
+              You receive ({outputSymbol})
+            </p>
+            <p className="text-lg font-semibold text-white">
+              {isQuoting
+                ? "..."
+                : quote
+                  ? quote.outUiAmount.toFixed(solToUsdc ? 2 : 6)
+                  : "0.00"}
+            </p>
+          </div>
+
+          <div>
+            <label className="text-sm text-gray-400 block mb-2 font-medium">
+              Slippage tolerance
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {SLIPPAGE_OPTIONS.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSlippageBps(option)}
+                  className={`rounded-xl border py-1.5 text-sm transition-colors ${
+                    slippageBps === option
+                      ? "border-blue-600 text-white bg-blue-600/20"
+                      : "border-white/10 text-gray-400 hover:text-gray-200"
+                  }`}
+                >
+                  {option / 100}%
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {quote && (
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between text-gray-400">
+                <span>Rate</span>
+                <span className="text-gray-200">
+                  1 {inputSymbol} = {quote.rate.toFixed(solToUsdc ? 4 : 8)}{" "}
+                  {outputSymbol}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Minimum received</span>
+                <span className="text-gray-200">
+                  {quote.minOutUiAmount.toFixed(solToUsdc ? 2 : 6)}{" "}
+                  {outputSymbol}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Price impact</span>
+                <span
+                  className={
+                    quote.quote.priceImpactPct > 1
+                      ? "text-red-400"
+                      : "text-gray-200"
+                  }
+                >
+                  {quote.quote.priceImpactPct.toFixed(2)}%
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Route</span>
+                <span className="text-gray-200">{quote.quote.provider}</span>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <Button
+            className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:opacity-90 text-white font-semibold py-5 text-base rounded-2xl shadow-lg shadow-blue-600/30 transition-all"
+            onClick={() =>
+              quote &&
+              void handleSwap(
+                quote,
+                `Swap ${amount.trim()} ${inputSymbol} for at least ${quote.minOutUiAmount.toFixed(
+                  solToUsdc ? 2 : 6
+                )} ${outputSymbol}`
+              )
+            }
+            disabled={!quote || isQuoting || isSwapping || insufficientBalance}
+          >
+            {isSwapping
+              ? "Processing..."
+              : insufficientBalance
+                ? `Insufficient ${inputSymbol}`
+                : "Swap"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * How long a toast stays up before dismissing itself
+ */
+const TOAST_DURATION_MS = 3_000;
+
+type ToastKind = "info" | "success" | "error";
+
+/**
+ * Toast with an optional action, either a link or a callback
+ */
+export type ToastState = {
+  id: number;
+  kind: ToastKind;
+  message: string;
+  actionLabel?: string;
+  actionHref?: string;
+  onAction?: () => void;
+};
+
+/**
+ * Toast contents as passed to showToast
+ */
+export type ToastOptions = Omit<ToastState, "id">;
+
+/**
+ * Current toast, dismissed automatically after a few seconds
+ */
+export function useToast() {
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const showToast = useCallback((next: ToastOptions) => {
+    setToast({ id: Date.now(), ...next });
+  }, []);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  useEffect(() => {
+    if (!toast) return;
+
+    if (timerRef.current) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(
+      () => setToast(null),
+      TOAST_DURATION_MS
+    );
+
+    return () => {
+      if (timerRef.current) window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    };
+  }, [toast]);
+
+  return { toast, showToast, dismissToast };
+}
+
+/**
+ * Toast props interface
+ */
+interface ToastProps {
+  toast: ToastState;
+  onDismiss: () => void;
+}
+
+/**
+ * Bottom toast with its action and a dismiss button
+ */
+export default function Toast({ toast, onDismiss }: ToastProps) {
+  return (
+    <div className="fixed bottom-6 left-1/2 z-[60] w-[min(520px,calc(100vw-24px))] -translate-x-1/2">
+      <div className="pointer-events-auto flex items-center justify-between gap-3 rounded-2xl border border-blue-600/30 bg-[#2A2A2A]/95 px-4 py-3 shadow-[0_16px_60px_rgba(0,0,0,0.8)] backdrop-blur-xl">
+        <div className="min-w-0">
+          <p className="text-sm text-gray-100 truncate">{toast.message}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {toast.onAction && toast.actionLabel && (
+            <button
+              onClick={() => {
+                onDismiss();
+                toast.onAction?.();
+              }}
+              className="text-sm text-blue-400 hover:text-blue-500 underline underline-offset-4 whitespace-nowrap transition-colors"
+            >
+              {toast.actionLabel}
+            </button>
+          )}
+          {toast.actionHref && toast.actionLabel && (
+            <a
+              href={toast.actionHref}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-blue-400 hover:text-blue-500 underline underline-offset-4 whitespace-nowrap transition-colors"
+            >
+              {toast.actionLabel}
+            </a>
+          )}
+          <button
+            onClick={onDismiss}
+            className="text-xs text-gray-400 hover:text-gray-200 whitespace-nowrap transition-colors"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  type Dispatch,
+  type ReactNode,
+  type SetStateAction,
+} from "react";
+import {
+  activateAccount,
+  EMPTY_ACCOUNT_STORE,
+  getActiveAccount,
+  loadAccounts,
+  removeAccount,
+  saveAccounts,
+  upsertAccount,
+  type AccountStore,
+  type WalletData,
+} from "@/lib/accounts";
+import { AppError } from "@/lib/errors";
+import {
+  connectMetaKeep,
+  signMetaKeepMessage,
+  signMetaKeepTransaction,
+} from "@/lib/metakeep";
+import type { MetaKeepSignableTransaction } from "@/types/metakeep";
+
+/**
+ * Wallet state and actions shared through the wallet context
+ */
+interface WalletContextValue {
+  /** Active account, or null when signed out */
+  wallet: WalletData | null;
+  setWallet: Dispatch<SetStateAction<WalletData | null>>;
+  /** Remembered accounts, most recently used first */
+  accounts: AccountStore;
+  updateAccounts: (update: (store: AccountStore) => AccountStore) => void;
+  /** Whether remembered accounts have been restored from localStorage */
+  isReady: boolean;
+  /** Whether the last account was logged out this session */
+  isLoggedOut: boolean;
+  connect: (email?: string) => Promise<WalletData>;
+  switchAccount: (address: string) => void;
+  logout: () => void;
+  signTransaction: (
+    transaction: MetaKeepSignableTransaction,
+    reason: string
+  ) => Promise<string>;
+  signMessage: (message: string, reason: string) => Promise<string>;
+}
+
+/**
+ * Wallet provider props interface
+ */
+interface WalletProviderProps {
+  children: ReactNode;
+}
+
+const WalletContext = createContext<WalletContextValue | null>(null);
+
+/**
+ * Holds the active MetaKeep account and the remembered ones, and signs as
+ * the active identity
+ */
+export default function WalletProvider({ children }: WalletProviderProps) {
+  const [wallet, setWallet] = useState<WalletData | null>(null);
+  const [accounts, setAccounts] = useState<AccountStore>(EMPTY_ACCOUNT_STORE);
+  const [isReady, setIsReady] = useState(false);
+  const [isLoggedOut, setIsLoggedOut] = useState(false);
+
+  /**
+   * Update the remembered accounts and persist them
+   */
+  const updateAccounts = useCallback(
+    (update: (store: AccountStore) => AccountStore) => {
+      setAccounts((prev) => {
+        const next = update(prev);
+        saveAccounts(next);
+        return next;
+      });
+    },
+    []
+  );
+
+  /**
+   * Load remembered accounts and restore the active one
+   */
+  useEffect(() => {
+    const store = loadAccounts();
+    setAccounts(store);
+    setWallet(getActiveAccount(store));
+    setIsReady(true);
+  }, []);
+
+  /**
+   * Keep the active account's cached wallet current
+   */
+  useEffect(() => {
+    if (!wallet) return;
+    updateAccounts((store) => upsertAccount(store, wallet));
+  }, [wallet, updateAccounts]);
+
+  /**
+   * Sign in to MetaKeep and make the account active, starting from its
+   * cached balances when it is already remembered
+   * @param email - Identity to sign in as, e.g. when adding an account;
+   * otherwise the SDK's current identity is used
+   */
+  const connect = useCallback(
+    async (email?: string) => {
+      const identity = await connectMetaKeep(email);
+      const remembered = loadAccounts().accounts.find(
+        (account) => account.address === identity.address
+      );
+      const next: WalletData = {
+        address: identity.address,
+        usdcBalance: 0,
+        solBalance: 0,
+        usdValue: 0,
+        tokens: [],
+        ...remembered,
+        email: identity.email ?? remembered?.email,
+      };
+      updateAccounts((store) =>
+        activateAccount(upsertAccount(store, next), next.address)
+      );
+      setWallet(next);
+      setIsLoggedOut(false);
+      return next;
+    },
+    [updateAccounts]
+  );
+
+  /**
+   * Switch to a remembered account
+   */
+  const switchAccount = useCallback(
+    (address: string) => {
+      const account = accounts.accounts.find(
+        (entry) => entry.address === address
+      );
+      if (!account) return;
+      updateAccounts((store) => activateAccount(store, address));
+      setWallet(account);
+    },
+    [accounts, updateAccounts]
+  );
+
+  /**
+   * Forget the active account and switch to the most recently used
+   * remaining one, if any
+   */
+  const logout = useCallback(() => {
+    if (!wallet) return;
+    const remaining = removeAccount(accounts, wallet.address);
+    updateAccounts(() => remaining);
+    const next = getActiveAccount(remaining);
+    setWallet(next);
+    if (!next) setIsLoggedOut(true);
+  }, [wallet, accounts, updateAccounts]);
+
+  /**
+   * Email the active account signs as
+   * Accounts remembered before emails were saved have none, and signing
+   * without one would use whichever identity the SDK last used
+   * @throws AppError SIGNING_FAILED when the account must be added again
+   */
+  const getSigningEmail = useCallback((): string => {
+    if (!wallet?.email) {
+      throw new AppError(
+        "SIGNING_FAILED",
+        "Sign in to this account again with its email before signing"
+      );
+    }
+    return wallet.email;
+  }, [wallet?.email]);
+
+  /**
+   * Sign a transaction as the active account's identity
+   */
+  const signTransaction = useCallback(
+    async (transaction: MetaKeepSignableTransaction, reason: string) =>
+      signMetaKeepTransaction(transaction, reason, getSigningEmail()),
+    [getSigningEmail]
+  );
+
+  /**
+   * Sign a message as the active account's identity
+   */
+  const signMessage = useCallback(
+    async (message: string, reason: string) =>
+      signMetaKeepMessage(message, reason, getSigningEmail()),
+    [getSigningEmail]
+  );
+
+  return (
+    <WalletContext.Provider
+      value={{
+        wallet,
+        setWallet,
+        accounts,
+        updateAccounts,
+        isReady,
+        isLoggedOut,
+        connect,
+        switchAccount,
+        logout,
+        signTransaction,
+        signMessage,
+      }}
+    >
+      {children}
+    </WalletContext.Provider>
+  );
+}
+
+/**
+ * Read the wallet context
+ * @throws Error when used outside WalletProvider
+ */
+export function useWallet(): WalletContextValue {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error("useWallet must be used within WalletProvider");
+  }
+  return context;
+}
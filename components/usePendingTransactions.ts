@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import bs58 from "bs58";
+import { useWallet } from "@/components/WalletProvider";
+import { AppError, isErrorCode, readApiError } from "@/lib/errors";
+import type { Cluster } from "@/lib/clusters";
+import {
+  addPendingTransaction,
+  applyStatusResponse,
+  fetchTransactionStatuses,
+  getWalletPendingTransactions,
+  isInFlight,
+  loadPendingTransactions,
+  pruneFinalizedTransactions,
+  recordTransactionStatus,
+  removePendingTransaction,
+  savePendingTransactions,
+  type PendingTransaction,
+  type PendingTransfer,
+} from "@/lib/pending-transactions";
+
+/**
+ * Interval between status checks for in-flight transactions
+ */
+const PENDING_CHECK_MS = 3_000;
+
+/**
+ * Options for signing and submitting a transaction
+ */
+export interface SubmitOptions {
+  /** Ticket from a gasless build, so the relayer co-signs */
+  relayTicket?: string;
+  /** Send details needed to rebuild it if it expires */
+  transfer?: PendingTransfer;
+  /**
+   * Given the sender's signature as soon as it is signed, awaited before
+   * submitting
+   */
+  onSigned?: (signature: string) => void | Promise<void>;
+}
+
+/**
+ * Sign a serialized transaction and submit it, resolving to the confirmed
+ * signature
+ */
+export type SignAndSubmit = (
+  serializedTransaction: string,
+  lastValidBlockHeight: number | undefined,
+  reason: string,
+  options?: SubmitOptions
+) => Promise<string>;
+
+/**
+ * Pending transactions hook options
+ */
+interface PendingTransactionsOptions {
+  cluster: Cluster;
+  /** Called just before a transaction is signed */
+  onSign: () => void;
+  /**
+   * Called with the number of sends restored from a previous session that
+   * landed, which have no submit response to report them; keep it stable
+   */
+  onRestoredConfirmed: (count: number) => void;
+}
+
+/**
+ * Sign and submit transactions as the active account, tracking each send
+ * from signing until it finalizes or expires
+ */
+export function usePendingTransactions({
+  cluster,
+  onSign,
+  onRestoredConfirmed,
+}: PendingTransactionsOptions) {
+  const { wallet, signTransaction } = useWallet();
+  const [pendingTransactions, setPendingTransactions] = useState<
+    PendingTransaction[]
+  >([]);
+
+  // In-flight transactions restored from a previous session
+  const restoredPendingRef = useRef(new Set<string>());
+
+  /**
+   * Update the pending transactions and persist them
+   */
+  const updatePendingTransactions = useCallback(
+    (update: (transactions: PendingTransaction[]) => PendingTransaction[]) => {
+      setPendingTransactions((prev) => {
+        const next = update(prev);
+        if (wallet?.address) savePendingTransactions(wallet.address, next);
+        return next;
+      });
+    },
+    [wallet?.address]
+  );
+
+  /**
+   * Restore the active account's pending transactions so their
+   * confirmation tracking resumes
+   */
+  useEffect(() => {
+    if (!wallet?.address) {
+      setPendingTransactions([]);
+      return;
+    }
+    const restored = pruneFinalizedTransactions(
+      loadPendingTransactions(wallet.address)
+    );
+    restoredPendingRef.current = new Set(
+      restored.filter(isInFlight).map((transaction) => transaction.signature)
+    );
+    updatePendingTransactions(() => restored);
+  }, [wallet?.address, updatePendingTransactions]);
+
+  const walletPending = wallet
+    ? getWalletPendingTransactions(pendingTransactions, wallet.address, cluster)
+    : [];
+  const inFlightKey = walletPending
+    .filter(isInFlight)
+    .map((transaction) => `${transaction.signature}:${transaction.stage}`)
+    .join(",");
+
+  /**
+   * Check in-flight transactions until they finalize or expire
+   */
+  useEffect(() => {
+    if (!inFlightKey) return;
+    const signatures = inFlightKey.split(",").map((key) => key.split(":")[0]);
+
+    const checkPending = async () => {
+      try {
+        const data = await fetchTransactionStatuses(signatures, cluster);
+        updatePendingTransactions((list) =>
+          pruneFinalizedTransactions(applyStatusResponse(list, data))
+        );
+
+        const landed = data.statuses.filter(
+          (status) =>
+            (status.stage === "confirmed" || status.stage === "finalized") &&
+            restoredPendingRef.current.has(status.signature)
+        );
+        if (landed.length > 0) {
+          landed.forEach((status) =>
+            restoredPendingRef.current.delete(status.signature)
+          );
+          onRestoredConfirmed(landed.length);
+        }
+      } catch (error) {
+        console.error("Failed to check pending transactions:", error);
+      }
+    };
+
+    const timer = window.setInterval(
+      () => void checkPending(),
+      PENDING_CHECK_MS
+    );
+    return () => window.clearInterval(timer);
+  }, [inFlightKey, cluster, updatePendingTransactions, onRestoredConfirmed]);
+
+  /**
+   * Sign a serialized transaction with MetaKeep and submit it server-side
+   * @param serializedTransaction - Base64 transaction from an API route
+   * @param lastValidBlockHeight - Blockhash expiry returned with the transaction
+   * @param reason - Reason shown to the user in the MetaKeep signing prompt
+   * @returns Confirmed transaction signature
+   */
+  const signAndSubmit: SignAndSubmit = async (
+    serializedTransaction,
+    lastValidBlockHeight,
+    reason,
+    options = {}
+  ) => {
+    onSign();
+
+    // Import Solana web3.js dynamically (client-side only)
+    const { VersionedTransaction } = await import("@solana/web3.js");
+
+    // Deserialize the base64 transaction into a VersionedTransaction object
+    const transaction = VersionedTransaction.deserialize(
+      Buffer.from(serializedTransaction, "base64")
+    );
+
+    // Sign as the active account; MetaKeep returns a hex signature
+    const signature = await signTransaction(transaction, reason);
+
+    // Track the send from here on so a reload cannot lose it
+    const senderSignature = bs58.encode(
+      Buffer.from(signature.replace(/^0x/, ""), "hex")
+    );
+    await options.onSigned?.(senderSignature);
+    if (wallet && lastValidBlockHeight !== undefined) {
+      updatePendingTransactions((list) =>
+        addPendingTransaction(list, {
+          signature: senderSignature,
+          txId: null,
+          wallet: wallet.address,
+          cluster,
+          label: reason,
+          transfer: options.transfer ?? null,
+          lastValidBlockHeight,
+        })
+      );
+    }
+
+    // Verify, broadcast and confirm the transaction server-side
+    const submitResponse = await fetch("/api/submit", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        transaction: serializedTransaction,
+        signature,
+        lastValidBlockHeight,
+        relayTicket: options.relayTicket,
+        cluster,
+      }),
+    });
+
+    if (!submitResponse.ok) {
+      // Rejected submits were never broadcast; server errors may have been
+      if (submitResponse.status < 500) {
+        updatePendingTransactions((list) =>
+          removePendingTransaction(list, senderSignature)
+        );
+      }
+      throw await readApiError(submitResponse, "Failed to submit transaction");
+    }
+
+    // Expired and timed out sends stay tracked until their status resolves
+    const submitData = await submitResponse.json();
+    updatePendingTransactions((list) =>
+      submitData.status === "confirmed"
+        ? recordTransactionStatus(list, {
+            signature: senderSignature,
+            txId: submitData.signature,
+            stage: "confirmed",
+            error: null,
+          })
+        : submitData.status === "failed"
+          ? removePendingTransaction(list, senderSignature)
+          : list
+    );
+    if (submitData.status === "expired") {
+      throw new AppError(
+        "TRANSACTION_EXPIRED",
+        "Transaction expired before confirmation, please retry"
+      );
+    }
+    if (submitData.status === "timeout") {
+      throw new AppError(
+        "TRANSACTION_UNCONFIRMED",
+        "Transaction is taking long to confirm"
+      );
+    }
+    if (submitData.status !== "confirmed") {
+      // On-chain failures carry the code decoded from the program error
+      throw new AppError(
+        isErrorCode(submitData.error?.code)
+          ? submitData.error.code
+          : "TRANSACTION_FAILED",
+        submitData.error?.message || "Transaction failed on-chain"
+      );
+    }
+
+    return submitData.signature as string;
+  };
+
+  return {
+    pendingTransactions,
+    walletPending,
+    updatePendingTransactions,
+    signAndSubmit,
+  };
+}
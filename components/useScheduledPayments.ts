@@ -0,0 +1,128 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Cluster } from "@/lib/clusters";
+import { fetchTransactionStatuses } from "@/lib/pending-transactions";
+import {
+  applyRunStatuses,
+  getDueRuns,
+  getPendingRuns,
+  getWalletSchedules,
+  loadSchedules,
+  markMissedRuns,
+  saveSchedules,
+  type ScheduledPayment,
+} from "@/lib/scheduled-payments";
+
+/**
+ * Interval between checks for due and missed scheduled payments
+ */
+const SCHEDULE_CHECK_MS = 60_000;
+
+/**
+ * Interval between status checks for submitted scheduled runs
+ */
+const PENDING_CHECK_MS = 3_000;
+
+/**
+ * Scheduled payments hook options
+ */
+interface ScheduledPaymentsOptions {
+  walletAddress: string | undefined;
+  cluster: Cluster;
+  /** Called once for each batch of runs that became due; keep it stable */
+  onDue: () => void;
+}
+
+/**
+ * Scheduled payments, persisted in localStorage, with the wallet's due runs
+ * Missed runs are marked every minute and submitted runs are settled once
+ * their transaction lands or expires
+ */
+export function useScheduledPayments({
+  walletAddress,
+  cluster,
+  onDue,
+}: ScheduledPaymentsOptions) {
+  // Scheduled payments, with the time due runs are checked against
+  const [schedules, setSchedules] = useState<ScheduledPayment[]>([]);
+  const [scheduleClock, setScheduleClock] = useState(() => Date.now());
+
+  // Scheduled runs already announced
+  const announcedRunsRef = useRef(new Set<string>());
+
+  /**
+   * Update scheduled payments and persist them
+   */
+  const updateSchedules = useCallback(
+    (update: (schedules: ScheduledPayment[]) => ScheduledPayment[]) => {
+      setSchedules((prev) => {
+        const next = update(prev);
+        saveSchedules(next);
+        return next;
+      });
+    },
+    []
+  );
+
+  /**
+   * Load scheduled payments and check for due and missed runs every minute
+   */
+  useEffect(() => {
+    updateSchedules(() => markMissedRuns(loadSchedules()));
+    const timer = window.setInterval(() => {
+      setScheduleClock(Date.now());
+      updateSchedules((list) => markMissedRuns(list));
+    }, SCHEDULE_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [updateSchedules]);
+
+  const walletSchedules = walletAddress
+    ? getWalletSchedules(schedules, walletAddress, cluster)
+    : [];
+
+  // Scheduled runs of this wallet waiting to be signed
+  const dueRuns = getDueRuns(walletSchedules, scheduleClock);
+  const dueRunKey = dueRuns
+    .map(({ schedule, dueAt }) => `${schedule.id}:${dueAt}`)
+    .join(",");
+
+  /**
+   * Announce scheduled runs as they become due
+   */
+  useEffect(() => {
+    const fresh = dueRunKey
+      .split(",")
+      .filter((key) => key && !announcedRunsRef.current.has(key));
+    if (fresh.length === 0) return;
+    fresh.forEach((key) => announcedRunsRef.current.add(key));
+    onDue();
+  }, [dueRunKey, onDue]);
+
+  // Scheduled runs of this wallet submitted without a known outcome
+  const pendingRunKey = getPendingRuns(walletSchedules)
+    .map(({ run }) => run.signature)
+    .join(",");
+
+  /**
+   * Settle pending scheduled runs once their transaction lands or expires
+   */
+  useEffect(() => {
+    if (!pendingRunKey) return;
+    const signatures = pendingRunKey.split(",");
+
+    const checkRuns = async () => {
+      try {
+        const data = await fetchTransactionStatuses(signatures, cluster);
+        updateSchedules((list) => applyRunStatuses(list, data));
+      } catch (error) {
+        console.error("Failed to check scheduled payments:", error);
+      }
+    };
+
+    const timer = window.setInterval(() => void checkRuns(), PENDING_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [pendingRunKey, cluster, updateSchedules]);
+
+  return { schedules, scheduleClock, updateSchedules, dueRuns };
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { getUsdcMint } from "@/lib/tokens";
+import { DEFAULT_CLUSTER } from "@/lib/clusters";
+
+/**
+ * Send details to fill the Send dialog with, e.g. from a scanned request
+ * Token and amount are kept when omitted
+ */
+export interface SendDraft {
+  recipient: string;
+  amount?: string;
+  mint?: string;
+  memo?: string;
+  reference?: string[];
+}
+
+/**
+ * Default amount of a new send
+ */
+const DEFAULT_SEND_AMOUNT = "1.00";
+
+/**
+ * Send dialog form state, kept by the page so scans, contacts and expired
+ * sends can fill it
+ */
+export function useSendForm() {
+  const [recipientInput, setRecipientInput] = useState("");
+  const [amount, setAmount] = useState(DEFAULT_SEND_AMOUNT);
+  const [memo, setMemo] = useState("");
+  const [reference, setReference] = useState<string[]>([]);
+  const [mint, setMint] = useState(getUsdcMint(DEFAULT_CLUSTER));
+  const [gasless, setGasless] = useState(false);
+  const [asLink, setAsLink] = useState(false);
+  const [saveRecipient, setSaveRecipient] = useState(false);
+  const [saveRecipientLabel, setSaveRecipientLabel] = useState("");
+
+  /**
+   * Fill the form with a send to review
+   */
+  const fill = useCallback((draft: SendDraft) => {
+    setRecipientInput(draft.recipient);
+    if (draft.mint) setMint(draft.mint);
+    if (draft.amount) setAmount(draft.amount);
+    setMemo(draft.memo ?? "");
+    setReference(draft.reference ?? []);
+  }, []);
+
+  /**
+   * Clear the form after a send, keeping the token and gasless choice
+   */
+  const reset = useCallback(() => {
+    setRecipientInput("");
+    setAmount(DEFAULT_SEND_AMOUNT);
+    setMemo("");
+    setReference([]);
+    setAsLink(false);
+    setSaveRecipient(false);
+    setSaveRecipientLabel("");
+  }, []);
+
+  return {
+    recipientInput,
+    setRecipientInput,
+    amount,
+    setAmount,
+    memo,
+    setMemo,
+    reference,
+    setReference,
+    mint,
+    setMint,
+    gasless,
+    setGasless,
+    asLink,
+    setAsLink,
+    saveRecipient,
+    setSaveRecipient,
+    saveRecipientLabel,
+    setSaveRecipientLabel,
+    fill,
+    reset,
+  };
+}
+
+/**
+ * Send dialog form state and its setters
+ */
+export type SendForm = ReturnType<typeof useSendForm>;
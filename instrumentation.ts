@@ -0,0 +1,11 @@
+/**
+ * Next.js startup hook
+ * Validates Solana configuration once before the server handles requests
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { validateSolanaConfig } = await import("@/lib/solana-client");
+    validateSolanaConfig();
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Remembered MetaKeep accounts
+ * Keeps every signed-in identity with its cached balances in localStorage,
+ * so the wallet can switch between them without signing in again
+ */
+
+import type { WalletBalances } from "@/lib/balances";
+import type { TokenBalance } from "@/lib/tokens";
+
+/**
+ * localStorage key for the account store
+ */
+const ACCOUNTS_KEY = "walletAccounts";
+
+/**
+ * localStorage key of the single cached wallet kept before accounts existed
+ */
+const LEGACY_WALLET_KEY = "walletData";
+
+/**
+ * Cached wallet of one account
+ */
+export interface WalletData {
+  address: string;
+  email?: string;
+  usdcBalance: number;
+  solBalance: number;
+  usdValue: number;
+  tokens?: TokenBalance[];
+}
+
+/**
+ * Remembered accounts, most recently used first, and the active one
+ */
+export interface AccountStore {
+  activeAddress: string | null;
+  accounts: WalletData[];
+}
+
+/**
+ * Store with no remembered accounts
+ */
+export const EMPTY_ACCOUNT_STORE: AccountStore = {
+  activeAddress: null,
+  accounts: [],
+};
+
+/**
+ * localStorage key for data kept separately per account
+ */
+export function accountStorageKey(base: string, address: string): string {
+  return `${base}:${address}`;
+}
+
+/**
+ * Load remembered accounts, adopting the legacy single cached wallet
+ */
+export function loadAccounts(): AccountStore {
+  try {
+    const raw = localStorage.getItem(ACCOUNTS_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      const accounts: WalletData[] = Array.isArray(parsed.accounts)
+        ? parsed.accounts.filter(
+            (account: WalletData) => typeof account?.address === "string"
+          )
+        : [];
+      const activeAddress = accounts.some(
+        (account) => account.address === parsed.activeAddress
+      )
+        ? parsed.activeAddress
+        : null;
+      return { activeAddress, accounts };
+    }
+
+    const legacy = localStorage.getItem(LEGACY_WALLET_KEY);
+    const wallet: WalletData | null = legacy ? JSON.parse(legacy) : null;
+    if (!wallet?.address) return EMPTY_ACCOUNT_STORE;
+    const store = { activeAddress: wallet.address, accounts: [wallet] };
+    saveAccounts(store);
+    localStorage.removeItem(LEGACY_WALLET_KEY);
+    return store;
+  } catch (error) {
+    console.error("Failed to load accounts:", error);
+    return EMPTY_ACCOUNT_STORE;
+  }
+}
+
+/**
+ * Persist remembered accounts to localStorage
+ */
+export function saveAccounts(store: AccountStore): void {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(store));
+}
+
+/**
+ * The active account, if any
+ */
+export function getActiveAccount(store: AccountStore): WalletData | null {
+  return (
+    store.accounts.find((account) => account.address === store.activeAddress) ??
+    null
+  );
+}
+
+/**
+ * Update an account's cached wallet, or remember a new account
+ * A missing email keeps the one already known for the address
+ */
+export function upsertAccount(
+  store: AccountStore,
+  wallet: WalletData
+): AccountStore {
+  const existing = store.accounts.find(
+    (account) => account.address === wallet.address
+  );
+  const next = { ...wallet, email: wallet.email ?? existing?.email };
+  return {
+    ...store,
+    accounts: existing
+      ? store.accounts.map((account) =>
+          account.address === wallet.address ? next : account
+        )
+      : [...store.accounts, next],
+  };
+}
+
+/**
+ * Make a remembered account active, moving it to the front of the list
+ */
+export function activateAccount(
+  store: AccountStore,
+  address: string
+): AccountStore {
+  const account = store.accounts.find((entry) => entry.address === address);
+  if (!account) return store;
+  return {
+    activeAddress: address,
+    accounts: [
+      account,
+      ...store.accounts.filter((entry) => entry.address !== address),
+    ],
+  };
+}
+
+/**
+ * Forget an account; when it was active, the most recently used remaining
+ * account becomes active
+ */
+export function removeAccount(
+  store: AccountStore,
+  address: string
+): AccountStore {
+  const accounts = store.accounts.filter(
+    (account) => account.address !== address
+  );
+  return {
+    activeAddress:
+      store.activeAddress === address
+        ? (accounts[0]?.address ?? null)
+        : store.activeAddress,
+    accounts,
+  };
+}
+
+/**
+ * Update a remembered account's cached SOL and USDC balances from a
+ * batched /api/balances lookup
+ */
+export function applyAccountBalances(
+  store: AccountStore,
+  balances: WalletBalances,
+  usdcMint: string | null
+): AccountStore {
+  const usdc = balances.tokens.find((token) => token.mint === usdcMint);
+  return {
+    ...store,
+    accounts: store.accounts.map((account) =>
+      account.address === balances.address
+        ? {
+            ...account,
+            solBalance: balances.sol.uiAmount,
+            usdcBalance: usdc?.uiAmount ?? 0,
+            usdValue: usdc?.uiAmount ?? 0,
+          }
+        : account
+    ),
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Activity export
+ * USDC movements for a date range with opening and closing balances, and
+ * their CSV, JSON and accounting CSV renderings
+ */
+
+import type { Cluster } from "@/lib/clusters";
+import { readApiError } from "@/lib/errors";
+import type { HistoryDirection } from "@/lib/history";
+
+/**
+ * Longest date range one export may cover
+ */
+export const MAX_EXPORT_RANGE_DAYS = 366;
+
+/**
+ * Download formats offered by the export dialog
+ */
+export type ExportFormat = "csv" | "json" | "accounting";
+
+/**
+ * One USDC movement of the owner; amounts are decimal strings, negative
+ * for outflows, and the fee is the SOL the owner paid for the transaction
+ */
+export interface ExportEntry {
+  signature: string;
+  blockTime: number;
+  direction: HistoryDirection;
+  counterparty: string | null;
+  amount: string;
+  balance: string;
+  fee: string;
+  memo: string | null;
+}
+
+/**
+ * Response body of /api/history/export
+ * from and to are unix seconds, to exclusive; entries are oldest first
+ */
+export interface ActivityExport {
+  address: string;
+  cluster: Cluster;
+  symbol: string;
+  from: number;
+  to: number;
+  openingBalance: string;
+  closingBalance: string;
+  totalIn: string;
+  totalOut: string;
+  totalFees: string;
+  entries: ExportEntry[];
+}
+
+/**
+ * Quote a CSV field if it contains separators or quotes, and defuse values
+ * spreadsheets would evaluate as formulas
+ */
+function escapeCsvField(value: string): string {
+  const safe =
+    /^[=+\-@\t\r]/.test(value) && !/^-?\d/.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Join rows of fields into CSV text
+ */
+function toCsvText(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\n");
+}
+
+/**
+ * Pad a number to two digits
+ */
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Format unix seconds as an ISO 8601 UTC timestamp
+ */
+const toIsoTime = (blockTime: number) =>
+  new Date(blockTime * 1000).toISOString();
+
+/**
+ * Describe an entry for statements and accounting imports
+ */
+export function describeExportEntry(
+  entry: ExportEntry,
+  symbol: string,
+  contactNames: Record<string, string> = {}
+): string {
+  const counterparty = entry.counterparty
+    ? (contactNames[entry.counterparty] ?? entry.counterparty)
+    : null;
+  const description =
+    entry.direction === "send"
+      ? `${symbol} sent${counterparty ? ` to ${counterparty}` : ""}`
+      : entry.direction === "receive"
+        ? `${symbol} received${counterparty ? ` from ${counterparty}` : ""}`
+        : `${symbol} ${entry.amount.startsWith("-") ? "out" : "in"}`;
+  return entry.memo ? `${description}: ${entry.memo}` : description;
+}
+
+/**
+ * Full export as CSV, one row per movement
+ */
+export function formatExportCsv(data: ActivityExport): string {
+  return toCsvText([
+    [
+      "date",
+      "signature",
+      "direction",
+      "counterparty",
+      `amount_${data.symbol.toLowerCase()}`,
+      `balance_${data.symbol.toLowerCase()}`,
+      "fee_sol",
+      "memo",
+    ],
+    ...data.entries.map((entry) => [
+      toIsoTime(entry.blockTime),
+      entry.signature,
+      entry.direction,
+      entry.counterparty ?? "",
+      entry.amount,
+      entry.balance,
+      entry.fee,
+      entry.memo ?? "",
+    ]),
+  ]);
+}
+
+/**
+ * Full export as JSON, including balances and totals
+ */
+export function formatExportJson(data: ActivityExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Bank statement CSV for QuickBooks and Xero imports: Date (MM/DD/YYYY in
+ * UTC), signed Amount, Payee, Description and the signature as Reference
+ */
+export function formatAccountingCsv(
+  data: ActivityExport,
+  contactNames: Record<string, string> = {}
+): string {
+  return toCsvText([
+    ["Date", "Amount", "Payee", "Description", "Reference"],
+    ...data.entries.map((entry) => {
+      const date = new Date(entry.blockTime * 1000);
+      return [
+        `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`,
+        entry.amount,
+        entry.counterparty
+          ? (contactNames[entry.counterparty] ?? entry.counterparty)
+          : "",
+        describeExportEntry(entry, data.symbol),
+        entry.signature,
+      ];
+    }),
+  ]);
+}
+
+/**
+ * Render an export in a download format
+ * @returns File contents, MIME type and file extension
+ */
+export function renderExport(
+  data: ActivityExport,
+  format: ExportFormat,
+  contactNames: Record<string, string> = {}
+): { contents: string; type: string; extension: string } {
+  switch (format) {
+    case "json":
+      return {
+        contents: formatExportJson(data),
+        type: "application/json",
+        extension: "json",
+      };
+    case "accounting":
+      return {
+        contents: formatAccountingCsv(data, contactNames),
+        type: "text/csv",
+        extension: "csv",
+      };
+    default:
+      return {
+        contents: formatExportCsv(data),
+        type: "text/csv",
+        extension: "csv",
+      };
+  }
+}
+
+/**
+ * Unix-second bounds of a calendar month in local time
+ * @param month - Month as YYYY-MM
+ * @returns Range with to exclusive, or null for an invalid month
+ */
+export function getMonthRange(
+  month: string
+): { from: number; to: number } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  return {
+    from: new Date(year, monthIndex, 1).getTime() / 1000,
+    to: new Date(year, monthIndex + 1, 1).getTime() / 1000,
+  };
+}
+
+/**
+ * Fetch the owner's USDC movements for a range
+ * @param from - Range start in unix seconds
+ * @param to - Range end in unix seconds, exclusive
+ */
+export async function fetchActivityExport(
+  address: string,
+  cluster: Cluster,
+  from: number,
+  to: number
+): Promise<ActivityExport> {
+  const params = new URLSearchParams({
+    address,
+    cluster,
+    from: String(Math.floor(from)),
+    to: String(Math.floor(to)),
+  });
+  const response = await fetch(`/api/history/export?${params.toString()}`);
+  if (!response.ok) {
+    throw await readApiError(response, "Failed to export activity");
+  }
+  return response.json();
+}
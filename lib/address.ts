@@ -0,0 +1,16 @@
+/**
+ * Solana address helpers
+ */
+
+import bs58 from "bs58";
+
+/**
+ * Check that a string is a base58-encoded 32-byte public key
+ */
+export function isValidAddress(address: string): boolean {
+  try {
+    return bs58.decode(address).length === 32;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Decimal amount helpers
+ * Converts between UI amount strings and integer base units without floats
+ */
+
+/**
+ * Non-negative decimal amount without exponent notation
+ */
+const AMOUNT_REGEX = /^\d+(\.\d+)?$/;
+
+/**
+ * Validate a decimal amount string against a mint's decimals
+ * Returns an error message, or null if the amount is a positive amount the mint can represent
+ */
+export function validateAmount(
+  amount: string,
+  decimals: number
+): string | null {
+  if (!AMOUNT_REGEX.test(amount)) return "Enter a valid amount";
+  const fraction = amount.split(".")[1] ?? "";
+  if (fraction.length > decimals) {
+    return decimals === 0
+      ? "This token does not support fractional amounts"
+      : `Amount supports at most ${decimals} decimal places`;
+  }
+  if (!/[1-9]/.test(amount)) return "Amount must be greater than zero";
+  return null;
+}
+
+/**
+ * Convert a decimal amount string into base units
+ * Returns null if the amount is malformed or has more fractional digits than the mint allows
+ */
+export function toBaseUnits(amount: string, decimals: number): bigint | null {
+  if (!AMOUNT_REGEX.test(amount)) return null;
+  const [whole, fraction = ""] = amount.split(".");
+  if (fraction.length > decimals) return null;
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+}
+
+/**
+ * Format a UI amount held as a number, truncating like formatBaseUnits
+ * instead of rounding up as toFixed does
+ * @param uiAmount - Amount read from a balance formatted with these decimals
+ */
+export function formatUiAmount(
+  uiAmount: number,
+  decimals: number,
+  maxFractionDigits: number,
+  minFractionDigits = maxFractionDigits
+): string {
+  return formatBaseUnits(
+    BigInt(Math.round(uiAmount * 10 ** decimals)),
+    decimals,
+    maxFractionDigits,
+    minFractionDigits
+  );
+}
+
+/**
+ * Format base units as a decimal string
+ * @param amount - Amount in base units, as a bigint or integer string
+ * @param decimals - Mint decimals
+ * @param maxFractionDigits - Truncate, never round up, to this many fractional digits
+ * @param minFractionDigits - Pad with trailing zeros to this many fractional digits
+ */
+export function formatBaseUnits(
+  amount: bigint | string,
+  decimals: number,
+  maxFractionDigits = decimals,
+  minFractionDigits = 0
+): string {
+  const value = BigInt(amount);
+  const negative = value < BigInt(0);
+  const magnitude = negative ? -value : value;
+  const scale = BigInt(10) ** BigInt(decimals);
+  const fraction = (magnitude % scale)
+    .toString()
+    .padStart(decimals, "0")
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, "")
+    .padEnd(Math.min(minFractionDigits, maxFractionDigits), "0");
+  const whole = (magnitude / scale).toString();
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
@@ -0,0 +1,55 @@
+/**
+ * API route error responses
+ * Wraps the shared error codes in JSON responses with matching HTTP status
+ */
+
+import { NextResponse } from "next/server";
+import { ENABLED_CLUSTERS } from "@/lib/clusters";
+import {
+  ERROR_STATUS,
+  getErrorCode,
+  type ApiErrorBody,
+  type ErrorCode,
+} from "@/lib/errors";
+
+/**
+ * Build a JSON error response for a code
+ * @param code - Shared error code, which also selects the HTTP status
+ * @param error - Short description of what failed
+ * @param message - Optional detail for the user
+ * @param init - Extra response options such as headers
+ */
+export function errorResponse(
+  code: ErrorCode,
+  error: string,
+  message?: string,
+  init?: ResponseInit
+) {
+  const body: ApiErrorBody = message
+    ? { error, code, message }
+    : { error, code };
+  return NextResponse.json(body, { ...init, status: ERROR_STATUS[code] });
+}
+
+/**
+ * Build a JSON error response for an unexpected thrown value
+ * RPC failures are reported as RPC_UNAVAILABLE, anything else as INTERNAL_ERROR
+ */
+export function toErrorResponse(error: unknown, description: string) {
+  return errorResponse(
+    getErrorCode(error),
+    description,
+    error instanceof Error ? error.message : "Unknown error"
+  );
+}
+
+/**
+ * Error response for a cluster outside the allow-list
+ */
+export function unsupportedClusterResponse() {
+  return errorResponse(
+    "INVALID_REQUEST",
+    "Unsupported cluster",
+    `Expected one of ${ENABLED_CLUSTERS.join(", ")}`
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * Live balance stream types
+ * Event payloads sent by /api/balances/stream, shared with the client
+ */
+
+/**
+ * Name of the SSE event carrying a BalanceUpdate
+ */
+export const BALANCE_EVENT = "balance";
+
+/**
+ * Balance of one watched asset after a change
+ * Amounts are in base units; mint is null for SOL. The first update for each
+ * asset carries a zero delta and syncs the client with the chain.
+ */
+export interface BalanceUpdate {
+  mint: string | null;
+  symbol: string;
+  decimals: number;
+  amount: string;
+  delta: string;
+  uiAmount: number;
+}
@@ -0,0 +1,208 @@
+/**
+ * Batched balance lookups
+ * Reads SOL and registered token balances for many wallets with a few
+ * getMultipleAccountsInfo calls, cached briefly per wallet
+ */
+
+import { Connection, PublicKey, type AccountInfo } from "@solana/web3.js";
+import {
+  AccountLayout,
+  ACCOUNT_SIZE,
+  getAssociatedTokenAddressSync,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { formatBaseUnits } from "@/lib/amount";
+import type { Cluster } from "@/lib/clusters";
+import { createTtlCache } from "@/lib/ttl-cache";
+import { getTokenRegistry } from "@/lib/tokens";
+
+/**
+ * Maximum number of wallets per request
+ */
+export const MAX_BALANCE_ADDRESSES = 100;
+
+/**
+ * getMultipleAccountsInfo accepts at most 100 keys per call
+ */
+const ACCOUNT_LOOKUP_CHUNK = 100;
+
+/**
+ * How long a wallet's balances are served from the cache
+ */
+const BALANCE_CACHE_TTL_MS = Number(process.env.BALANCE_CACHE_TTL_MS || 5_000);
+
+/**
+ * Balance of one asset in base and UI units
+ */
+export interface AssetBalance {
+  amount: string;
+  uiAmount: number;
+}
+
+/**
+ * Registered token balance held by a wallet
+ */
+export interface WalletTokenBalance extends AssetBalance {
+  mint: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Balances of one wallet and the slot they were read at
+ */
+export interface WalletBalances {
+  address: string;
+  slot: number;
+  sol: AssetBalance;
+  tokens: WalletTokenBalance[];
+}
+
+/**
+ * Response of /api/balances for multiple addresses
+ */
+export interface MultiBalanceResponse {
+  slot: number;
+  balances: WalletBalances[];
+}
+
+/**
+ * Fetch accounts in chunks, returning each account with the slot it was read at
+ */
+async function fetchAccounts(
+  connection: Connection,
+  keys: PublicKey[]
+): Promise<{ info: AccountInfo<Buffer> | null; slot: number }[]> {
+  const chunks: PublicKey[][] = [];
+  for (let i = 0; i < keys.length; i += ACCOUNT_LOOKUP_CHUNK) {
+    chunks.push(keys.slice(i, i + ACCOUNT_LOOKUP_CHUNK));
+  }
+
+  const results = await Promise.all(
+    chunks.map((chunk) => connection.getMultipleAccountsInfoAndContext(chunk))
+  );
+  return results.flatMap(({ context, value }) =>
+    value.map((info) => ({ info, slot: context.slot }))
+  );
+}
+
+/**
+ * Read the token amount of a token account, zero if it does not exist
+ */
+function readTokenAmount(info: AccountInfo<Buffer> | null): bigint {
+  if (
+    !info ||
+    !info.owner.equals(TOKEN_PROGRAM_ID) ||
+    info.data.length < ACCOUNT_SIZE
+  ) {
+    return BigInt(0);
+  }
+  return AccountLayout.decode(info.data.subarray(0, ACCOUNT_SIZE)).amount;
+}
+
+/**
+ * Load balances for wallets without caching
+ * Owners, their associated token accounts for every registered token and the
+ * token mints (for on-chain decimals) are read together
+ */
+async function loadBalances(
+  connection: Connection,
+  cluster: Cluster,
+  addresses: string[]
+): Promise<Map<string, WalletBalances>> {
+  const registry = getTokenRegistry(cluster);
+  const owners = addresses.map((address) => new PublicKey(address));
+  const mints = registry.map((token) => new PublicKey(token.mint));
+  const tokenAccounts = owners.flatMap((owner) =>
+    mints.map((mint) => getAssociatedTokenAddressSync(mint, owner, true))
+  );
+
+  const accounts = await fetchAccounts(connection, [
+    ...mints,
+    ...owners,
+    ...tokenAccounts,
+  ]);
+  const mintAccounts = accounts.slice(0, mints.length);
+  const ownerAccounts = accounts.slice(
+    mints.length,
+    mints.length + owners.length
+  );
+  const tokenAccountInfos = accounts.slice(mints.length + owners.length);
+
+  // Prefer on-chain decimals; tokens whose mint is missing are skipped
+  const decimals = mintAccounts.map(({ info }) =>
+    info && info.data.length >= MINT_SIZE
+      ? MintLayout.decode(info.data.subarray(0, MINT_SIZE)).decimals
+      : null
+  );
+
+  const balances = new Map<string, WalletBalances>();
+  addresses.forEach((address, ownerIndex) => {
+    const owner = ownerAccounts[ownerIndex];
+    const ownTokenAccounts = tokenAccountInfos.slice(
+      ownerIndex * mints.length,
+      (ownerIndex + 1) * mints.length
+    );
+    const lamports = BigInt(owner.info?.lamports ?? 0);
+
+    const tokens: WalletTokenBalance[] = [];
+    registry.forEach((token, tokenIndex) => {
+      const tokenDecimals = decimals[tokenIndex];
+      if (tokenDecimals === null) return;
+      const amount = readTokenAmount(ownTokenAccounts[tokenIndex].info);
+      tokens.push({
+        mint: token.mint,
+        symbol: token.symbol,
+        decimals: tokenDecimals,
+        amount: amount.toString(),
+        uiAmount: Number(formatBaseUnits(amount, tokenDecimals)),
+      });
+    });
+
+    balances.set(address, {
+      address,
+      slot: Math.min(
+        owner.slot,
+        ...ownTokenAccounts.map((account) => account.slot)
+      ),
+      sol: {
+        amount: lamports.toString(),
+        uiAmount: Number(formatBaseUnits(lamports, 9)),
+      },
+      tokens,
+    });
+  });
+  return balances;
+}
+
+const balanceCache = createTtlCache<WalletBalances>(BALANCE_CACHE_TTL_MS);
+
+/**
+ * Balances for many wallets, served from a short-lived cache
+ * Concurrent requests for the same wallet share one RPC lookup
+ * @param addresses - Valid, de-duplicated wallet addresses
+ */
+export async function getWalletBalances(
+  connection: Connection,
+  cluster: Cluster,
+  addresses: string[]
+): Promise<WalletBalances[]> {
+  return balanceCache.getMany(
+    addresses.map((address) => `${cluster}:${address}`),
+    async (keys) => {
+      const loaded = await loadBalances(
+        connection,
+        cluster,
+        keys.map((key) => key.slice(cluster.length + 1))
+      );
+      return new Map(
+        Array.from(loaded, ([address, balances]) => [
+          `${cluster}:${address}`,
+          balances,
+        ])
+      );
+    }
+  );
+}
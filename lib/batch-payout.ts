@@ -0,0 +1,197 @@
+/**
+ * Batch payout helpers
+ * Parses payout CSVs, validates rows and formats the per-row result report
+ */
+
+import { isValidAddress } from "@/lib/address";
+import { validateAmount } from "@/lib/amount";
+import { validateMemo } from "@/lib/memo";
+
+/**
+ * Maximum number of rows accepted in one batch
+ */
+export const MAX_PAYOUT_ROWS = 500;
+
+/**
+ * Payout row sent to /api/token-transfer/batch
+ */
+export interface PayoutRow {
+  to: string;
+  amount: string;
+  memo?: string;
+}
+
+/**
+ * Payout row parsed from a CSV file, with validation errors
+ */
+export interface ParsedPayoutRow extends PayoutRow {
+  line: number;
+  errors: string[];
+}
+
+/**
+ * Transaction in a batch, covering the rows at the given indices
+ */
+export interface BatchTransaction {
+  transaction: string;
+  rows: number[];
+}
+
+/**
+ * Batch transfer response from /api/token-transfer/batch
+ */
+export interface BatchTransferResponse {
+  transactions: BatchTransaction[];
+  lastValidBlockHeight: number;
+}
+
+/**
+ * Outcome of a single payout row; unconfirmed rows were submitted but may
+ * still land, so they are checked by signature before any retry
+ */
+export type PayoutStatus = "confirmed" | "unconfirmed" | "failed" | "skipped";
+
+/**
+ * Per-row payout result for the downloadable report
+ */
+export interface PayoutResult extends PayoutRow {
+  line: number;
+  status: PayoutStatus;
+  signature: string | null;
+  error: string | null;
+  /** Blockhash expiry of an unconfirmed row's transaction */
+  lastValidBlockHeight?: number;
+}
+
+/**
+ * Split one CSV line into fields, honoring double-quoted values
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields.map((field) => field.trim());
+}
+
+/**
+ * Parse a payout CSV with columns to,amount,memo (header row optional)
+ * @param text - CSV file contents
+ * @param decimals - Decimals of the mint being paid out
+ * @returns Parsed rows, each with any validation errors
+ */
+export function parsePayoutCsv(
+  text: string,
+  decimals: number
+): ParsedPayoutRow[] {
+  const lines = text.split(/\r?\n/);
+  const rows: ParsedPayoutRow[] = [];
+  const seen = new Set<string>();
+
+  lines.forEach((raw, index) => {
+    if (!raw.trim()) return;
+
+    const [to = "", amount = "", memo = ""] = splitCsvLine(raw);
+
+    // Skip a header row
+    if (rows.length === 0 && to.toLowerCase() === "to") return;
+
+    const errors: string[] = [];
+    if (!isValidAddress(to)) {
+      errors.push("Invalid address");
+    } else if (seen.has(to)) {
+      errors.push("Duplicate recipient");
+    }
+    seen.add(to);
+
+    const amountError = validateAmount(amount, decimals);
+    if (amountError) {
+      errors.push(amountError);
+    }
+
+    const memoError = memo ? validateMemo(memo) : null;
+    if (memoError) {
+      errors.push(memoError);
+    }
+
+    rows.push({
+      line: index + 1,
+      to,
+      amount,
+      memo: memo || undefined,
+      errors,
+    });
+  });
+
+  if (rows.length > MAX_PAYOUT_ROWS) {
+    rows
+      .slice(MAX_PAYOUT_ROWS)
+      .forEach((row) =>
+        row.errors.push(`Batch limit is ${MAX_PAYOUT_ROWS} rows`)
+      );
+  }
+
+  return rows;
+}
+
+/**
+ * Quote a CSV field if it contains separators or quotes
+ */
+function escapeCsvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format payout rows as a CSV accepted by parsePayoutCsv
+ */
+export function formatPayoutCsv(rows: PayoutRow[]): string {
+  return rows
+    .map((row) =>
+      [row.to, row.amount, row.memo ?? ""].map(escapeCsvField).join(",")
+    )
+    .join("\n");
+}
+
+/**
+ * Format payout results as a CSV report
+ */
+export function formatPayoutReport(results: PayoutResult[]): string {
+  const header = "line,to,amount,memo,status,signature,error";
+  const lines = results.map((result) =>
+    [
+      String(result.line),
+      result.to,
+      result.amount,
+      result.memo ?? "",
+      result.status,
+      result.signature ?? "",
+      result.error ?? "",
+    ]
+      .map(escapeCsvField)
+      .join(",")
+  );
+
+  return [header, ...lines].join("\n");
+}
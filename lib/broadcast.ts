@@ -0,0 +1,174 @@
+/**
+ * Transaction broadcast helpers
+ * Rebroadcasts a signed transaction until it confirms or its blockhash expires
+ */
+
+import type {
+  Connection,
+  SimulatedTransactionResponse,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  decodeTransactionError,
+  type DecodedTransactionError,
+} from "@/lib/transaction-errors";
+
+/**
+ * Final outcome of a broadcast
+ * Expired transactions can no longer land; timed out ones were still
+ * unconfirmed when the broadcast gave up and may land later
+ */
+export type BroadcastStatus = "confirmed" | "expired" | "failed" | "timeout";
+
+/**
+ * Structured broadcast result returned to the client
+ */
+export interface BroadcastResult {
+  status: BroadcastStatus;
+  signature: string;
+  error: DecodedTransactionError | null;
+  logs: string[] | null;
+}
+
+/**
+ * Delay between rebroadcasts and status checks
+ */
+const REBROADCAST_INTERVAL_MS = 2_000;
+
+/**
+ * Upper bound on how long a single broadcast may run
+ */
+const MAX_BROADCAST_DURATION_MS = 90_000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Check whether a signature has reached confirmed commitment
+ * Returns null while the transaction is still unknown or processing
+ */
+async function checkSignature(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  signature: string
+): Promise<BroadcastResult | null> {
+  const { value } = await connection.getSignatureStatuses([signature], {
+    searchTransactionHistory: true,
+  });
+  const status = value[0];
+
+  if (!status) return null;
+
+  if (status.err) {
+    return {
+      status: "failed",
+      signature,
+      error: decodeTransactionError(status.err, transaction.message),
+      logs: null,
+    };
+  }
+
+  if (
+    status.confirmationStatus === "confirmed" ||
+    status.confirmationStatus === "finalized"
+  ) {
+    return { status: "confirmed", signature, error: null, logs: null };
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a transaction's blockhash can no longer land
+ * A last valid block height from the client is only a hint: one reported too
+ * low must not end a broadcast early, so the node confirms the expiry
+ */
+async function hasExpired(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  lastValidBlockHeight?: number
+): Promise<boolean> {
+  if (
+    lastValidBlockHeight !== undefined &&
+    (await connection.getBlockHeight("confirmed")) <= lastValidBlockHeight
+  ) {
+    return false;
+  }
+  const { value: valid } = await connection.isBlockhashValid(
+    transaction.message.recentBlockhash,
+    { commitment: "confirmed" }
+  );
+  return !valid;
+}
+
+/**
+ * Simulate, broadcast and confirm a fully signed transaction
+ * @param connection - Solana RPC connection
+ * @param transaction - Signed versioned transaction
+ * @param lastValidBlockHeight - Block height after which the blockhash expires, if known
+ * @returns Broadcast result with confirmed, expired, failed or timeout status
+ */
+export async function broadcastTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  lastValidBlockHeight?: number
+): Promise<BroadcastResult> {
+  const signature = bs58.encode(transaction.signatures[0]);
+
+  // Run preflight ourselves so failures come back as structured errors
+  const simulation: SimulatedTransactionResponse = (
+    await connection.simulateTransaction(transaction, { sigVerify: true })
+  ).value;
+
+  if (simulation.err) {
+    return {
+      status: "failed",
+      signature,
+      error: decodeTransactionError(simulation.err, transaction.message),
+      logs: simulation.logs ?? null,
+    };
+  }
+
+  const rawTransaction = transaction.serialize();
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < MAX_BROADCAST_DURATION_MS) {
+    await connection.sendRawTransaction(rawTransaction, {
+      skipPreflight: true,
+      maxRetries: 0,
+    });
+
+    await sleep(REBROADCAST_INTERVAL_MS);
+
+    const result = await checkSignature(connection, transaction, signature);
+    if (result) return result;
+
+    // Stop rebroadcasting once the blockhash can no longer land
+    if (await hasExpired(connection, transaction, lastValidBlockHeight)) {
+      // The transaction may have landed just before expiry
+      const finalCheck = await checkSignature(
+        connection,
+        transaction,
+        signature
+      );
+      return (
+        finalCheck ?? { status: "expired", signature, error: null, logs: null }
+      );
+    }
+  }
+
+  // Out of time: only report expiry once the blockhash has really expired
+  const finalCheck = await checkSignature(connection, transaction, signature);
+  if (finalCheck) return finalCheck;
+  const expired = await hasExpired(
+    connection,
+    transaction,
+    lastValidBlockHeight
+  );
+  return {
+    status: expired ? "expired" : "timeout",
+    signature,
+    error: null,
+    logs: null,
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Solana cluster configuration
+ * RPC endpoint, USDC mint, faucets and explorer links for each cluster
+ */
+
+/**
+ * Supported Solana clusters
+ */
+export type Cluster = "devnet" | "testnet" | "mainnet-beta" | "localnet";
+
+/**
+ * Block explorers that links can be generated for
+ */
+export type Explorer = "solana-explorer" | "solscan" | "solanafm";
+
+/**
+ * Per-cluster settings
+ */
+export interface ClusterConfig {
+  cluster: Cluster;
+  label: string;
+  rpcUrl: string;
+  usdcMint: string;
+  faucets: {
+    sol: string | null;
+    usdc: string | null;
+  };
+}
+
+/**
+ * Cluster settings; USDC mints are empty where no USDC mint is configured
+ */
+const CLUSTER_CONFIGS: Record<Cluster, ClusterConfig> = {
+  devnet: {
+    cluster: "devnet",
+    label: "Devnet",
+    rpcUrl: "https://api.devnet.solana.com",
+    usdcMint:
+      process.env.NEXT_PUBLIC_USDC_MINT_ADDRESS ||
+      "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+    faucets: {
+      sol: "https://faucet.solana.com/",
+      usdc: "https://faucet.circle.com/",
+    },
+  },
+  testnet: {
+    cluster: "testnet",
+    label: "Testnet",
+    rpcUrl: "https://api.testnet.solana.com",
+    usdcMint: process.env.NEXT_PUBLIC_TESTNET_USDC_MINT_ADDRESS || "",
+    faucets: { sol: "https://faucet.solana.com/", usdc: null },
+  },
+  "mainnet-beta": {
+    cluster: "mainnet-beta",
+    label: "Mainnet",
+    rpcUrl: "https://api.mainnet-beta.solana.com",
+    usdcMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    faucets: { sol: null, usdc: null },
+  },
+  localnet: {
+    cluster: "localnet",
+    label: "Localnet",
+    rpcUrl: "http://127.0.0.1:8899",
+    usdcMint: process.env.NEXT_PUBLIC_LOCALNET_USDC_MINT_ADDRESS || "",
+    faucets: { sol: null, usdc: null },
+  },
+};
+
+/**
+ * Check whether a value names a supported cluster
+ */
+export function isCluster(value: unknown): value is Cluster {
+  return typeof value === "string" && value in CLUSTER_CONFIGS;
+}
+
+/**
+ * Clusters users may select, from NEXT_PUBLIC_SOLANA_CLUSTERS (comma-separated)
+ */
+export const ENABLED_CLUSTERS: Cluster[] = (
+  process.env.NEXT_PUBLIC_SOLANA_CLUSTERS || "devnet,testnet,mainnet-beta"
+)
+  .split(",")
+  .map((cluster) => cluster.trim())
+  .filter(isCluster);
+
+/**
+ * Cluster used when none is selected
+ */
+export const DEFAULT_CLUSTER: Cluster = isCluster(
+  process.env.NEXT_PUBLIC_SOLANA_CLUSTER
+)
+  ? process.env.NEXT_PUBLIC_SOLANA_CLUSTER
+  : (ENABLED_CLUSTERS[0] ?? "devnet");
+
+/**
+ * Explorer used when none is selected, from NEXT_PUBLIC_EXPLORER
+ */
+export const DEFAULT_EXPLORER: Explorer =
+  process.env.NEXT_PUBLIC_EXPLORER === "solscan" ||
+  process.env.NEXT_PUBLIC_EXPLORER === "solanafm"
+    ? process.env.NEXT_PUBLIC_EXPLORER
+    : "solana-explorer";
+
+/**
+ * Cluster the USDC faucet wallet is funded on, from NEXT_PUBLIC_FAUCET_CLUSTER
+ */
+export const FAUCET_CLUSTER: Cluster = isCluster(
+  process.env.NEXT_PUBLIC_FAUCET_CLUSTER
+)
+  ? process.env.NEXT_PUBLIC_FAUCET_CLUSTER
+  : "devnet";
+
+/**
+ * Explorer display names
+ */
+export const EXPLORER_LABELS: Record<Explorer, string> = {
+  "solana-explorer": "Solana Explorer",
+  solscan: "Solscan",
+  solanafm: "SolanaFM",
+};
+
+/**
+ * Look up the settings for a cluster
+ */
+export function getClusterConfig(cluster: Cluster): ClusterConfig {
+  return CLUSTER_CONFIGS[cluster];
+}
+
+/**
+ * Resolve a cluster request parameter against the allow-list
+ * Missing values fall back to the default cluster; unknown or disabled ones return null
+ */
+export function parseCluster(value: unknown): Cluster | null {
+  if (value === undefined || value === null || value === "") {
+    return DEFAULT_CLUSTER;
+  }
+  return isCluster(value) && ENABLED_CLUSTERS.includes(value) ? value : null;
+}
+
+/**
+ * Cluster query parameter value used by each explorer, or null on mainnet
+ */
+function getExplorerClusterParam(
+  explorer: Explorer,
+  cluster: Cluster
+): string | null {
+  if (cluster === "mainnet-beta") return null;
+  if (explorer === "solanafm") return `${cluster}-solana`;
+  return cluster === "localnet" ? "custom" : cluster;
+}
+
+/**
+ * Build an explorer link for a transaction or account
+ * @param kind - "tx" for a signature, "address" for an account
+ * @param value - Signature or address
+ */
+export function getExplorerUrl(
+  kind: "tx" | "address",
+  value: string,
+  cluster: Cluster,
+  explorer: Explorer = DEFAULT_EXPLORER
+): string {
+  const base =
+    explorer === "solscan"
+      ? `https://solscan.io/${kind === "tx" ? "tx" : "account"}/${value}`
+      : explorer === "solanafm"
+        ? `https://solana.fm/${kind}/${value}`
+        : `https://explorer.solana.com/${kind}/${value}`;
+
+  const params = new URLSearchParams();
+  const clusterParam = getExplorerClusterParam(explorer, cluster);
+  if (clusterParam) params.set("cluster", clusterParam);
+  if (clusterParam === "custom") {
+    params.set("customUrl", CLUSTER_CONFIGS.localnet.rpcUrl);
+  }
+
+  const query = params.toString();
+  return query ? `${base}?${query}` : base;
+}
+
+/**
+ * Network settings a user has chosen
+ */
+export interface NetworkPreference {
+  cluster: Cluster;
+  explorer: Explorer;
+}
+
+/**
+ * localStorage key for network preferences, keyed by wallet address
+ */
+const NETWORK_PREFERENCES_KEY = "networkPreferences";
+
+/**
+ * Load a wallet's network preference, falling back to the defaults
+ */
+export function loadNetworkPreference(address: string): NetworkPreference {
+  const fallback = { cluster: DEFAULT_CLUSTER, explorer: DEFAULT_EXPLORER };
+  try {
+    const raw = localStorage.getItem(NETWORK_PREFERENCES_KEY);
+    const stored = raw ? JSON.parse(raw)[address] : null;
+    if (!stored) return fallback;
+    return {
+      cluster:
+        isCluster(stored.cluster) && ENABLED_CLUSTERS.includes(stored.cluster)
+          ? stored.cluster
+          : fallback.cluster,
+      explorer:
+        stored.explorer in EXPLORER_LABELS
+          ? stored.explorer
+          : fallback.explorer,
+    };
+  } catch (error) {
+    console.error("Failed to load network preference:", error);
+    return fallback;
+  }
+}
+
+/**
+ * Persist a wallet's network preference
+ */
+export function saveNetworkPreference(
+  address: string,
+  preference: NetworkPreference
+): void {
+  let preferences: Record<string, NetworkPreference> = {};
+  try {
+    preferences = JSON.parse(
+      localStorage.getItem(NETWORK_PREFERENCES_KEY) || "{}"
+    );
+  } catch {
+    // Start over from a corrupt entry
+  }
+  preferences[address] = preference;
+  localStorage.setItem(NETWORK_PREFERENCES_KEY, JSON.stringify(preferences));
+}
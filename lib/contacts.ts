@@ -0,0 +1,276 @@
+/**
+ * Address book
+ * Labeled contacts and email-to-address resolutions, persisted in localStorage
+ */
+
+import { accountStorageKey } from "@/lib/accounts";
+import { isValidAddress } from "@/lib/address";
+
+/**
+ * localStorage key for the address book, kept per account
+ */
+const CONTACT_BOOK_KEY = "contactBook";
+
+/**
+ * Saved contact
+ */
+export interface Contact {
+  id: string;
+  label: string;
+  address: string;
+  email?: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+/**
+ * Cached MetaKeep email-to-address resolution
+ */
+export interface ResolvedEmail {
+  address: string;
+  resolvedAt: number;
+}
+
+/**
+ * Persisted address book
+ */
+export interface ContactBook {
+  contacts: Contact[];
+  resolved: Record<string, ResolvedEmail>;
+}
+
+/**
+ * Contact fields provided when creating or editing a contact
+ */
+export interface ContactInput {
+  label: string;
+  address: string;
+  email?: string;
+}
+
+/**
+ * Empty address book
+ */
+export const EMPTY_CONTACT_BOOK: ContactBook = { contacts: [], resolved: {} };
+
+/**
+ * Normalize an email for lookups
+ */
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Validate contact fields, returning an error message or null
+ */
+export function validateContact(input: ContactInput): string | null {
+  if (!input.label.trim()) return "Label is required";
+  if (!isValidAddress(input.address.trim())) return "Invalid Solana address";
+  if (input.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email.trim())) {
+    return "Invalid email address";
+  }
+  return null;
+}
+
+/**
+ * Load an account's address book from localStorage
+ * The book kept before accounts existed is adopted by the first account
+ * that loads it
+ */
+export function loadContactBook(account: string): ContactBook {
+  try {
+    const key = accountStorageKey(CONTACT_BOOK_KEY, account);
+    let raw = localStorage.getItem(key);
+    if (!raw) {
+      raw = localStorage.getItem(CONTACT_BOOK_KEY);
+      if (!raw) return EMPTY_CONTACT_BOOK;
+      localStorage.setItem(key, raw);
+      localStorage.removeItem(CONTACT_BOOK_KEY);
+    }
+    const parsed = JSON.parse(raw);
+    return {
+      contacts: Array.isArray(parsed.contacts) ? parsed.contacts : [],
+      resolved:
+        parsed.resolved && typeof parsed.resolved === "object"
+          ? parsed.resolved
+          : {},
+    };
+  } catch (error) {
+    console.error("Failed to load contacts:", error);
+    return EMPTY_CONTACT_BOOK;
+  }
+}
+
+/**
+ * Persist an account's address book to localStorage
+ */
+export function saveContactBook(account: string, book: ContactBook): void {
+  localStorage.setItem(
+    accountStorageKey(CONTACT_BOOK_KEY, account),
+    JSON.stringify(book)
+  );
+}
+
+/**
+ * Find a contact by Solana address
+ */
+export function findContactByAddress(
+  book: ContactBook,
+  address: string
+): Contact | undefined {
+  return book.contacts.find((contact) => contact.address === address);
+}
+
+/**
+ * Contacts ordered by most recently used, then by label
+ */
+export function sortContacts(contacts: Contact[]): Contact[] {
+  return [...contacts].sort(
+    (a, b) =>
+      (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0) ||
+      a.label.localeCompare(b.label)
+  );
+}
+
+/**
+ * Look up the address MetaKeep returned for an email earlier
+ * Contact emails are not used, since imported contacts can pair any email
+ * with any address
+ */
+export function getCachedAddress(
+  book: ContactBook,
+  email: string
+): string | null {
+  return book.resolved[normalizeEmail(email)]?.address ?? null;
+}
+
+/**
+ * Record a MetaKeep email-to-address resolution
+ */
+export function cacheResolvedEmail(
+  book: ContactBook,
+  email: string,
+  address: string
+): ContactBook {
+  return {
+    ...book,
+    resolved: {
+      ...book.resolved,
+      [normalizeEmail(email)]: { address, resolvedAt: Date.now() },
+    },
+  };
+}
+
+/**
+ * Add a contact, or update the existing contact with the same id or address
+ */
+export function upsertContact(
+  book: ContactBook,
+  input: ContactInput,
+  id?: string
+): ContactBook {
+  const fields = {
+    label: input.label.trim(),
+    address: input.address.trim(),
+    email: input.email?.trim() || undefined,
+  };
+  const existing = book.contacts.find((contact) =>
+    id ? contact.id === id : contact.address === fields.address
+  );
+
+  if (existing) {
+    return {
+      ...book,
+      contacts: book.contacts.map((contact) =>
+        contact.id === existing.id ? { ...contact, ...fields } : contact
+      ),
+    };
+  }
+
+  return {
+    ...book,
+    contacts: [
+      ...book.contacts,
+      {
+        id: crypto.randomUUID(),
+        ...fields,
+        createdAt: Date.now(),
+        lastUsedAt: null,
+      },
+    ],
+  };
+}
+
+/**
+ * Remove a contact by id
+ */
+export function removeContact(book: ContactBook, id: string): ContactBook {
+  return {
+    ...book,
+    contacts: book.contacts.filter((contact) => contact.id !== id),
+  };
+}
+
+/**
+ * Mark the contact with this address as just used
+ */
+export function markContactUsed(
+  book: ContactBook,
+  address: string
+): ContactBook {
+  return {
+    ...book,
+    contacts: book.contacts.map((contact) =>
+      contact.address === address
+        ? { ...contact, lastUsedAt: Date.now() }
+        : contact
+    ),
+  };
+}
+
+/**
+ * Export contacts as a JSON document for sharing
+ */
+export function exportContacts(book: ContactBook): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      contacts: book.contacts.map(({ label, address, email }) => ({
+        label,
+        address,
+        email,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Merge contacts from an exported JSON document, matching on address
+ * @returns Updated book and the number of valid contacts imported
+ */
+export function importContacts(
+  book: ContactBook,
+  json: string
+): { book: ContactBook; imported: number } {
+  const parsed = JSON.parse(json);
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : parsed?.contacts;
+  if (!Array.isArray(entries)) {
+    throw new Error("File does not contain a contacts list");
+  }
+
+  let next = book;
+  let imported = 0;
+  for (const entry of entries) {
+    const candidate = entry as Partial<ContactInput>;
+    const input: ContactInput = {
+      label: String(candidate?.label ?? ""),
+      address: String(candidate?.address ?? ""),
+      email: candidate?.email ? String(candidate.email) : undefined,
+    };
+    if (validateContact(input)) continue;
+    next = upsertContact(next, input);
+    imported++;
+  }
+
+  return { book: next, imported };
+}
@@ -0,0 +1,174 @@
+/**
+ * Shared error taxonomy
+ * Codes returned by API routes and raised by client helpers, with the
+ * message and recovery action the UI shows for each
+ */
+
+/**
+ * Machine-readable error codes
+ */
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "INVALID_ADDRESS"
+  | "INVALID_AMOUNT"
+  | "INVALID_MEMO"
+  | "INVALID_TRANSACTION"
+  | "INVALID_SIGNATURE"
+  | "INSUFFICIENT_SOL"
+  | "INSUFFICIENT_TOKEN"
+  | "MINT_NOT_FOUND"
+  | "QUOTE_EXPIRED"
+  | "RATE_LIMITED"
+  | "NOT_CONFIGURED"
+  | "RPC_UNAVAILABLE"
+  | "USER_DENIED"
+  | "SIGNING_FAILED"
+  | "TRANSACTION_FAILED"
+  | "TRANSACTION_EXPIRED"
+  | "TRANSACTION_UNCONFIRMED"
+  | "INTERNAL_ERROR";
+
+/**
+ * HTTP status returned by API routes for each code
+ */
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_ADDRESS: 400,
+  INVALID_AMOUNT: 400,
+  INVALID_MEMO: 400,
+  INVALID_TRANSACTION: 400,
+  INVALID_SIGNATURE: 400,
+  INSUFFICIENT_SOL: 400,
+  INSUFFICIENT_TOKEN: 400,
+  MINT_NOT_FOUND: 400,
+  QUOTE_EXPIRED: 409,
+  RATE_LIMITED: 429,
+  NOT_CONFIGURED: 503,
+  RPC_UNAVAILABLE: 503,
+  USER_DENIED: 400,
+  SIGNING_FAILED: 500,
+  TRANSACTION_FAILED: 400,
+  TRANSACTION_EXPIRED: 409,
+  TRANSACTION_UNCONFIRMED: 504,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * Error body returned by API routes
+ */
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  message?: string;
+}
+
+/**
+ * Error carrying a code, thrown by server helpers and client flows
+ */
+export class AppError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = "AppError";
+    this.code = code;
+  }
+}
+
+/**
+ * Check whether a value is a known error code
+ */
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === "string" && value in ERROR_STATUS;
+}
+
+/**
+ * Network and RPC failures: unreachable endpoints, timeouts, overloaded nodes
+ */
+const RPC_FAILURE_PATTERN =
+  /RPC endpoints unavailable|fetch failed|failed to fetch|network ?error|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|timed out|429 Too Many Requests|\b50[234]\b/i;
+
+/**
+ * Classify any thrown value into an error code
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  if (error instanceof AppError) return error.code;
+  const message = error instanceof Error ? error.message : String(error);
+  return RPC_FAILURE_PATTERN.test(message)
+    ? "RPC_UNAVAILABLE"
+    : "INTERNAL_ERROR";
+}
+
+/**
+ * Turn a failed API response into an AppError
+ * @param response - Non-OK fetch response from an API route
+ * @param fallback - Message used when the body carries none
+ */
+export async function readApiError(
+  response: Response,
+  fallback: string
+): Promise<AppError> {
+  const body: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+  const code = isErrorCode(body.code)
+    ? body.code
+    : response.status >= 500
+      ? "RPC_UNAVAILABLE"
+      : "INVALID_REQUEST";
+  return new AppError(code, body.message || body.error || fallback);
+}
+
+/**
+ * Recovery action offered next to an error
+ */
+export type ErrorRecovery = "GET_SOL" | "GET_TOKEN" | "RETRY";
+
+/**
+ * Fixed user-facing message and recovery action per code
+ * Codes without a message show the error's own message
+ */
+const ERROR_GUIDANCE: Partial<
+  Record<ErrorCode, { message?: string; recovery?: ErrorRecovery }>
+> = {
+  INSUFFICIENT_SOL: {
+    message: "Insufficient SOL for network fees",
+    recovery: "GET_SOL",
+  },
+  INSUFFICIENT_TOKEN: {
+    message: "Insufficient token balance for this transfer",
+    recovery: "GET_TOKEN",
+  },
+  MINT_NOT_FOUND: { message: "This token is not available on this network" },
+  QUOTE_EXPIRED: { message: "The quote expired, request a new one" },
+  RPC_UNAVAILABLE: {
+    message: "Solana network is unreachable, please try again",
+    recovery: "RETRY",
+  },
+  USER_DENIED: { message: "Signing was cancelled" },
+  TRANSACTION_EXPIRED: {
+    message: "Transaction expired before it confirmed",
+    recovery: "RETRY",
+  },
+  TRANSACTION_UNCONFIRMED: {
+    message:
+      "Transaction has not confirmed yet, check your activity before sending again",
+  },
+};
+
+/**
+ * Describe a thrown value for display
+ */
+export function describeError(error: unknown): {
+  code: ErrorCode;
+  message: string;
+  recovery: ErrorRecovery | null;
+} {
+  const code = getErrorCode(error);
+  const guidance = ERROR_GUIDANCE[code];
+  return {
+    code,
+    message:
+      guidance?.message ??
+      (error instanceof Error ? error.message : "Unknown error"),
+    recovery: guidance?.recovery ?? null,
+  };
+}
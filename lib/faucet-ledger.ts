@@ -0,0 +1,81 @@
+/**
+ * Persistent faucet claim ledger
+ * Stores claims as JSON on disk and serializes access within the process
+ */
+
+import path from "path";
+import type { BroadcastStatus } from "@/lib/broadcast";
+import { createJsonLedger, findLastRecord } from "@/lib/json-ledger";
+
+/**
+ * Single recorded faucet claim, recorded as submitted when the faucet signs
+ * and updated once its broadcast settles; claims recorded before statuses
+ * were kept have none and were confirmed
+ */
+export interface FaucetClaim {
+  address: string;
+  /** Client IP, null when no trusted proxy reports it */
+  ip: string | null;
+  amount: number;
+  solLamports: number;
+  signature: string;
+  status?: BroadcastStatus | "submitted";
+  claimedAt: number;
+}
+
+/**
+ * Ledger file location, configurable for deployments with a mounted volume
+ */
+const LEDGER_PATH =
+  process.env.FAUCET_LEDGER_PATH ||
+  path.join(process.cwd(), ".data", "faucet-ledger.json");
+
+const ledger = createJsonLedger<FaucetClaim>(LEDGER_PATH);
+
+/**
+ * Run a ledger operation exclusively so check-then-claim cannot race
+ * @param operation - Receives the current claims and an append callback
+ */
+export function withLedger<T>(
+  operation: (
+    claims: FaucetClaim[],
+    append: (claim: FaucetClaim) => Promise<void>
+  ) => Promise<T>
+): Promise<T> {
+  return ledger.withLedger(operation);
+}
+
+/**
+ * Find the most recent claim matching a predicate
+ * Failed and expired claims paid nothing and are skipped
+ */
+export function findLastClaim(
+  claims: FaucetClaim[],
+  predicate: (claim: FaucetClaim) => boolean
+): FaucetClaim | undefined {
+  return findLastRecord(
+    claims,
+    (claim) =>
+      claim.status !== "failed" &&
+      claim.status !== "expired" &&
+      predicate(claim)
+  );
+}
+
+/**
+ * Record how a claim's broadcast settled
+ */
+export function recordClaimStatus(
+  signature: string,
+  status: BroadcastStatus
+): Promise<void> {
+  return ledger.withLedger(async (claims, _append, commit) => {
+    const claim = findLastRecord(
+      claims,
+      (candidate) => candidate.signature === signature
+    );
+    if (!claim) return;
+    claim.status = status;
+    await commit();
+  });
+}
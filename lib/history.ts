@@ -0,0 +1,398 @@
+/**
+ * Transaction history helpers
+ * Pages through signatures for a wallet and parses them into typed entries
+ */
+
+import type {
+  ConfirmedSignatureInfo,
+  Connection,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+import type { ExportEntry } from "@/lib/activity-export";
+import { formatBaseUnits } from "@/lib/amount";
+import { AppError } from "@/lib/errors";
+
+/**
+ * Direction of a history entry relative to the wallet owner
+ */
+export type HistoryDirection = "send" | "receive" | "self" | "other";
+
+/**
+ * On-chain outcome of a history entry
+ */
+export type HistoryStatus = "success" | "failed";
+
+/**
+ * Parsed transaction history entry
+ */
+export interface HistoryEntry {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  direction: HistoryDirection;
+  counterparty: string | null;
+  /** Amount moved for the owner, in base units of the mint */
+  amount: string;
+  decimals: number;
+  fee: number;
+  status: HistoryStatus;
+  error: string | null;
+  memo: string | null;
+}
+
+/**
+ * Page of history entries returned by /api/history
+ */
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+}
+
+/**
+ * Maximum number of entries returned per page
+ */
+export const MAX_HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Fetch one page of signatures touching any of the given addresses
+ * Results are merged, de-duplicated and sorted newest first
+ */
+export async function fetchSignaturePage(
+  connection: Connection,
+  addresses: PublicKey[],
+  limit: number,
+  before?: string
+): Promise<{
+  signatures: ConfirmedSignatureInfo[];
+  nextCursor: string | null;
+}> {
+  const results = await Promise.all(
+    addresses.map((address) =>
+      connection.getSignaturesForAddress(address, { before, limit })
+    )
+  );
+
+  const bySignature = new Map<string, ConfirmedSignatureInfo>();
+  for (const info of results.flat()) {
+    bySignature.set(info.signature, info);
+  }
+
+  const merged = Array.from(bySignature.values()).sort(
+    (a, b) => b.slot - a.slot
+  );
+  const signatures = merged.slice(0, limit);
+
+  // There is more to load if any address filled its page or we trimmed the merge
+  const hasMore =
+    results.some((list) => list.length === limit) || merged.length > limit;
+
+  return {
+    signatures,
+    nextCursor:
+      hasMore && signatures.length > 0
+        ? signatures[signatures.length - 1].signature
+        : null,
+  };
+}
+
+/**
+ * Sum token balance changes per owner for a single mint, in base units
+ * @returns Deltas by owner and the mint's decimals, 0 when the mint was
+ * not touched
+ */
+export function getTokenDeltas(
+  tx: ParsedTransactionWithMeta,
+  mint: string
+): { deltas: Map<string, bigint>; decimals: number } {
+  const deltas = new Map<string, bigint>();
+  let decimals = 0;
+  const pre = tx.meta?.preTokenBalances ?? [];
+  const post = tx.meta?.postTokenBalances ?? [];
+
+  for (const balance of pre) {
+    if (balance.mint !== mint || !balance.owner) continue;
+    decimals = balance.uiTokenAmount.decimals;
+    const value = BigInt(balance.uiTokenAmount.amount);
+    deltas.set(balance.owner, (deltas.get(balance.owner) ?? BigInt(0)) - value);
+  }
+
+  for (const balance of post) {
+    if (balance.mint !== mint || !balance.owner) continue;
+    decimals = balance.uiTokenAmount.decimals;
+    const value = BigInt(balance.uiTokenAmount.amount);
+    deltas.set(balance.owner, (deltas.get(balance.owner) ?? BigInt(0)) + value);
+  }
+
+  return { deltas, decimals };
+}
+
+/**
+ * Find the memo attached to the owner's transfer
+ * Memos precede their transfer, so batch payouts resolve to each row's memo
+ */
+function getOwnerMemo(
+  tx: ParsedTransactionWithMeta,
+  owner: string
+): string | null {
+  const accountKeys = tx.transaction.message.accountKeys;
+  const ownerAccounts = new Set<string>();
+  for (const balance of [
+    ...(tx.meta?.preTokenBalances ?? []),
+    ...(tx.meta?.postTokenBalances ?? []),
+  ]) {
+    if (balance.owner === owner) {
+      ownerAccounts.add(accountKeys[balance.accountIndex].pubkey.toBase58());
+    }
+  }
+
+  const memos: string[] = [];
+  let pendingMemo: string | null = null;
+  for (const instruction of tx.transaction.message.instructions) {
+    if (!("parsed" in instruction)) continue;
+
+    if (instruction.program === "spl-memo") {
+      pendingMemo = String(instruction.parsed);
+      memos.push(pendingMemo);
+      continue;
+    }
+
+    const { type, info } = instruction.parsed ?? {};
+    if (
+      instruction.program === "spl-token" &&
+      (type === "transfer" || type === "transferChecked") &&
+      (ownerAccounts.has(info?.source) || ownerAccounts.has(info?.destination))
+    ) {
+      if (pendingMemo !== null) return pendingMemo;
+    }
+    if (instruction.program === "spl-token") pendingMemo = null;
+  }
+
+  return memos.length === 1 ? memos[0] : null;
+}
+
+/**
+ * Parse a confirmed transaction into a history entry for the given owner
+ */
+export function parseHistoryEntry(
+  info: ConfirmedSignatureInfo,
+  tx: ParsedTransactionWithMeta | null,
+  owner: string,
+  mint: string
+): HistoryEntry {
+  const entry: HistoryEntry = {
+    signature: info.signature,
+    slot: info.slot,
+    blockTime: info.blockTime ?? null,
+    direction: "other",
+    counterparty: null,
+    amount: "0",
+    decimals: 0,
+    fee: 0,
+    status: info.err ? "failed" : "success",
+    error: info.err ? JSON.stringify(info.err) : null,
+    // Signature info memos are prefixed with their length, e.g. "[5] hello"
+    memo: info.memo ? info.memo.replace(/^\[\d+\] /, "") : null,
+  };
+
+  if (!tx) return entry;
+
+  entry.blockTime = tx.blockTime ?? entry.blockTime;
+  entry.fee = tx.meta?.fee ?? 0;
+  if (tx.meta?.err) {
+    entry.status = "failed";
+    entry.error = JSON.stringify(tx.meta.err);
+  }
+
+  const { deltas, decimals } = getTokenDeltas(tx, mint);
+  const zero = BigInt(0);
+  const ownerDelta = deltas.get(owner) ?? zero;
+
+  // Pick the counterparty with the largest opposite-sign change
+  let counterparty: string | null = null;
+  let counterpartyDelta = zero;
+  for (const [account, delta] of deltas) {
+    if (account === owner) continue;
+    if (
+      ownerDelta < zero ? delta > counterpartyDelta : delta < counterpartyDelta
+    ) {
+      counterparty = account;
+      counterpartyDelta = delta;
+    }
+  }
+
+  if (ownerDelta < zero) {
+    entry.direction = counterparty ? "send" : "other";
+  } else if (ownerDelta > zero) {
+    entry.direction = counterparty ? "receive" : "other";
+  } else if (deltas.has(owner) && deltas.size === 1) {
+    entry.direction = "self";
+  }
+
+  entry.counterparty = counterparty;
+  entry.amount = (ownerDelta < zero ? -ownerDelta : ownerDelta).toString();
+  entry.decimals = decimals;
+  entry.memo = getOwnerMemo(tx, owner) ?? entry.memo;
+
+  return entry;
+}
+
+/**
+ * Decimals of SOL amounts, for fees
+ */
+const SOL_DECIMALS = 9;
+
+/**
+ * Signatures fetched per page when collecting an export
+ */
+const EXPORT_PAGE_SIZE = 50;
+
+/**
+ * Signatures scanned at most for one export, counted from the newest
+ */
+const MAX_EXPORT_SIGNATURES = 2_000;
+
+/**
+ * Owner's total balance of a mint before and after a transaction, in base
+ * units, or null when the transaction did not touch the owner's accounts
+ */
+export function getOwnerTokenBalance(
+  tx: ParsedTransactionWithMeta,
+  owner: string,
+  mint: string
+): { pre: bigint; post: bigint } | null {
+  let touched = false;
+  const total = (balances: TokenBalance[] | null | undefined) =>
+    (balances ?? []).reduce((amount, balance) => {
+      if (balance.mint !== mint || balance.owner !== owner) return amount;
+      touched = true;
+      return amount + BigInt(balance.uiTokenAmount.amount);
+    }, BigInt(0));
+
+  const pre = total(tx.meta?.preTokenBalances);
+  const post = total(tx.meta?.postTokenBalances);
+  return touched ? { pre, post } : null;
+}
+
+/**
+ * Collect the owner's movements of a mint within a time range
+ * Pages back from the newest signature; balances come from the token
+ * balances recorded with each transaction, so they are exact
+ * @param addresses - Owner and token accounts to page signatures for
+ * @param from - Range start in unix seconds
+ * @param to - Range end in unix seconds, exclusive
+ * @returns Movements oldest first, with the balances at from and to and the
+ * totals moved in and out and paid in fees, in base units
+ * @throws AppError INVALID_REQUEST when the range reaches too far back
+ */
+export async function collectActivity(
+  connection: Connection,
+  addresses: PublicKey[],
+  owner: string,
+  mint: string,
+  decimals: number,
+  from: number,
+  to: number
+): Promise<{
+  entries: ExportEntry[];
+  openingBalance: bigint;
+  closingBalance: bigint;
+  totalIn: bigint;
+  totalOut: bigint;
+  totalFees: bigint;
+}> {
+  const entries: ExportEntry[] = [];
+  let openingBalance: bigint | null = null;
+  let closingBalance: bigint | null = null;
+  let totalIn = BigInt(0);
+  let totalOut = BigInt(0);
+  let totalFees = BigInt(0);
+  let before: string | undefined;
+  let scanned = 0;
+
+  const finish = () => {
+    const closing = closingBalance ?? BigInt(0);
+    return {
+      entries: entries.reverse(),
+      openingBalance: openingBalance ?? closing,
+      closingBalance: closing,
+      totalIn,
+      totalOut,
+      totalFees,
+    };
+  };
+
+  do {
+    const { signatures, nextCursor } = await fetchSignaturePage(
+      connection,
+      addresses,
+      EXPORT_PAGE_SIZE,
+      before
+    );
+    scanned += signatures.length;
+    if (scanned > MAX_EXPORT_SIGNATURES) {
+      throw new AppError(
+        "INVALID_REQUEST",
+        "Too many transactions to export, choose a more recent range"
+      );
+    }
+
+    const transactions =
+      signatures.length > 0
+        ? await connection.getParsedTransactions(
+            signatures.map((info) => info.signature),
+            { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+          )
+        : [];
+
+    for (let i = 0; i < signatures.length; i++) {
+      const tx = transactions[i];
+      const blockTime = tx?.blockTime ?? signatures[i].blockTime;
+      if (!tx || !blockTime) continue;
+
+      // Past the range start, only a still unknown closing balance matters
+      if (blockTime < from && closingBalance !== null) return finish();
+
+      const balance = getOwnerTokenBalance(tx, owner, mint);
+      if (!balance) continue;
+
+      // Newer transactions only tell the balance the range closed with
+      if (blockTime >= to) {
+        closingBalance = balance.pre;
+        continue;
+      }
+      if (closingBalance === null) closingBalance = balance.post;
+      if (blockTime < from) return finish();
+
+      openingBalance = balance.pre;
+      if (balance.post === balance.pre) continue;
+
+      const delta = balance.post - balance.pre;
+      if (delta > BigInt(0)) totalIn += delta;
+      else totalOut -= delta;
+
+      // Fees count only when the owner paid them, not a relayer
+      const feePayer = tx.transaction.message.accountKeys[0]?.pubkey;
+      const fee =
+        feePayer?.toBase58() === owner ? BigInt(tx.meta?.fee ?? 0) : BigInt(0);
+      totalFees += fee;
+
+      const entry = parseHistoryEntry(signatures[i], tx, owner, mint);
+      entries.push({
+        signature: entry.signature,
+        blockTime,
+        direction: entry.direction,
+        counterparty: entry.counterparty,
+        amount: formatBaseUnits(delta, decimals),
+        balance: formatBaseUnits(balance.post, decimals),
+        fee: formatBaseUnits(fee, SOL_DECIMALS),
+        memo: entry.memo,
+      });
+    }
+
+    before = nextCursor ?? undefined;
+  } while (before);
+
+  return finish();
+}
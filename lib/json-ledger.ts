@@ -0,0 +1,91 @@
+/**
+ * Persistent JSON ledgers
+ * Stores records as a JSON array on disk and serializes access within the process
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Append-only ledger of records of one type
+ */
+export interface JsonLedger<T> {
+  /**
+   * Run a ledger operation exclusively so check-then-record cannot race
+   * @param operation - Receives the current records, an append callback and a
+   * commit callback that persists records changed in place
+   */
+  withLedger<R>(
+    operation: (
+      records: T[],
+      append: (record: T) => Promise<void>,
+      commit: () => Promise<void>
+    ) => Promise<R>
+  ): Promise<R>;
+
+  /**
+   * Read the current records without waiting for pending operations
+   */
+  read(): Promise<T[]>;
+}
+
+/**
+ * Create a ledger stored at a file path
+ * @param ledgerPath - JSON file holding the records, created on first append
+ */
+export function createJsonLedger<T>(ledgerPath: string): JsonLedger<T> {
+  // Tail of the pending ledger operations, used as a simple mutex
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Read all records from disk, returning an empty ledger if none exists
+  const readRecords = async (): Promise<T[]> => {
+    try {
+      const raw = await fs.readFile(ledgerPath, "utf-8");
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  };
+
+  // Write all records to disk atomically
+  const writeRecords = async (records: T[]): Promise<void> => {
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    const tmpPath = `${ledgerPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records, null, 2));
+    await fs.rename(tmpPath, ledgerPath);
+  };
+
+  return {
+    withLedger(operation) {
+      const run = queue.then(async () => {
+        const records = await readRecords();
+        const append = async (record: T) => {
+          records.push(record);
+          await writeRecords(records);
+        };
+        return operation(records, append, () => writeRecords(records));
+      });
+
+      // Keep the chain alive even if this operation fails
+      queue = run.catch(() => undefined);
+      return run;
+    },
+
+    read: readRecords,
+  };
+}
+
+/**
+ * Find the most recent record matching a predicate
+ */
+export function findLastRecord<T>(
+  records: T[],
+  predicate: (record: T) => boolean
+): T | undefined {
+  for (let i = records.length - 1; i >= 0; i--) {
+    if (predicate(records[i])) return records[i];
+  }
+  return undefined;
+}
@@ -0,0 +1,27 @@
+/**
+ * Server-held keypair helpers
+ */
+
+import { Keypair } from "@solana/web3.js";
+
+/**
+ * Load a keypair from an environment variable
+ * Format: comma-separated array of numbers (e.g., 1,2,3,4,...), brackets optional
+ * @param name - Environment variable name
+ * @returns Keypair, or null when the variable is unset or invalid
+ */
+export function loadKeypairFromEnv(name: string): Keypair | null {
+  const raw = process.env[name];
+  if (!raw) return null;
+
+  try {
+    const bytes = raw
+      .replace(/[[\]\s]/g, "")
+      .split(",")
+      .map((value) => parseInt(value, 10));
+    return Keypair.fromSecretKey(Uint8Array.from(bytes));
+  } catch (error) {
+    console.error(`Invalid ${name}:`, error);
+    return null;
+  }
+}
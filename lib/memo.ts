@@ -0,0 +1,27 @@
+/**
+ * SPL Memo helpers
+ */
+
+/**
+ * Maximum memo size in UTF-8 bytes
+ * Leaves room for ATA creation and the transfer in the same transaction
+ */
+export const MAX_MEMO_BYTES = 256;
+
+/**
+ * Size of a memo in UTF-8 bytes
+ */
+export function getMemoByteLength(memo: string): number {
+  return new TextEncoder().encode(memo).length;
+}
+
+/**
+ * Validate a memo, returning an error message or null
+ */
+export function validateMemo(memo: unknown): string | null {
+  if (typeof memo !== "string") return "Memo must be a string";
+  if (getMemoByteLength(memo) > MAX_MEMO_BYTES) {
+    return `Memo must be at most ${MAX_MEMO_BYTES} bytes`;
+  }
+  return null;
+}
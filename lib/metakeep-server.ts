@@ -0,0 +1,60 @@
+/**
+ * Server-side MetaKeep identity checks
+ * Confirms through the MetaKeep developer API that a wallet address belongs
+ * to an email's MetaKeep account
+ */
+
+import { createHash } from "crypto";
+import { AppError } from "@/lib/errors";
+
+/**
+ * MetaKeep developer API base URL
+ */
+const METAKEEP_API_URL =
+  process.env.METAKEEP_API_URL || "https://api.metakeep.xyz";
+
+/**
+ * Verify that an address is the Solana wallet of an email's MetaKeep account
+ * @returns Stable identity key for the account, a hash of the email so
+ * ledgers do not store it
+ * @throws AppError NOT_CONFIGURED without an API key or when MetaKeep cannot
+ * be reached, INVALID_REQUEST when the address is not the email's wallet
+ */
+export async function verifyMetaKeepIdentity(
+  email: string,
+  address: string
+): Promise<string> {
+  const apiKey = process.env.METAKEEP_API_KEY;
+  if (!apiKey) {
+    throw new AppError("NOT_CONFIGURED", "MetaKeep API key not configured");
+  }
+
+  const normalized = email.trim().toLowerCase();
+  let solAddress: string | undefined;
+  try {
+    const response = await fetch(`${METAKEEP_API_URL}/v3/getWallet`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-api-key": apiKey },
+      body: JSON.stringify({ user: { email: normalized } }),
+    });
+    const data = await response.json();
+    if (!response.ok || data?.status !== "SUCCESS") {
+      throw new Error(`MetaKeep getWallet returned ${data?.status}`);
+    }
+    solAddress = data.wallet?.solAddress;
+  } catch (error) {
+    console.error("Failed to verify MetaKeep identity:", error);
+    throw new AppError(
+      "NOT_CONFIGURED",
+      "Could not verify the MetaKeep account"
+    );
+  }
+
+  if (solAddress !== address) {
+    throw new AppError(
+      "INVALID_REQUEST",
+      "Sender is not the MetaKeep wallet of this account"
+    );
+  }
+  return createHash("sha256").update(normalized).digest("hex");
+}
@@ -0,0 +1,177 @@
+/**
+ * MetaKeep adapter
+ * Waits for the SDK script, creates SDK instances for an identity and maps
+ * MetaKeep statuses onto the shared error codes
+ */
+
+import { AppError } from "@/lib/errors";
+import type {
+  MetaKeep,
+  MetaKeepSignableTransaction,
+  MetaKeepSignResponse,
+  MetaKeepStatus,
+} from "@/types/metakeep";
+
+/**
+ * MetaKeep application ID
+ */
+const METAKEEP_APP_ID =
+  process.env.NEXT_PUBLIC_METAKEEP_APP_ID ||
+  "2ff01bae-613c-4c90-a264-eecd14fb0bc0";
+
+/**
+ * How long to wait for the SDK script before giving up
+ */
+const SDK_LOAD_TIMEOUT_MS = 10_000;
+
+/**
+ * Interval between checks for the SDK global
+ */
+const SDK_POLL_MS = 100;
+
+/**
+ * Wallet identity returned by a MetaKeep sign-in
+ */
+export interface MetaKeepIdentity {
+  address: string;
+  email?: string;
+}
+
+/**
+ * Shared promise for the SDK script, reset when loading times out so a
+ * later call can try again
+ */
+let sdkPromise: Promise<typeof MetaKeep> | null = null;
+
+/**
+ * Wait for the SDK script loaded by the root layout
+ * @throws AppError SIGNING_FAILED when it does not load in time
+ */
+export function loadMetaKeep(): Promise<typeof MetaKeep> {
+  if (sdkPromise) return sdkPromise;
+
+  sdkPromise = new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const check = () => {
+      if (window.MetaKeep) {
+        resolve(window.MetaKeep);
+      } else if (Date.now() - startedAt >= SDK_LOAD_TIMEOUT_MS) {
+        sdkPromise = null;
+        reject(new AppError("SIGNING_FAILED", "MetaKeep SDK not loaded"));
+      } else {
+        window.setTimeout(check, SDK_POLL_MS);
+      }
+    };
+    check();
+  });
+  return sdkPromise;
+}
+
+/**
+ * Create an SDK instance acting as an identity, or as the SDK's current
+ * identity when no email is given
+ */
+async function createSdk(email?: string): Promise<MetaKeep> {
+  const MetaKeepSdk = await loadMetaKeep();
+  return new MetaKeepSdk({
+    appId: METAKEEP_APP_ID,
+    ...(email ? { user: { email } } : {}),
+  });
+}
+
+/**
+ * Turn a non-successful MetaKeep status into an AppError
+ */
+function toStatusError(status: MetaKeepStatus | undefined, action: string) {
+  if (
+    status === "USER_REQUEST_DENIED" ||
+    status === "USER_CONSENT_DENIED" ||
+    status === "OPERATION_CANCELLED"
+  ) {
+    return new AppError("USER_DENIED", `User denied ${action}`);
+  }
+  return new AppError(
+    "SIGNING_FAILED",
+    `MetaKeep ${action} failed (${status ?? "UNKNOWN"})`
+  );
+}
+
+/**
+ * Sign in to MetaKeep and return the wallet's identity
+ * The email is the one requested, else the one MetaKeep reports for the
+ * wallet; it is left unset when neither is known
+ * @param email - Identity to sign in as; omitted, the SDK's current identity
+ */
+export async function connectMetaKeep(
+  email?: string
+): Promise<MetaKeepIdentity> {
+  const sdk = await createSdk(email);
+  const response = await sdk.getWallet();
+  if (response.status !== "SUCCESS" || !response.wallet?.solAddress) {
+    throw toStatusError(response.status, "wallet connection");
+  }
+  return {
+    address: response.wallet.solAddress,
+    email: email ?? response.user?.email,
+  };
+}
+
+/**
+ * Look up the Solana address of a MetaKeep user by email
+ */
+export async function getMetaKeepAddress(email: string): Promise<string> {
+  return (await connectMetaKeep(email)).address;
+}
+
+/**
+ * Read the signature from a successful signing response
+ */
+function readSignature(response: MetaKeepSignResponse, action: string) {
+  if (response?.status !== "SUCCESS") {
+    throw toStatusError(response?.status, action);
+  }
+  if (!response.signature) {
+    throw new AppError(
+      "SIGNING_FAILED",
+      `MetaKeep did not return a ${action} signature`
+    );
+  }
+  return response.signature;
+}
+
+/**
+ * Sign a transaction as an identity
+ * @param reason - Reason shown in the MetaKeep signing prompt
+ * @param email - Identity to sign as; required so the SDK never signs as
+ * whichever identity it last used
+ * @returns Hex signature
+ */
+export async function signMetaKeepTransaction(
+  transaction: MetaKeepSignableTransaction,
+  reason: string,
+  email: string
+): Promise<string> {
+  const sdk = await createSdk(email);
+  return readSignature(
+    await sdk.signTransaction(transaction, reason),
+    "transaction signing"
+  );
+}
+
+/**
+ * Sign a message as an identity
+ * @param reason - Reason shown in the MetaKeep signing prompt
+ * @param email - Identity to sign as, required as for transactions
+ * @returns Hex signature
+ */
+export async function signMetaKeepMessage(
+  message: string,
+  reason: string,
+  email: string
+): Promise<string> {
+  const sdk = await createSdk(email);
+  return readSignature(
+    await sdk.signMessage(message, reason),
+    "message signing"
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * On-chain mint lookups
+ * Amounts are converted with the decimals the mint reports, not the registry
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  getMint,
+  TokenAccountNotFoundError,
+  TokenInvalidAccountOwnerError,
+  TokenInvalidAccountSizeError,
+} from "@solana/spl-token";
+
+/**
+ * Read a mint's decimals from chain
+ * Returns null when no mint account exists at the address
+ */
+export async function fetchMintDecimals(
+  connection: Connection,
+  mint: PublicKey
+): Promise<number | null> {
+  try {
+    const info = await getMint(connection, mint);
+    return info.decimals;
+  } catch (error) {
+    if (
+      error instanceof TokenAccountNotFoundError ||
+      error instanceof TokenInvalidAccountOwnerError ||
+      error instanceof TokenInvalidAccountSizeError
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
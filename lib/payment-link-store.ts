@@ -0,0 +1,473 @@
+/**
+ * Payment link store
+ * Persists link records and their status, and remembers the funding and
+ * sweep transactions the server built so only those are accepted
+ */
+
+import path from "path";
+import { LAMPORTS_PER_SOL, PublicKey, type Connection } from "@solana/web3.js";
+import {
+  AccountLayout,
+  ACCOUNT_SIZE,
+  getAssociatedTokenAddressSync,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import type { Cluster } from "@/lib/clusters";
+import { AppError } from "@/lib/errors";
+import { createJsonLedger } from "@/lib/json-ledger";
+import type {
+  PaymentLinkAction,
+  PaymentLinkStatus,
+  PaymentLinkView,
+} from "@/lib/payment-links";
+import { getUsdcToken } from "@/lib/tokens";
+
+/**
+ * How long a link stays claimable before the sender may reclaim it
+ */
+export const PAYMENT_LINK_TTL_MS =
+  Number(process.env.PAYMENT_LINK_TTL_DAYS || 7) * 24 * 60 * 60 * 1000;
+
+/**
+ * SOL sent to the escrow with the USDC, covering the sweep fee and the
+ * recipient's token account rent; whatever is left goes to the recipient
+ */
+export const PAYMENT_LINK_LAMPORTS = Math.round(
+  Number(process.env.PAYMENT_LINK_SOL || 0.0025) * LAMPORTS_PER_SOL
+);
+
+/**
+ * How long a built sweep can be submitted, and a built link recorded, past
+ * blockhash expiry
+ */
+const PENDING_SWEEP_TTL_MS = 3 * 60 * 1000;
+const PENDING_LINK_TTL_MS = 3 * 60 * 1000;
+
+/**
+ * How long a new link may wait for its funding, well past the expiry of the
+ * funding transaction's blockhash; unfunded links older than this are dropped
+ */
+const UNFUNDED_LINK_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Links waiting for funding allowed per sender and in total, so requests
+ * that are never funded cannot grow the ledger without bound; links are only
+ * recorded once their sender signed the funding, so senders cannot be spoofed
+ */
+const MAX_UNFUNDED_PER_SENDER = 5;
+const MAX_UNFUNDED_LINKS = 500;
+
+/**
+ * Escrows checked per pruning pass, within the RPC multiple accounts limit
+ */
+const PRUNE_BATCH_SIZE = 100;
+
+/**
+ * Sweep submitted for a link, recorded while its outcome is not known
+ */
+export interface SweepAttempt {
+  signature: string;
+  to: string;
+  action: PaymentLinkAction;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * How a submitted sweep ended: dropped sweeps failed or can no longer land
+ */
+export type SweepOutcome = "confirmed" | "dropped" | "unknown";
+
+/**
+ * Persisted payment link; amount is in USDC UI units
+ */
+export interface PaymentLink {
+  id: string;
+  cluster: Cluster;
+  sender: string;
+  escrow: string;
+  mint: string;
+  amount: string;
+  status: PaymentLinkStatus;
+  createdAt: number;
+  expiresAt: number;
+  settledBy: string | null;
+  signature: string | null;
+  settledAt: number | null;
+  /** When the escrow was first seen holding USDC */
+  fundedAt?: number;
+  sweep?: SweepAttempt;
+}
+
+/**
+ * Link built with its funding transaction and not yet recorded
+ */
+export interface PendingLink {
+  link: PaymentLink;
+  message: string;
+}
+
+/**
+ * Sweep built for a link and not yet submitted
+ */
+export interface PendingSweep {
+  message: string;
+  to: string;
+  action: PaymentLinkAction;
+  lastValidBlockHeight: number;
+  createdAt: number;
+}
+
+/**
+ * Ledger file location, configurable for deployments with a mounted volume
+ */
+const LEDGER_PATH =
+  process.env.PAYMENT_LINK_LEDGER_PATH ||
+  path.join(process.cwd(), ".data", "payment-links.json");
+
+const ledger = createJsonLedger<PaymentLink>(LEDGER_PATH);
+
+/**
+ * Sweeps by link id; one pending sweep per link
+ * Kept in memory only: sweeps built before a restart must be built again,
+ * and like the file ledger this assumes a single server process
+ */
+const pendingSweeps = new Map<string, PendingSweep>();
+
+/**
+ * Links by id whose funding was built but not yet signed, kept in memory
+ * only like pending sweeps
+ */
+const pendingLinks = new Map<string, PendingLink>();
+
+/**
+ * Whether a link has not been seen funded yet
+ */
+const isAwaitingFunding = (link: PaymentLink) =>
+  link.status === "unclaimed" && !link.fundedAt;
+
+/**
+ * Record a new link, refusing an escrow that another link already uses
+ * @throws AppError RATE_LIMITED when too many links are waiting for funding
+ */
+export function appendPaymentLink(link: PaymentLink): Promise<void> {
+  return ledger.withLedger(async (links, append) => {
+    if (links.some((existing) => existing.escrow === link.escrow)) {
+      throw new AppError("INVALID_REQUEST", "Escrow is already used by a link");
+    }
+    const unfunded = links.filter(isAwaitingFunding);
+    if (
+      unfunded.length >= MAX_UNFUNDED_LINKS ||
+      unfunded.filter((existing) => existing.sender === link.sender).length >=
+        MAX_UNFUNDED_PER_SENDER
+    ) {
+      throw new AppError(
+        "RATE_LIMITED",
+        "Too many payment links are waiting for funding, try again later"
+      );
+    }
+    await append(link);
+  });
+}
+
+/**
+ * Drop links on a cluster whose funding never landed in time, and mark the
+ * funded ones so they are not checked again
+ */
+export async function pruneUnfundedLinks(
+  connection: Connection,
+  cluster: Cluster,
+  now = Date.now()
+): Promise<void> {
+  const stale = (await ledger.read())
+    .filter(
+      (link) =>
+        link.cluster === cluster &&
+        isAwaitingFunding(link) &&
+        now - link.createdAt > UNFUNDED_LINK_TTL_MS
+    )
+    .slice(0, PRUNE_BATCH_SIZE);
+  if (stale.length === 0) return;
+
+  const balances = await getEscrowBalances(connection, stale);
+  const funded = new Map(
+    stale.map((link, index) => [link.id, balances[index] > BigInt(0)])
+  );
+  await ledger.withLedger(async (links, _append, commit) => {
+    for (let i = links.length - 1; i >= 0; i--) {
+      const link = links[i];
+      if (!funded.has(link.id) || !isAwaitingFunding(link)) continue;
+      if (funded.get(link.id)) {
+        link.fundedAt = now;
+      } else {
+        links.splice(i, 1);
+      }
+    }
+    await commit();
+  });
+}
+
+/**
+ * Mark an unclaimed link as sweeping, so no other sweep is accepted while
+ * this one is broadcast outside the ledger lock
+ * @param escrow - Escrow that signed the sweep
+ */
+export function startSweep(
+  id: string,
+  cluster: Cluster,
+  escrow: string,
+  sweep: SweepAttempt
+): Promise<void> {
+  return ledger.withLedger(async (links, _append, commit) => {
+    const link = links.find(
+      (candidate) => candidate.id === id && candidate.cluster === cluster
+    );
+    if (!link || link.escrow !== escrow) {
+      throw new AppError("INVALID_REQUEST", "Payment link not found");
+    }
+    if (link.status === "sweeping") {
+      throw new AppError(
+        "INVALID_REQUEST",
+        "Payment link is already being swept"
+      );
+    }
+    if (link.status !== "unclaimed") {
+      throw new AppError(
+        "INVALID_REQUEST",
+        `Payment link was already ${link.status}`
+      );
+    }
+    link.status = "sweeping";
+    link.sweep = sweep;
+    await commit();
+  });
+}
+
+/**
+ * Record how a link's sweep ended: confirmed sweeps settle the link, dropped
+ * ones make it claimable again and unknown ones leave it sweeping
+ */
+export function finishSweep(
+  id: string,
+  cluster: Cluster,
+  signature: string,
+  outcome: SweepOutcome
+): Promise<void> {
+  return ledger.withLedger(async (links, _append, commit) => {
+    const link = links.find(
+      (candidate) => candidate.id === id && candidate.cluster === cluster
+    );
+    const sweep = link?.sweep;
+    if (
+      !link ||
+      link.status !== "sweeping" ||
+      sweep?.signature !== signature ||
+      outcome === "unknown"
+    ) {
+      return;
+    }
+    if (outcome === "confirmed") {
+      link.status = sweep.action === "claim" ? "claimed" : "reclaimed";
+      link.settledBy = sweep.to;
+      link.signature = signature;
+      link.settledAt = Date.now();
+    } else {
+      link.status = "unclaimed";
+    }
+    delete link.sweep;
+    await commit();
+  });
+}
+
+/**
+ * Settle a link left sweeping by a broadcast that gave up, from its sweep's
+ * on-chain status
+ * @returns The link, updated if its sweep has landed or been dropped
+ */
+export async function resolveSweep(
+  connection: Connection,
+  link: PaymentLink
+): Promise<PaymentLink> {
+  const { sweep } = link;
+  if (link.status !== "sweeping" || !sweep) return link;
+
+  // Read the height first: a sweep still unknown after it is checked cannot
+  // have landed at or below this height
+  const blockHeight = await connection.getBlockHeight("confirmed");
+  const {
+    value: [status],
+  } = await connection.getSignatureStatuses([sweep.signature], {
+    searchTransactionHistory: true,
+  });
+  const outcome: SweepOutcome = status?.err
+    ? "dropped"
+    : status?.confirmationStatus === "confirmed" ||
+        status?.confirmationStatus === "finalized"
+      ? "confirmed"
+      : !status && blockHeight > sweep.lastValidBlockHeight
+        ? "dropped"
+        : "unknown";
+  if (outcome === "unknown") return link;
+
+  await finishSweep(link.id, link.cluster, sweep.signature, outcome);
+  return (await findPaymentLink(link.id, link.cluster)) ?? link;
+}
+
+/**
+ * Find a link by id on a cluster
+ */
+export async function findPaymentLink(
+  id: string,
+  cluster: Cluster
+): Promise<PaymentLink | undefined> {
+  return (await ledger.read()).find(
+    (link) => link.id === id && link.cluster === cluster
+  );
+}
+
+/**
+ * Links created by a sender on a cluster, newest first
+ */
+export async function listPaymentLinks(
+  sender: string,
+  cluster: Cluster,
+  limit: number
+): Promise<PaymentLink[]> {
+  return (await ledger.read())
+    .filter((link) => link.sender === sender && link.cluster === cluster)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, limit);
+}
+
+/**
+ * Escrow token account holding a link's USDC
+ */
+export function getEscrowTokenAccount(link: PaymentLink): PublicKey {
+  return getAssociatedTokenAddressSync(
+    new PublicKey(link.mint),
+    new PublicKey(link.escrow)
+  );
+}
+
+/**
+ * USDC each link's escrow currently holds, in base units
+ */
+export async function getEscrowBalances(
+  connection: Connection,
+  links: PaymentLink[]
+): Promise<bigint[]> {
+  if (links.length === 0) return [];
+  const accounts = await connection.getMultipleAccountsInfo(
+    links.map(getEscrowTokenAccount)
+  );
+  return accounts.map((info) =>
+    info &&
+    info.owner.equals(TOKEN_PROGRAM_ID) &&
+    info.data.length >= ACCOUNT_SIZE
+      ? AccountLayout.decode(info.data.subarray(0, ACCOUNT_SIZE)).amount
+      : BigInt(0)
+  );
+}
+
+/**
+ * Public view of a link, without anything secret
+ * @param balance - USDC the escrow currently holds
+ */
+export function toPaymentLinkView(
+  link: PaymentLink,
+  balance: bigint
+): PaymentLinkView {
+  return {
+    id: link.id,
+    cluster: link.cluster,
+    sender: link.sender,
+    escrow: link.escrow,
+    amount: link.amount,
+    symbol: getUsdcToken(link.cluster).symbol,
+    status: link.status,
+    funded: balance > BigInt(0),
+    createdAt: link.createdAt,
+    expiresAt: link.expiresAt,
+    settledBy: link.settledBy,
+    signature: link.signature,
+  };
+}
+
+/**
+ * Remember a link built with its funding transaction until its sender signs
+ * @param message - Base64 serialized funding message
+ */
+export function rememberLink(link: PaymentLink, message: string): void {
+  const now = Date.now();
+  for (const [key, pending] of pendingLinks) {
+    if (now - pending.link.createdAt > PENDING_LINK_TTL_MS) {
+      pendingLinks.delete(key);
+    }
+  }
+  pendingLinks.set(link.id, { link, message });
+}
+
+/**
+ * Built link whose funding message matches, if still valid
+ * @param message - Base64 serialized message the sender signed
+ */
+export function getPendingLink(
+  id: string,
+  message: string
+): PaymentLink | null {
+  const pending = pendingLinks.get(id);
+  if (
+    !pending ||
+    pending.message !== message ||
+    Date.now() - pending.link.createdAt > PENDING_LINK_TTL_MS
+  ) {
+    return null;
+  }
+  return pending.link;
+}
+
+/**
+ * Forget a built link once it was recorded
+ */
+export function clearPendingLink(id: string): void {
+  pendingLinks.delete(id);
+}
+
+/**
+ * Remember the sweep built for a link, replacing any earlier one
+ * Callers must first check the requester holds the link secret
+ */
+export function rememberSweep(id: string, sweep: PendingSweep): void {
+  const now = Date.now();
+  for (const [key, pending] of pendingSweeps) {
+    if (now - pending.createdAt > PENDING_SWEEP_TTL_MS) {
+      pendingSweeps.delete(key);
+    }
+  }
+  pendingSweeps.set(id, sweep);
+}
+
+/**
+ * Pending sweep for a link whose message matches, if still valid
+ * @param message - Base64 serialized message being submitted
+ */
+export function getPendingSweep(
+  id: string,
+  message: string
+): PendingSweep | null {
+  const pending = pendingSweeps.get(id);
+  if (
+    !pending ||
+    pending.message !== message ||
+    Date.now() - pending.createdAt > PENDING_SWEEP_TTL_MS
+  ) {
+    return null;
+  }
+  return pending;
+}
+
+/**
+ * Forget a link's pending sweep once it was submitted
+ */
+export function clearPendingSweep(id: string): void {
+  pendingSweeps.delete(id);
+}
@@ -0,0 +1,220 @@
+/**
+ * Claimable payment links
+ * USDC held by a one-off escrow keypair whose secret travels in the link's URL
+ * fragment, so it never reaches the server. Types and client helpers.
+ */
+
+import bs58 from "bs58";
+import nacl from "tweetnacl";
+import type { Cluster } from "@/lib/clusters";
+import { AppError, isErrorCode, readApiError } from "@/lib/errors";
+
+/**
+ * localStorage key for the claim URLs of links created in this browser
+ */
+const SENT_LINKS_KEY = "sentPaymentLinks";
+
+/**
+ * Lifecycle of a payment link; a link is sweeping while a submitted sweep
+ * has not yet confirmed or been dropped
+ */
+export type PaymentLinkStatus =
+  "unclaimed" | "sweeping" | "claimed" | "reclaimed";
+
+/**
+ * Who an escrow is swept to: the recipient, or the sender after expiry
+ */
+export type PaymentLinkAction = "claim" | "reclaim";
+
+/**
+ * Payment link as returned by /api/payment-links
+ * funded is true while the escrow still holds USDC
+ */
+export interface PaymentLinkView {
+  id: string;
+  cluster: Cluster;
+  sender: string;
+  escrow: string;
+  amount: string;
+  symbol: string;
+  status: PaymentLinkStatus;
+  funded: boolean;
+  createdAt: number;
+  expiresAt: number;
+  settledBy: string | null;
+  signature: string | null;
+}
+
+/**
+ * Build the claim URL for a link, with the escrow secret in the fragment
+ */
+export function buildClaimUrl(
+  origin: string,
+  id: string,
+  cluster: Cluster,
+  secretKey: Uint8Array
+): string {
+  return `${origin}/claim/${id}?cluster=${cluster}#${bs58.encode(secretKey)}`;
+}
+
+/**
+ * Read the escrow secret key from a claim URL fragment
+ * @returns 64-byte secret key, or null when the fragment is missing or invalid
+ */
+export function parseClaimSecret(fragment: string): Uint8Array | null {
+  try {
+    const secretKey = bs58.decode(fragment.replace(/^#/, ""));
+    return secretKey.length === 64 ? secretKey : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Message the escrow signs when asking for a sweep, proving the caller holds
+ * the link secret
+ */
+export function getSweepProofMessage(
+  id: string,
+  to: string,
+  action: PaymentLinkAction,
+  cluster: Cluster
+): Uint8Array {
+  return new TextEncoder().encode(
+    `payment-link-sweep:${cluster}:${id}:${action}:${to}`
+  );
+}
+
+/**
+ * Claim URLs of links created in this browser, by link id
+ * The sender needs them to share a link again or reclaim it after expiry
+ */
+export function loadSentLinks(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(SENT_LINKS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    console.error("Failed to load payment links:", error);
+    return {};
+  }
+}
+
+/**
+ * Remember the claim URL of a newly created link
+ */
+export function saveSentLink(id: string, url: string): void {
+  localStorage.setItem(
+    SENT_LINKS_KEY,
+    JSON.stringify({ ...loadSentLinks(), [id]: url })
+  );
+}
+
+/**
+ * Record a link once its sender signed the funding transaction, before the
+ * funding is submitted, so a funded link always has a record
+ * @param transaction - Base64 funding transaction returned when the link was built
+ * @param signature - Sender's base58 signature of the funding
+ */
+export async function recordPaymentLink(
+  id: string,
+  transaction: string,
+  signature: string,
+  cluster: Cluster
+): Promise<void> {
+  const response = await fetch(`/api/payment-links/${id}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ transaction, signature, cluster }),
+  });
+  if (!response.ok) {
+    throw await readApiError(response, "Failed to record payment link");
+  }
+}
+
+/**
+ * Sweep a link's escrow to a wallet
+ * The sweep is built server-side, signed with the escrow secret in the
+ * browser and submitted back so the link status is recorded
+ * @returns Confirmed transaction signature
+ */
+export async function sweepPaymentLink(
+  id: string,
+  secretKey: Uint8Array,
+  to: string,
+  action: PaymentLinkAction,
+  cluster: Cluster
+): Promise<string> {
+  const sweepResponse = await fetch(`/api/payment-links/${id}/sweep`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      to,
+      action,
+      cluster,
+      proof: Buffer.from(
+        nacl.sign.detached(
+          getSweepProofMessage(id, to, action, cluster),
+          secretKey
+        )
+      ).toString("hex"),
+    }),
+  });
+  if (!sweepResponse.ok) {
+    throw await readApiError(
+      sweepResponse,
+      "Failed to build sweep transaction"
+    );
+  }
+  const { transaction, lastValidBlockHeight } = await sweepResponse.json();
+
+  // Import Solana web3.js dynamically (client-side only)
+  const { Keypair, VersionedTransaction } = await import("@solana/web3.js");
+  const tx = VersionedTransaction.deserialize(
+    Buffer.from(transaction, "base64")
+  );
+  tx.sign([Keypair.fromSecretKey(secretKey)]);
+
+  const submitResponse = await fetch(`/api/payment-links/${id}/submit`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      transaction,
+      signature: Buffer.from(tx.signatures[0]).toString("hex"),
+      lastValidBlockHeight,
+      cluster,
+    }),
+  });
+  if (!submitResponse.ok) {
+    throw await readApiError(submitResponse, "Failed to submit sweep");
+  }
+
+  const result = await submitResponse.json();
+  if (result.status === "expired") {
+    throw new AppError(
+      "TRANSACTION_EXPIRED",
+      "Transaction expired before confirmation, please retry"
+    );
+  }
+  if (result.status === "timeout") {
+    throw new AppError(
+      "TRANSACTION_UNCONFIRMED",
+      "Sweep has not confirmed yet, check the link again shortly"
+    );
+  }
+  if (result.status !== "confirmed") {
+    throw new AppError(
+      isErrorCode(result.error?.code)
+        ? result.error.code
+        : "TRANSACTION_FAILED",
+      result.error?.message || "Transaction failed on-chain"
+    );
+  }
+  return result.signature as string;
+}
@@ -0,0 +1,116 @@
+/**
+ * Payment request tracking helpers
+ * Finds transfers by their Solana Pay reference key and validates them
+ */
+
+import type { Connection, PublicKey } from "@solana/web3.js";
+import { formatBaseUnits, toBaseUnits } from "@/lib/amount";
+import { getTokenDeltas } from "@/lib/history";
+
+/**
+ * Status of a tracked payment request
+ */
+export type PaymentStatus = "pending" | "paid" | "mismatch";
+
+/**
+ * Payment status returned by /api/payment-status
+ */
+export interface PaymentStatusResult {
+  status: PaymentStatus;
+  signature: string | null;
+  payer: string | null;
+  amount: string | null;
+  message: string | null;
+}
+
+/**
+ * Expected transfer fields for a payment request
+ */
+export interface ExpectedPayment {
+  recipient: PublicKey;
+  mint: PublicKey;
+  amount?: string;
+}
+
+/**
+ * Find the sender whose balance of the mint decreased
+ * @param deltas - Token balance changes by owner from getTokenDeltas
+ */
+function getPayer(deltas: Map<string, bigint>): string | null {
+  for (const [owner, delta] of deltas) {
+    if (delta < BigInt(0)) return owner;
+  }
+  return null;
+}
+
+/**
+ * Look up a payment by reference and check it matches the request
+ * @param connection - Solana RPC connection
+ * @param reference - Reference key attached to the transfer
+ * @param expected - Recipient, mint and optional exact amount
+ * @returns Payment status with the matching signature when paid
+ */
+export async function findPaymentByReference(
+  connection: Connection,
+  reference: PublicKey,
+  expected: ExpectedPayment
+): Promise<PaymentStatusResult> {
+  const result: PaymentStatusResult = {
+    status: "pending",
+    signature: null,
+    payer: null,
+    amount: null,
+    message: null,
+  };
+
+  const signatures = await connection.getSignaturesForAddress(
+    reference,
+    { limit: 100 },
+    "confirmed"
+  );
+  const candidates = signatures.filter((info) => !info.err).reverse();
+  if (candidates.length === 0) return result;
+
+  const transactions = await connection.getParsedTransactions(
+    candidates.map((info) => info.signature),
+    { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+  );
+
+  const recipient = expected.recipient.toBase58();
+  const mint = expected.mint.toBase58();
+
+  for (let i = 0; i < candidates.length; i++) {
+    const tx = transactions[i];
+    if (!tx || tx.meta?.err) continue;
+
+    const { deltas, decimals } = getTokenDeltas(tx, mint);
+    const delta = deltas.get(recipient) ?? BigInt(0);
+    if (delta <= BigInt(0)) {
+      result.status = "mismatch";
+      result.signature = candidates[i].signature;
+      result.message =
+        "Transaction did not pay the expected recipient or token";
+      continue;
+    }
+
+    if (
+      expected.amount !== undefined &&
+      delta !== toBaseUnits(expected.amount, decimals)
+    ) {
+      result.status = "mismatch";
+      result.signature = candidates[i].signature;
+      result.message = "Transaction amount does not match the request";
+      continue;
+    }
+
+    return {
+      status: "paid",
+      signature: candidates[i].signature,
+      payer: getPayer(deltas),
+      amount: formatBaseUnits(delta, decimals),
+      message: null,
+    };
+  }
+
+  return result;
+}
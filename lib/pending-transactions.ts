@@ -0,0 +1,366 @@
+/**
+ * Pending transaction tracker
+ * Records sends in localStorage from the moment they are signed, so their
+ * confirmation can be resumed after a reload and expired ones rebuilt safely
+ */
+
+import { accountStorageKey } from "@/lib/accounts";
+import type { Cluster } from "@/lib/clusters";
+import { ERROR_STATUS, getErrorCode, readApiError } from "@/lib/errors";
+
+/**
+ * localStorage key for the pending transaction store, kept per account
+ */
+const PENDING_KEY = "pendingTransactions";
+
+/**
+ * Blocks past a transaction's last valid block height before it is treated
+ * as expired, leaving time for a final rebroadcast check to record it
+ */
+const EXPIRY_MARGIN_BLOCKS = 30;
+
+/**
+ * How long finalized transactions stay listed
+ */
+const FINALIZED_DISPLAY_MS = 2 * 60 * 1000;
+
+/**
+ * Progress of a tracked transaction; failed and expired are final, and an
+ * expired transaction can never land
+ */
+export type PendingStage =
+  "submitted" | "processed" | "confirmed" | "finalized" | "failed" | "expired";
+
+/**
+ * Stages shown on the progress timeline, in order
+ */
+export const PROGRESS_STAGES: PendingStage[] = [
+  "processed",
+  "confirmed",
+  "finalized",
+];
+
+/**
+ * Status of one signature, as returned by /api/transaction-status
+ */
+export interface TransactionStatus {
+  signature: string;
+  txId: string | null;
+  stage: PendingStage;
+  error: string | null;
+}
+
+/**
+ * Response body of /api/transaction-status
+ */
+export interface TransactionStatusResponse {
+  blockHeight: number;
+  statuses: TransactionStatus[];
+}
+
+/**
+ * Send details kept so an expired transfer can be rebuilt
+ */
+export interface PendingTransfer {
+  recipient: string;
+  recipientEmail?: string;
+  amount: string;
+  mint: string;
+  symbol: string;
+  memo?: string;
+  reference?: string[];
+}
+
+/**
+ * Tracked transaction
+ * signature is the sender's signature, which is the transaction id unless a
+ * relayer signed first; txId is the transaction id once known
+ */
+export interface PendingTransaction {
+  signature: string;
+  txId: string | null;
+  wallet: string;
+  cluster: Cluster;
+  label: string;
+  transfer: PendingTransfer | null;
+  lastValidBlockHeight: number;
+  stage: PendingStage;
+  stageAt: Partial<Record<PendingStage, number>>;
+  error: string | null;
+  createdAt: number;
+}
+
+/**
+ * Fields recorded when a transaction is signed
+ */
+export type PendingTransactionInput = Pick<
+  PendingTransaction,
+  | "signature"
+  | "txId"
+  | "wallet"
+  | "cluster"
+  | "label"
+  | "transfer"
+  | "lastValidBlockHeight"
+>;
+
+/**
+ * Order of the stages a transaction moves through
+ */
+const STAGE_RANK: Record<PendingStage, number> = {
+  submitted: 0,
+  processed: 1,
+  confirmed: 2,
+  finalized: 3,
+  failed: 4,
+  expired: 4,
+};
+
+/**
+ * Whether a transaction can still change stage and needs status checks
+ */
+export function isInFlight(transaction: PendingTransaction): boolean {
+  return STAGE_RANK[transaction.stage] < STAGE_RANK.finalized;
+}
+
+/**
+ * Read a list of tracked transactions stored under a key
+ */
+function readPendingList(key: string): PendingTransaction[] {
+  const raw = localStorage.getItem(key);
+  if (!raw) return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+/**
+ * Split the store kept before accounts existed into per-account stores
+ */
+function migrateLegacyPendingTransactions(): void {
+  const legacy = readPendingList(PENDING_KEY);
+  const byWallet = new Map<string, PendingTransaction[]>();
+  for (const transaction of legacy) {
+    byWallet.set(transaction.wallet, [
+      ...(byWallet.get(transaction.wallet) ?? []),
+      transaction,
+    ]);
+  }
+  for (const [wallet, transactions] of byWallet) {
+    const key = accountStorageKey(PENDING_KEY, wallet);
+    localStorage.setItem(
+      key,
+      JSON.stringify([...readPendingList(key), ...transactions])
+    );
+  }
+  localStorage.removeItem(PENDING_KEY);
+}
+
+/**
+ * Load an account's tracked transactions from localStorage
+ */
+export function loadPendingTransactions(wallet: string): PendingTransaction[] {
+  try {
+    if (localStorage.getItem(PENDING_KEY) !== null) {
+      migrateLegacyPendingTransactions();
+    }
+    return readPendingList(accountStorageKey(PENDING_KEY, wallet));
+  } catch (error) {
+    console.error("Failed to load pending transactions:", error);
+    return [];
+  }
+}
+
+/**
+ * Persist an account's tracked transactions to localStorage
+ * Transactions of other accounts are left out
+ */
+export function savePendingTransactions(
+  wallet: string,
+  transactions: PendingTransaction[]
+): void {
+  localStorage.setItem(
+    accountStorageKey(PENDING_KEY, wallet),
+    JSON.stringify(
+      transactions.filter((transaction) => transaction.wallet === wallet)
+    )
+  );
+}
+
+/**
+ * Transactions of one wallet on one cluster, newest first
+ */
+export function getWalletPendingTransactions(
+  transactions: PendingTransaction[],
+  wallet: string,
+  cluster: Cluster
+): PendingTransaction[] {
+  return transactions
+    .filter(
+      (transaction) =>
+        transaction.wallet === wallet && transaction.cluster === cluster
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Start tracking a signed transaction
+ */
+export function addPendingTransaction(
+  transactions: PendingTransaction[],
+  input: PendingTransactionInput,
+  now = Date.now()
+): PendingTransaction[] {
+  return [
+    ...transactions.filter(
+      (transaction) => transaction.signature !== input.signature
+    ),
+    {
+      ...input,
+      stage: "submitted",
+      stageAt: { submitted: now },
+      error: null,
+      createdAt: now,
+    },
+  ];
+}
+
+/**
+ * Stop tracking a transaction
+ */
+export function removePendingTransaction(
+  transactions: PendingTransaction[],
+  signature: string
+): PendingTransaction[] {
+  return transactions.filter(
+    (transaction) => transaction.signature !== signature
+  );
+}
+
+/**
+ * Move a transaction to a later stage; earlier stages are ignored so late
+ * status responses cannot move it backwards
+ */
+export function recordTransactionStatus(
+  transactions: PendingTransaction[],
+  status: TransactionStatus,
+  now = Date.now()
+): PendingTransaction[] {
+  return transactions.map((transaction) => {
+    if (
+      transaction.signature !== status.signature ||
+      STAGE_RANK[status.stage] <= STAGE_RANK[transaction.stage] ||
+      !isInFlight(transaction)
+    ) {
+      return transaction;
+    }
+    return {
+      ...transaction,
+      txId: status.txId ?? transaction.txId,
+      stage: status.stage,
+      stageAt: { ...transaction.stageAt, [status.stage]: now },
+      error: status.error,
+    };
+  });
+}
+
+/**
+ * Whether a signature that never landed is past its blockhash expiry
+ */
+export function hasExpired(
+  status: TransactionStatus,
+  blockHeight: number,
+  lastValidBlockHeight: number
+): boolean {
+  return (
+    status.stage === "submitted" &&
+    blockHeight > lastValidBlockHeight + EXPIRY_MARGIN_BLOCKS
+  );
+}
+
+/**
+ * Whether a failed submit may still have landed: expired broadcasts only
+ * stopped waiting, and server errors may come after the broadcast
+ */
+export function isUnsettledError(error: unknown): boolean {
+  const code = getErrorCode(error);
+  return code === "TRANSACTION_EXPIRED" || ERROR_STATUS[code] >= 500;
+}
+
+/**
+ * Check the progress of signatures through /api/transaction-status
+ */
+export async function fetchTransactionStatuses(
+  signatures: string[],
+  cluster: Cluster
+): Promise<TransactionStatusResponse> {
+  const params = new URLSearchParams({
+    signatures: signatures.join(","),
+    cluster,
+  });
+  const response = await fetch(`/api/transaction-status?${params.toString()}`);
+  if (!response.ok) {
+    throw await readApiError(response, "Failed to check transaction status");
+  }
+  return response.json();
+}
+
+/**
+ * Apply a status check, expiring transactions that never landed before
+ * their blockhash expired
+ */
+export function applyStatusResponse(
+  transactions: PendingTransaction[],
+  response: TransactionStatusResponse,
+  now = Date.now()
+): PendingTransaction[] {
+  return response.statuses.reduce((list, status) => {
+    const transaction = list.find(
+      (candidate) => candidate.signature === status.signature
+    );
+    const expired =
+      transaction?.stage === "submitted" &&
+      hasExpired(
+        status,
+        response.blockHeight,
+        transaction.lastValidBlockHeight
+      );
+    return recordTransactionStatus(
+      list,
+      expired ? { ...status, stage: "expired" } : status,
+      now
+    );
+  }, transactions);
+}
+
+/**
+ * Drop finalized transactions once they have been shown for a while
+ */
+export function pruneFinalizedTransactions(
+  transactions: PendingTransaction[],
+  now = Date.now()
+): PendingTransaction[] {
+  return transactions.filter(
+    (transaction) =>
+      transaction.stage !== "finalized" ||
+      now - (transaction.stageAt.finalized ?? 0) < FINALIZED_DISPLAY_MS
+  );
+}
+
+/**
+ * In-flight transfer of the same amount to the same recipient, which a new
+ * send would risk paying twice
+ */
+export function findInFlightTransfer(
+  transactions: PendingTransaction[],
+  wallet: string,
+  cluster: Cluster,
+  recipient: string,
+  amount: string
+): PendingTransaction | undefined {
+  return getWalletPendingTransactions(transactions, wallet, cluster).find(
+    (transaction) =>
+      STAGE_RANK[transaction.stage] < STAGE_RANK.confirmed &&
+      transaction.transfer?.recipient === recipient &&
+      Number(transaction.transfer.amount) === Number(amount)
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Compute budget and priority fee helpers
+ * Estimates compute units by simulation and prices them from recent fees
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+/**
+ * Priority fee tiers offered to the user
+ */
+export type PriorityTier = "low" | "normal" | "fast";
+
+/**
+ * Cost of a transaction at one priority tier, in lamports
+ */
+export interface PriorityFeeOption {
+  tier: PriorityTier;
+  microLamportsPerUnit: number;
+  priorityFee: number;
+  total: number;
+}
+
+/**
+ * Fee breakdown returned alongside a built transaction
+ */
+export interface FeeQuote {
+  computeUnits: number;
+  baseFee: number;
+  rent: number;
+  options: PriorityFeeOption[];
+}
+
+/**
+ * Tiers in display order
+ */
+export const PRIORITY_TIERS: PriorityTier[] = ["low", "normal", "fast"];
+
+/**
+ * Percentile of recent non-zero fees used for each tier
+ */
+const TIER_PERCENTILES: Record<PriorityTier, number> = {
+  low: 25,
+  normal: 50,
+  fast: 90,
+};
+
+/**
+ * Minimum price per compute unit for each tier, in micro-lamports
+ */
+const TIER_MIN_MICROLAMPORTS: Record<PriorityTier, number> = {
+  low: 0,
+  normal: 1_000,
+  fast: 10_000,
+};
+
+/**
+ * Compute unit limits used when simulating and when simulation fails
+ */
+const MAX_COMPUTE_UNITS = 1_400_000;
+const FALLBACK_COMPUTE_UNITS = 200_000;
+
+/**
+ * Headroom added to simulated compute units
+ */
+const COMPUTE_UNIT_MARGIN = 1.1;
+
+/**
+ * Lamports charged per signature
+ */
+const LAMPORTS_PER_SIGNATURE = 5_000;
+
+/**
+ * Check whether a string names a priority tier
+ */
+export function isPriorityTier(value: unknown): value is PriorityTier {
+  return PRIORITY_TIERS.includes(value as PriorityTier);
+}
+
+/**
+ * Prepend compute budget instructions to a transaction's instructions
+ */
+export function withComputeBudget(
+  instructions: TransactionInstruction[],
+  computeUnits: number,
+  microLamportsPerUnit: number
+): TransactionInstruction[] {
+  const budget = [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+  ];
+  if (microLamportsPerUnit > 0) {
+    budget.push(
+      ComputeBudgetProgram.setComputeUnitPrice({
+        microLamports: microLamportsPerUnit,
+      })
+    );
+  }
+  return [...budget, ...instructions];
+}
+
+/**
+ * Estimate compute units by simulating the instructions
+ * Falls back to a conservative limit when simulation fails
+ */
+export async function estimateComputeUnits(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[]
+): Promise<number> {
+  try {
+    const { blockhash } = await connection.getLatestBlockhash("confirmed");
+    const messageV0 = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      // Include both budget instructions so their cost is counted
+      instructions: withComputeBudget(instructions, MAX_COMPUTE_UNITS, 1),
+    }).compileToV0Message();
+
+    const simulation = await connection.simulateTransaction(
+      new VersionedTransaction(messageV0),
+      { sigVerify: false, replaceRecentBlockhash: true }
+    );
+
+    const unitsConsumed = simulation.value.unitsConsumed;
+    if (simulation.value.err || !unitsConsumed) {
+      return FALLBACK_COMPUTE_UNITS;
+    }
+    return Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN);
+  } catch (error) {
+    console.error("Failed to estimate compute units:", error);
+    return FALLBACK_COMPUTE_UNITS;
+  }
+}
+
+/**
+ * Price per compute unit for each tier from recent prioritization fees
+ * @param writableAccounts - Accounts the transaction locks for writing
+ */
+export async function getPriorityFeeLevels(
+  connection: Connection,
+  writableAccounts: PublicKey[]
+): Promise<Record<PriorityTier, number>> {
+  let fees: number[] = [];
+  try {
+    const recent = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    });
+    fees = recent
+      .map((fee) => fee.prioritizationFee)
+      .filter((fee) => fee > 0)
+      .sort((a, b) => a - b);
+  } catch (error) {
+    console.error("Failed to fetch prioritization fees:", error);
+  }
+
+  const levels = {} as Record<PriorityTier, number>;
+  for (const tier of PRIORITY_TIERS) {
+    const index = Math.min(
+      fees.length - 1,
+      Math.floor((TIER_PERCENTILES[tier] / 100) * fees.length)
+    );
+    levels[tier] = Math.max(
+      TIER_MIN_MICROLAMPORTS[tier],
+      fees.length > 0 ? fees[index] : 0
+    );
+  }
+  return levels;
+}
+
+/**
+ * Build the fee breakdown for every tier
+ * @param computeUnits - Compute unit limit the transaction will request
+ * @param levels - Price per compute unit for each tier
+ * @param signatures - Number of required signatures
+ * @param rent - Lamports spent on rent for accounts created by the transaction
+ */
+export function buildFeeQuote(
+  computeUnits: number,
+  levels: Record<PriorityTier, number>,
+  signatures: number,
+  rent: number
+): FeeQuote {
+  const baseFee = signatures * LAMPORTS_PER_SIGNATURE;
+
+  return {
+    computeUnits,
+    baseFee,
+    rent,
+    options: PRIORITY_TIERS.map((tier) => {
+      const priorityFee = Math.ceil((levels[tier] * computeUnits) / 1_000_000);
+      return {
+        tier,
+        microLamportsPerUnit: levels[tier],
+        priorityFee,
+        total: baseFee + priorityFee + rent,
+      };
+    }),
+  };
+}
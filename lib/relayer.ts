@@ -0,0 +1,290 @@
+/**
+ * Gasless transfer relayer
+ * A server-held fee payer covers network fees for USDC sends to existing
+ * token accounts, co-signing only transactions it built, within daily quotas
+ * per MetaKeep account
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import path from "path";
+import {
+  LAMPORTS_PER_SOL,
+  type Connection,
+  type Keypair,
+  type PublicKey,
+  type VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { toBaseUnits } from "@/lib/amount";
+import {
+  broadcastTransaction,
+  type BroadcastResult,
+  type BroadcastStatus,
+} from "@/lib/broadcast";
+import type { Cluster } from "@/lib/clusters";
+import { AppError } from "@/lib/errors";
+import { createJsonLedger, findLastRecord } from "@/lib/json-ledger";
+import { loadKeypairFromEnv } from "@/lib/keypair";
+
+/**
+ * Relayer switch, shared with the client so the gasless option matches the server
+ */
+const RELAYER_ENABLED = process.env.NEXT_PUBLIC_RELAYER_ENABLED === "true";
+
+/**
+ * Relayed transfers allowed per MetaKeep account and cluster in a rolling day
+ */
+const RELAYER_DAILY_QUOTA = Number(process.env.RELAYER_DAILY_QUOTA || 10);
+
+/**
+ * SOL the fee payer keeps in reserve; relaying stops below it
+ */
+const RELAYER_MIN_LAMPORTS = Math.round(
+  Number(process.env.RELAYER_MIN_SOL || 0.05) * LAMPORTS_PER_SOL
+);
+
+/**
+ * USDC charged per relayed transfer to reimburse the relayer, "0" for none
+ */
+const RELAYER_FEE_USDC = process.env.RELAYER_FEE_USDC || "0";
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Single relayed transfer, recorded as submitted when the relayer co-signs
+ * and updated once its broadcast settles
+ */
+export interface RelayedTransfer {
+  address: string;
+  identity: string;
+  cluster: Cluster;
+  signature: string;
+  senderSignature?: string;
+  status: BroadcastStatus | "submitted";
+  relayedAt: number;
+}
+
+/**
+ * Ledger file location, configurable for deployments with a mounted volume
+ */
+const LEDGER_PATH =
+  process.env.RELAYER_LEDGER_PATH ||
+  path.join(process.cwd(), ".data", "relayer-ledger.json");
+
+const ledger = createJsonLedger<RelayedTransfer>(LEDGER_PATH);
+
+/**
+ * Load the relayer fee payer
+ * RELAYER_PAUSED is read on every call so relaying can be stopped without a rebuild
+ * @throws AppError NOT_CONFIGURED when relaying is disabled, paused or has no key
+ */
+export function getRelayer(): Keypair {
+  if (!RELAYER_ENABLED || process.env.RELAYER_PAUSED === "true") {
+    throw new AppError(
+      "NOT_CONFIGURED",
+      "Gasless transfers are currently unavailable"
+    );
+  }
+  const relayer = loadKeypairFromEnv("RELAYER_PRIVATE_KEY");
+  if (!relayer) {
+    throw new AppError("NOT_CONFIGURED", "Relayer fee payer not configured");
+  }
+  return relayer;
+}
+
+/**
+ * USDC fee charged per relayed transfer, in base units
+ * @param decimals - On-chain decimals of the USDC mint
+ */
+export function getRelayerFee(decimals: number): bigint {
+  const fee = toBaseUnits(RELAYER_FEE_USDC, decimals);
+  if (fee === null) {
+    throw new AppError("NOT_CONFIGURED", "Invalid RELAYER_FEE_USDC");
+  }
+  return fee;
+}
+
+/**
+ * Check the fee payer can cover a cost and still keep its reserve
+ * @param lamports - Fees and rent the relayer is about to pay
+ */
+export async function assertRelayerFunded(
+  connection: Connection,
+  relayer: PublicKey,
+  lamports = 0
+): Promise<void> {
+  const balance = await connection.getBalance(relayer);
+  if (balance - lamports < RELAYER_MIN_LAMPORTS) {
+    console.error(
+      `Relayer ${relayer.toBase58()} is below its reserve: ${balance} lamports`
+    );
+    throw new AppError(
+      "NOT_CONFIGURED",
+      "Gasless transfers are temporarily unavailable"
+    );
+  }
+}
+
+/**
+ * Reject a MetaKeep account that used up today's relayed transfers on a
+ * cluster; counting accounts rather than addresses keeps fresh keypairs
+ * from getting fresh quotas. Expired transfers are not counted
+ */
+function assertWithinQuota(
+  transfers: RelayedTransfer[],
+  identity: string,
+  cluster: Cluster,
+  now: number
+): void {
+  const used = transfers.filter(
+    (transfer) =>
+      transfer.identity === identity &&
+      transfer.cluster === cluster &&
+      transfer.status !== "expired" &&
+      transfer.relayedAt > now - QUOTA_WINDOW_MS
+  ).length;
+  if (used >= RELAYER_DAILY_QUOTA) {
+    throw new AppError(
+      "RATE_LIMITED",
+      `Gasless transfers are limited to ${RELAYER_DAILY_QUOTA} per day`
+    );
+  }
+}
+
+/**
+ * Check a MetaKeep account's quota before building a relayed transfer
+ * The quota is enforced again, under the ledger lock, when the relayer co-signs
+ * @param identity - Account key from verifyMetaKeepIdentity
+ */
+export async function checkRelayQuota(
+  identity: string,
+  cluster: Cluster
+): Promise<void> {
+  assertWithinQuota(await ledger.read(), identity, cluster, Date.now());
+}
+
+/**
+ * HMAC binding a message to the MetaKeep account it was built for
+ */
+function signRelayTicket(
+  relayer: Keypair,
+  message: Uint8Array,
+  identity: string
+): string {
+  return createHmac("sha256", relayer.secretKey)
+    .update(identity)
+    .update(message)
+    .digest("hex");
+}
+
+/**
+ * Tag a message the relayer built so it only ever co-signs its own
+ * transactions, for the MetaKeep account verified when building it
+ * @returns Ticket carrying the account key and an HMAC keyed by the relayer secret
+ */
+export function createRelayTicket(
+  relayer: Keypair,
+  message: Uint8Array,
+  identity: string
+): string {
+  return `${identity}.${signRelayTicket(relayer, message, identity)}`;
+}
+
+/**
+ * Check a relay ticket against a serialized message
+ * @returns The MetaKeep account key the message was built for, or null when
+ * the ticket does not match
+ */
+export function readRelayTicket(
+  relayer: Keypair,
+  message: Uint8Array,
+  ticket: string
+): string | null {
+  const [identity, mac] = ticket.split(".");
+  if (!identity || !mac) return null;
+  const expected = Buffer.from(
+    signRelayTicket(relayer, message, identity),
+    "hex"
+  );
+  const actual = Buffer.from(mac, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+    ? identity
+    : null;
+}
+
+/**
+ * Find a relayed transfer by the signature its sender added
+ * Senders cannot know the transaction id in advance, since the relayer signs
+ * first; the mapping is recorded before the broadcast starts
+ */
+export async function findRelayedTransfer(
+  senderSignature: string,
+  cluster: Cluster
+): Promise<RelayedTransfer | undefined> {
+  return findLastRecord(
+    await ledger.read(),
+    (transfer) =>
+      transfer.senderSignature === senderSignature &&
+      transfer.cluster === cluster
+  );
+}
+
+/**
+ * Co-sign and broadcast a relayed transfer the sender has already signed
+ * The quota check and a submitted entry happen under one lock so concurrent
+ * submits cannot exceed it; the broadcast runs outside the lock so a slow
+ * transfer does not hold up others, and the entry is updated once it
+ * settles. The entry is kept whatever the outcome, since a timed out
+ * transfer may still land, so the sender's signature can always be traced to
+ * the transaction id
+ * @param sender - Wallet the transfer is relayed for
+ * @param identity - MetaKeep account key read from the relay ticket
+ */
+export async function relayTransaction(
+  connection: Connection,
+  cluster: Cluster,
+  relayer: Keypair,
+  transaction: VersionedTransaction,
+  sender: PublicKey,
+  identity: string,
+  lastValidBlockHeight?: number
+): Promise<BroadcastResult> {
+  const signature = await ledger.withLedger(async (transfers, append) => {
+    const now = Date.now();
+    assertWithinQuota(transfers, identity, cluster, now);
+    await assertRelayerFunded(connection, relayer.publicKey);
+
+    transaction.sign([relayer]);
+    const senderIndex = transaction.message.staticAccountKeys.findIndex((key) =>
+      key.equals(sender)
+    );
+    // The fee payer signs first, so its signature is the transaction id
+    const txId = bs58.encode(transaction.signatures[0]);
+    await append({
+      address: sender.toBase58(),
+      identity,
+      cluster,
+      signature: txId,
+      senderSignature: bs58.encode(transaction.signatures[senderIndex]),
+      status: "submitted",
+      relayedAt: now,
+    });
+    return txId;
+  });
+
+  const result = await broadcastTransaction(
+    connection,
+    transaction,
+    lastValidBlockHeight
+  );
+
+  await ledger.withLedger(async (transfers, _append, commit) => {
+    const index = transfers.findIndex(
+      (transfer) => transfer.signature === signature
+    );
+    if (index === -1) return;
+    transfers[index].status = result.status;
+    await commit();
+  });
+  return result;
+}
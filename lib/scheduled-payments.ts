@@ -0,0 +1,561 @@
+/**
+ * Scheduled and recurring payments
+ * USDC payments on a cron-like cadence, persisted in localStorage per wallet
+ * and cluster. Due runs are signed by the user; late ones are recorded as missed.
+ */
+
+import { isValidAddress } from "@/lib/address";
+import { validateAmount } from "@/lib/amount";
+import type { Cluster } from "@/lib/clusters";
+import { validateMemo } from "@/lib/memo";
+import {
+  hasExpired,
+  type TransactionStatusResponse,
+} from "@/lib/pending-transactions";
+
+/**
+ * localStorage key for the schedule store
+ */
+const SCHEDULES_KEY = "scheduledPayments";
+
+/**
+ * How long after its due time a run can still be paid before it is missed
+ */
+export const MISSED_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run history kept per schedule
+ */
+const MAX_RUNS = 50;
+
+/**
+ * How far ahead the next cadence match is searched for, in days
+ */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+/**
+ * Common cadences offered in the schedule form
+ */
+export const CADENCE_PRESETS: { label: string; cadence: string }[] = [
+  { label: "Daily at 09:00", cadence: "0 9 * * *" },
+  { label: "Weekly on Monday at 09:00", cadence: "0 9 * * 1" },
+  { label: "Weekly on Friday at 17:00", cadence: "0 17 * * 5" },
+  { label: "Monthly on the 1st at 09:00", cadence: "0 9 1 * *" },
+];
+
+/**
+ * Outcome of one scheduled run; pending runs were submitted but have not
+ * been seen to land or expire yet
+ */
+export type ScheduledRunStatus = "paid" | "pending" | "failed" | "missed";
+
+/**
+ * Recorded run of a schedule, keyed by its due time
+ */
+export interface ScheduledRun {
+  dueAt: number;
+  status: ScheduledRunStatus;
+  signature: string | null;
+  error: string | null;
+  updatedAt: number;
+  /** Blockhash expiry of a pending run's transaction */
+  lastValidBlockHeight?: number;
+}
+
+/**
+ * Result of paying a run: a confirmed signature, a signature whose outcome
+ * is not known yet, or an error from a transfer that cannot have landed
+ */
+export type RunResult =
+  | { signature: string }
+  | { pendingSignature: string; lastValidBlockHeight: number }
+  | { error: string };
+
+/**
+ * Persisted payment schedule
+ * nextRunAt is null once the schedule has passed its end date
+ */
+export interface ScheduledPayment {
+  id: string;
+  wallet: string;
+  cluster: Cluster;
+  recipient: string;
+  amount: string;
+  memo?: string;
+  cadence: string;
+  endAt: number | null;
+  nextRunAt: number | null;
+  createdAt: number;
+  runs: ScheduledRun[];
+}
+
+/**
+ * Schedule fields provided when creating a schedule
+ */
+export interface ScheduleInput {
+  recipient: string;
+  amount: string;
+  memo?: string;
+  cadence: string;
+  endAt: number | null;
+}
+
+/**
+ * Parsed cadence: allowed values per cron field
+ */
+interface Cadence {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Parse one cron field: *, numbers, ranges, lists and steps
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number
+): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end =
+      match[1] === "*"
+        ? max
+        : match[3] !== undefined
+          ? Number(match[3])
+          : match[4] !== undefined
+            ? max
+            : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day month weekday)
+ * Weekday 0 and 7 are both Sunday; times are in the browser's time zone
+ */
+function parseCadence(cadence: string): Cadence | null {
+  const fields = cadence.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+/**
+ * Check a cadence allows a calendar day
+ * As in cron, a day matches either restricted day field when both are set
+ */
+function matchesDay(cadence: Cadence, date: Date): boolean {
+  if (!cadence.months.has(date.getMonth() + 1)) return false;
+  const dayOfMonth = cadence.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cadence.daysOfWeek.has(date.getDay());
+  if (cadence.anyDayOfMonth) return dayOfWeek;
+  if (cadence.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Check whether a cadence expression is valid
+ */
+export function isValidCadence(cadence: string): boolean {
+  return parseCadence(cadence) !== null;
+}
+
+/**
+ * Label for a cadence, using the preset name where there is one
+ */
+export function describeCadence(cadence: string): string {
+  const preset = CADENCE_PRESETS.find(
+    (option) => option.cadence === cadence.trim()
+  );
+  return preset?.label ?? cadence.trim();
+}
+
+/**
+ * First time strictly after a timestamp that matches a cadence
+ * @returns Timestamp in ms, or null for invalid or never-matching cadences
+ */
+export function nextCadenceRun(cadence: string, after: number): number | null {
+  const parsed = parseCadence(cadence);
+  if (!parsed) return null;
+
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let day = 0; day < MAX_SEARCH_DAYS; day++) {
+    if (matchesDay(parsed, date)) {
+      for (let hour = date.getHours(); hour < 24; hour++) {
+        if (!parsed.hours.has(hour)) continue;
+        const firstMinute = hour === date.getHours() ? date.getMinutes() : 0;
+        for (let minute = firstMinute; minute < 60; minute++) {
+          if (!parsed.minutes.has(minute)) continue;
+          const run = new Date(date);
+          run.setHours(hour, minute, 0, 0);
+          return run.getTime();
+        }
+      }
+    }
+    date.setDate(date.getDate() + 1);
+    date.setHours(0, 0, 0, 0);
+  }
+  return null;
+}
+
+/**
+ * Next run after a timestamp, or null once it would fall past the end date
+ */
+function nextRunWithin(
+  schedule: Pick<ScheduledPayment, "cadence" | "endAt">,
+  after: number
+): number | null {
+  const next = nextCadenceRun(schedule.cadence, after);
+  if (next === null) return null;
+  return schedule.endAt !== null && next > schedule.endAt ? null : next;
+}
+
+/**
+ * Validate schedule fields, returning an error message or null
+ * @param decimals - Decimals of the USDC mint on the schedule's cluster
+ */
+export function validateSchedule(
+  input: ScheduleInput,
+  decimals: number,
+  now = Date.now()
+): string | null {
+  if (!isValidAddress(input.recipient.trim())) return "Invalid Solana address";
+  const amountError = validateAmount(input.amount.trim(), decimals);
+  if (amountError) return amountError;
+  if (input.memo) {
+    const memoError = validateMemo(input.memo.trim());
+    if (memoError) return memoError;
+  }
+  if (!isValidCadence(input.cadence)) {
+    return "Cadence must be a cron expression: minute hour day month weekday";
+  }
+  if (input.endAt !== null && input.endAt <= now) {
+    return "End date must be in the future";
+  }
+  if (nextRunWithin(input, now) === null) {
+    return "Cadence has no runs before the end date";
+  }
+  return null;
+}
+
+/**
+ * Load all schedules from localStorage
+ */
+export function loadSchedules(): ScheduledPayment[] {
+  try {
+    const raw = localStorage.getItem(SCHEDULES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to load scheduled payments:", error);
+    return [];
+  }
+}
+
+/**
+ * Persist all schedules to localStorage
+ */
+export function saveSchedules(schedules: ScheduledPayment[]): void {
+  localStorage.setItem(SCHEDULES_KEY, JSON.stringify(schedules));
+}
+
+/**
+ * Schedules belonging to a wallet on a cluster
+ */
+export function getWalletSchedules(
+  schedules: ScheduledPayment[],
+  wallet: string,
+  cluster: Cluster
+): ScheduledPayment[] {
+  return schedules.filter(
+    (schedule) => schedule.wallet === wallet && schedule.cluster === cluster
+  );
+}
+
+/**
+ * Add a schedule for a wallet, with its first run after now
+ * Expects input that passed validateSchedule
+ */
+export function addSchedule(
+  schedules: ScheduledPayment[],
+  input: ScheduleInput,
+  wallet: string,
+  cluster: Cluster,
+  now = Date.now()
+): ScheduledPayment[] {
+  const fields = {
+    recipient: input.recipient.trim(),
+    amount: input.amount.trim(),
+    memo: input.memo?.trim() || undefined,
+    cadence: input.cadence.trim(),
+    endAt: input.endAt,
+  };
+  return [
+    ...schedules,
+    {
+      id: crypto.randomUUID(),
+      wallet,
+      cluster,
+      ...fields,
+      nextRunAt: nextRunWithin(fields, now),
+      createdAt: now,
+      runs: [],
+    },
+  ];
+}
+
+/**
+ * Remove a schedule by id
+ */
+export function removeSchedule(
+  schedules: ScheduledPayment[],
+  id: string
+): ScheduledPayment[] {
+  return schedules.filter((schedule) => schedule.id !== id);
+}
+
+/**
+ * Insert or replace the run with the same due time, keeping the latest runs
+ */
+function withRun(runs: ScheduledRun[], run: ScheduledRun): ScheduledRun[] {
+  return [...runs.filter((existing) => existing.dueAt !== run.dueAt), run]
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .slice(-MAX_RUNS);
+}
+
+/**
+ * Build the history entry for a run result
+ */
+function toRun(dueAt: number, result: RunResult, now: number): ScheduledRun {
+  if ("signature" in result) {
+    return {
+      dueAt,
+      status: "paid",
+      signature: result.signature,
+      error: null,
+      updatedAt: now,
+    };
+  }
+  if ("pendingSignature" in result) {
+    return {
+      dueAt,
+      status: "pending",
+      signature: result.pendingSignature,
+      error: null,
+      updatedAt: now,
+      lastValidBlockHeight: result.lastValidBlockHeight,
+    };
+  }
+  return {
+    dueAt,
+    status: "failed",
+    signature: null,
+    error: result.error,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Record the outcome of a run
+ * Any outcome for the next run (paid, pending or failed) advances the
+ * schedule past it; retries of earlier runs only update their history entry
+ */
+export function recordRun(
+  schedules: ScheduledPayment[],
+  id: string,
+  dueAt: number,
+  result: RunResult,
+  now = Date.now()
+): ScheduledPayment[] {
+  return schedules.map((schedule) => {
+    if (schedule.id !== id) return schedule;
+    const run = toRun(dueAt, result, now);
+    return {
+      ...schedule,
+      nextRunAt:
+        schedule.nextRunAt === dueAt
+          ? nextRunWithin(schedule, Math.max(dueAt, now))
+          : schedule.nextRunAt,
+      runs: withRun(schedule.runs, run),
+    };
+  });
+}
+
+/**
+ * Record runs that were not paid within MISSED_AFTER_MS as missed
+ * Later runs that already passed while the app was closed are missed too,
+ * except the most recent one while it can still be paid
+ * @returns The same array when nothing changed
+ */
+export function markMissedRuns(
+  schedules: ScheduledPayment[],
+  now = Date.now()
+): ScheduledPayment[] {
+  let changed = false;
+  const next = schedules.map((schedule) => {
+    let { nextRunAt, runs } = schedule;
+    while (nextRunAt !== null && nextRunAt <= now) {
+      const following = nextRunWithin(schedule, nextRunAt);
+      const stillPayable =
+        now - nextRunAt < MISSED_AFTER_MS &&
+        (following === null || following > now);
+      if (stillPayable) break;
+
+      runs = withRun(runs, {
+        dueAt: nextRunAt,
+        status: "missed",
+        signature: null,
+        error: null,
+        updatedAt: now,
+      });
+      nextRunAt = following;
+    }
+    if (nextRunAt === schedule.nextRunAt) return schedule;
+    changed = true;
+    return { ...schedule, nextRunAt, runs };
+  });
+  return changed ? next : schedules;
+}
+
+/**
+ * Pending runs that are due now, oldest first
+ */
+export function getDueRuns(
+  schedules: ScheduledPayment[],
+  now = Date.now()
+): { schedule: ScheduledPayment; dueAt: number }[] {
+  return schedules
+    .flatMap((schedule) =>
+      schedule.nextRunAt !== null && schedule.nextRunAt <= now
+        ? [{ schedule, dueAt: schedule.nextRunAt }]
+        : []
+    )
+    .sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/**
+ * Runs with a given status across schedules, newest first
+ */
+function getRunsWithStatus(
+  schedules: ScheduledPayment[],
+  statuses: ScheduledRunStatus[]
+): { schedule: ScheduledPayment; run: ScheduledRun }[] {
+  return schedules
+    .flatMap((schedule) =>
+      schedule.runs
+        .filter((run) => statuses.includes(run.status))
+        .map((run) => ({ schedule, run }))
+    )
+    .sort((a, b) => b.run.dueAt - a.run.dueAt);
+}
+
+/**
+ * Missed and failed runs that can be retried, newest first
+ */
+export function getRetryableRuns(
+  schedules: ScheduledPayment[]
+): { schedule: ScheduledPayment; run: ScheduledRun }[] {
+  return getRunsWithStatus(schedules, ["failed", "missed"]);
+}
+
+/**
+ * Submitted runs waiting for their transaction to land or expire
+ */
+export function getPendingRuns(
+  schedules: ScheduledPayment[]
+): { schedule: ScheduledPayment; run: ScheduledRun }[] {
+  return getRunsWithStatus(schedules, ["pending"]);
+}
+
+/**
+ * Settle pending runs from a /api/transaction-status check: landed runs are
+ * paid, and runs that failed on-chain or expired become retryable
+ */
+export function applyRunStatuses(
+  schedules: ScheduledPayment[],
+  response: TransactionStatusResponse,
+  now = Date.now()
+): ScheduledPayment[] {
+  const settle = (run: ScheduledRun): ScheduledRun => {
+    const status = response.statuses.find(
+      (candidate) => candidate.signature === run.signature
+    );
+    if (run.status !== "pending" || !status) return run;
+    if (status.stage === "confirmed" || status.stage === "finalized") {
+      return { ...run, status: "paid", error: null, updatedAt: now };
+    }
+    if (status.stage === "failed") {
+      return { ...run, status: "failed", error: status.error, updatedAt: now };
+    }
+    if (
+      run.lastValidBlockHeight !== undefined &&
+      hasExpired(status, response.blockHeight, run.lastValidBlockHeight)
+    ) {
+      return {
+        ...run,
+        status: "failed",
+        error: "Transaction expired before it confirmed",
+        updatedAt: now,
+      };
+    }
+    return run;
+  };
+
+  return schedules.map((schedule) =>
+    schedule.runs.some((run) => run.status === "pending")
+      ? { ...schedule, runs: schedule.runs.map(settle) }
+      : schedule
+  );
+}
+
+/**
+ * Remove a missed or failed run from a schedule's history
+ */
+export function dismissRun(
+  schedules: ScheduledPayment[],
+  id: string,
+  dueAt: number
+): ScheduledPayment[] {
+  return schedules.map((schedule) =>
+    schedule.id === id
+      ? {
+          ...schedule,
+          runs: schedule.runs.filter((run) => run.dueAt !== dueAt),
+        }
+      : schedule
+  );
+}
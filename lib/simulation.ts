@@ -0,0 +1,190 @@
+/**
+ * Pre-sign transaction simulation
+ * Simulates a transaction and reports balance changes per wallet
+ */
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  VersionedTransaction,
+  type AccountInfo,
+} from "@solana/web3.js";
+import {
+  AccountLayout,
+  ACCOUNT_SIZE,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import {
+  decodeTransactionError,
+  type DecodedTransactionError,
+} from "@/lib/transaction-errors";
+import type { Cluster } from "@/lib/clusters";
+import { getTokenInfo } from "@/lib/tokens";
+
+/**
+ * Balance change of one asset for one wallet
+ * Amounts are in base units; mint is null for SOL
+ */
+export interface BalanceChange {
+  owner: string;
+  mint: string | null;
+  symbol: string;
+  decimals: number;
+  before: string;
+  after: string;
+  delta: string;
+}
+
+/**
+ * Simulation result returned by /api/simulate
+ */
+export interface SimulationResult {
+  success: boolean;
+  error: DecodedTransactionError | null;
+  logs: string[];
+  unitsConsumed: number | null;
+  balanceChanges: BalanceChange[];
+}
+
+/**
+ * Balance held by an account, keyed by wallet owner and asset
+ */
+interface AccountBalance {
+  owner: string;
+  mint: string | null;
+  amount: bigint;
+}
+
+/**
+ * Read the balance an account represents
+ * Token accounts report their token amount, system accounts their lamports
+ */
+function readBalance(
+  address: PublicKey,
+  info: Pick<AccountInfo<Buffer>, "owner" | "lamports" | "data"> | null
+): AccountBalance | null {
+  if (!info) return null;
+
+  if (info.owner.equals(TOKEN_PROGRAM_ID) && info.data.length >= ACCOUNT_SIZE) {
+    const account = AccountLayout.decode(info.data.subarray(0, ACCOUNT_SIZE));
+    return {
+      owner: account.owner.toBase58(),
+      mint: account.mint.toBase58(),
+      amount: account.amount,
+    };
+  }
+
+  if (info.owner.equals(SystemProgram.programId)) {
+    return {
+      owner: address.toBase58(),
+      mint: null,
+      amount: BigInt(info.lamports),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Simulate a transaction and compute balance changes for its writable accounts
+ * @param connection - Solana connection
+ * @param transaction - Unsigned or partially signed transaction
+ * @param wallets - Wallets whose balance changes should be reported
+ * @param cluster - Cluster the connection points at, used to label tokens
+ */
+export async function simulateWithBalanceChanges(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  wallets: string[],
+  cluster: Cluster
+): Promise<SimulationResult> {
+  const message = transaction.message;
+  const accountKeys = message.staticAccountKeys;
+  const writable = accountKeys.filter((_, index) =>
+    message.isAccountWritable(index)
+  );
+
+  const [preAccounts, simulation] = await Promise.all([
+    connection.getMultipleAccountsInfo(writable),
+    connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: "base64",
+        addresses: writable.map((key) => key.toBase58()),
+      },
+    }),
+  ]);
+
+  const { err, logs, unitsConsumed, accounts } = simulation.value;
+  if (err) {
+    return {
+      success: false,
+      error: decodeTransactionError(err, message),
+      logs: logs ?? [],
+      unitsConsumed: unitsConsumed ?? null,
+      balanceChanges: [],
+    };
+  }
+
+  // Sum balances per wallet and asset before and after
+  const totals = new Map<
+    string,
+    { owner: string; mint: string | null; before: bigint; after: bigint }
+  >();
+  const add = (balance: AccountBalance | null, field: "before" | "after") => {
+    if (!balance || !wallets.includes(balance.owner)) return;
+    const key = `${balance.owner}:${balance.mint ?? "SOL"}`;
+    const entry = totals.get(key) ?? {
+      owner: balance.owner,
+      mint: balance.mint,
+      before: BigInt(0),
+      after: BigInt(0),
+    };
+    entry[field] += balance.amount;
+    totals.set(key, entry);
+  };
+
+  writable.forEach((key, index) => {
+    add(readBalance(key, preAccounts[index]), "before");
+
+    const post = accounts?.[index];
+    add(
+      readBalance(
+        key,
+        post
+          ? {
+              owner: new PublicKey(post.owner),
+              lamports: post.lamports,
+              data: Buffer.from(post.data[0], "base64"),
+            }
+          : null
+      ),
+      "after"
+    );
+  });
+
+  const balanceChanges: BalanceChange[] = [];
+  for (const entry of totals.values()) {
+    if (entry.before === entry.after) continue;
+    const token = entry.mint ? getTokenInfo(entry.mint, cluster) : null;
+    balanceChanges.push({
+      owner: entry.owner,
+      mint: entry.mint,
+      symbol: entry.mint ? (token?.symbol ?? "Unknown") : "SOL",
+      decimals: entry.mint ? (token?.decimals ?? 0) : 9,
+      before: entry.before.toString(),
+      after: entry.after.toString(),
+      delta: (entry.after - entry.before).toString(),
+    });
+  }
+
+  return {
+    success: true,
+    error: null,
+    logs: logs ?? [],
+    unitsConsumed: unitsConsumed ?? null,
+    balanceChanges,
+  };
+}
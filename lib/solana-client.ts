@@ -0,0 +1,298 @@
+/**
+ * Shared server-side Solana client
+ * One connection per cluster over an ordered list of RPC endpoints, with
+ * per-endpoint health tracking, timeouts, backoff and circuit breaking
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import { AppError } from "@/lib/errors";
+import {
+  ENABLED_CLUSTERS,
+  DEFAULT_CLUSTER,
+  getClusterConfig,
+  type Cluster,
+} from "@/lib/clusters";
+
+/**
+ * Per-request timeout and attempts across all endpoints
+ */
+const RPC_TIMEOUT_MS = Number(process.env.SOLANA_RPC_TIMEOUT_MS || 10_000);
+const RPC_MAX_ATTEMPTS = Number(process.env.SOLANA_RPC_MAX_ATTEMPTS || 4);
+
+/**
+ * Exponential backoff before retrying an endpoint that already failed
+ */
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4_000;
+
+/**
+ * Consecutive failures that open an endpoint's circuit, and how long it stays open
+ */
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 30_000;
+
+/**
+ * Prefix of errors thrown when every endpoint failed, matched by getErrorCode
+ */
+const RPC_UNAVAILABLE_MESSAGE = "RPC endpoints unavailable";
+
+/**
+ * Health of one RPC endpoint
+ */
+interface EndpointHealth {
+  url: string;
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+/**
+ * Server RPC endpoints for a cluster, in priority order
+ * SOLANA_RPC_URL_<CLUSTER> holds a comma-separated list; the legacy
+ * SOLANA_RPC_URL applies to the default cluster. The public endpoint is
+ * always kept as the last fallback.
+ */
+function getRpcEndpoints(cluster: Cluster): string[] {
+  const overrides: Record<Cluster, string | undefined> = {
+    devnet: process.env.SOLANA_RPC_URL_DEVNET,
+    testnet: process.env.SOLANA_RPC_URL_TESTNET,
+    "mainnet-beta": process.env.SOLANA_RPC_URL_MAINNET,
+    localnet: process.env.SOLANA_RPC_URL_LOCALNET,
+  };
+  const legacy =
+    cluster === DEFAULT_CLUSTER
+      ? process.env.SOLANA_RPC_URL || process.env.NEXT_PUBLIC_SOLANA_RPC_URL
+      : undefined;
+
+  const urls = [overrides[cluster], legacy, getClusterConfig(cluster).rpcUrl]
+    .flatMap((value) => (value ? value.split(",") : []))
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Check that a string is an http(s) URL
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+let validatedEndpoints: Map<Cluster, string[]> | null = null;
+
+/**
+ * Validate RPC and mint configuration for every enabled cluster
+ * Runs once; later calls return the cached result
+ * @returns RPC endpoints per enabled cluster
+ * @throws AppError NOT_CONFIGURED listing every problem found
+ */
+export function validateSolanaConfig(): Map<Cluster, string[]> {
+  if (validatedEndpoints) return validatedEndpoints;
+
+  const problems: string[] = [];
+  if (!(RPC_TIMEOUT_MS > 0)) {
+    problems.push("SOLANA_RPC_TIMEOUT_MS must be a positive number");
+  }
+  if (!Number.isInteger(RPC_MAX_ATTEMPTS) || RPC_MAX_ATTEMPTS < 1) {
+    problems.push("SOLANA_RPC_MAX_ATTEMPTS must be a positive integer");
+  }
+  if (ENABLED_CLUSTERS.length === 0) {
+    problems.push("NEXT_PUBLIC_SOLANA_CLUSTERS names no supported cluster");
+  }
+
+  const endpoints = new Map<Cluster, string[]>();
+  for (const cluster of ENABLED_CLUSTERS) {
+    const urls = getRpcEndpoints(cluster);
+    for (const url of urls.filter((url) => !isHttpUrl(url))) {
+      problems.push(`${cluster}: invalid RPC URL "${url}"`);
+    }
+    endpoints.set(cluster, urls);
+
+    const { usdcMint } = getClusterConfig(cluster);
+    if (usdcMint) {
+      try {
+        new PublicKey(usdcMint);
+      } catch {
+        problems.push(`${cluster}: invalid USDC mint "${usdcMint}"`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new AppError(
+      "NOT_CONFIGURED",
+      `Invalid Solana configuration: ${problems.join("; ")}`
+    );
+  }
+
+  validatedEndpoints = endpoints;
+  return endpoints;
+}
+
+/**
+ * Pick the endpoint for the next attempt
+ * Prefers closed circuits in priority order and endpoints not yet tried for
+ * this request; when every circuit is open, the one reopening soonest
+ */
+function pickEndpoint(
+  endpoints: EndpointHealth[],
+  tried: Set<EndpointHealth>
+): EndpointHealth {
+  const now = Date.now();
+  const available = endpoints.filter((endpoint) => endpoint.openUntil <= now);
+  return (
+    available.find((endpoint) => !tried.has(endpoint)) ??
+    available[0] ??
+    endpoints.reduce((soonest, endpoint) =>
+      endpoint.openUntil < soonest.openUntil ? endpoint : soonest
+    )
+  );
+}
+
+/**
+ * Record a failed attempt, opening the circuit after repeated failures
+ */
+function recordFailure(endpoint: EndpointHealth, reason: string) {
+  endpoint.consecutiveFailures += 1;
+  if (endpoint.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    endpoint.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    console.warn(
+      `RPC endpoint ${endpoint.url} unhealthy (${reason}), pausing for ${CIRCUIT_COOLDOWN_MS / 1000}s`
+    );
+  }
+}
+
+/**
+ * Record a successful attempt, closing the circuit
+ */
+function recordSuccess(endpoint: EndpointHealth) {
+  endpoint.consecutiveFailures = 0;
+  endpoint.openUntil = 0;
+}
+
+/**
+ * Delay before the given attempt, doubling each time with jitter
+ */
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Build a fetch that sends each JSON-RPC request to a healthy endpoint
+ * Timeouts, network errors, 429 and 5xx responses fail over to the next
+ * endpoint; other responses are returned as-is
+ */
+function createFailoverFetch(endpoints: EndpointHealth[]): typeof fetch {
+  return async (_input, init) => {
+    const tried = new Set<EndpointHealth>();
+    let lastReason = "no endpoint reachable";
+
+    for (let attempt = 0; attempt < RPC_MAX_ATTEMPTS; attempt++) {
+      const endpoint = pickEndpoint(endpoints, tried);
+      if (tried.has(endpoint)) {
+        await new Promise((r) => setTimeout(r, backoffDelay(attempt)));
+      }
+      tried.add(endpoint);
+
+      try {
+        const response = await fetch(endpoint.url, {
+          ...init,
+          signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+        });
+        if (response.status !== 429 && response.status < 500) {
+          recordSuccess(endpoint);
+          return response;
+        }
+
+        lastReason = `${response.status} ${response.statusText}`;
+        recordFailure(endpoint, lastReason);
+        // Let the caller see the final error response
+        if (attempt === RPC_MAX_ATTEMPTS - 1) return response;
+        await response.body?.cancel().catch(() => undefined);
+      } catch (error) {
+        lastReason = error instanceof Error ? error.message : String(error);
+        recordFailure(endpoint, lastReason);
+      }
+    }
+
+    throw new Error(`${RPC_UNAVAILABLE_MESSAGE}: ${lastReason}`);
+  };
+}
+
+const endpointsByCluster = new Map<Cluster, EndpointHealth[]>();
+const connections = new Map<Cluster, Connection>();
+const streamConnections = new Map<string, Connection>();
+
+/**
+ * Shared endpoint health for a cluster, created on first use
+ * @throws AppError NOT_CONFIGURED when the configuration is invalid
+ */
+function getEndpoints(cluster: Cluster): EndpointHealth[] {
+  const existing = endpointsByCluster.get(cluster);
+  if (existing) return existing;
+
+  const urls = validateSolanaConfig().get(cluster);
+  if (!urls || urls.length === 0) {
+    throw new AppError("NOT_CONFIGURED", `Cluster ${cluster} is not enabled`);
+  }
+
+  const endpoints: EndpointHealth[] = urls.map((url) => ({
+    url,
+    consecutiveFailures: 0,
+    openUntil: 0,
+  }));
+  endpointsByCluster.set(cluster, endpoints);
+  return endpoints;
+}
+
+/**
+ * Connection whose requests fail over across a cluster's endpoints and whose
+ * websocket is derived from the given URL
+ */
+function createConnection(url: string, endpoints: EndpointHealth[]) {
+  return new Connection(url, {
+    commitment: "confirmed",
+    fetch: createFailoverFetch(endpoints),
+    // Rate limits fail over to another endpoint instead of retrying in place
+    disableRetryOnRateLimit: true,
+  });
+}
+
+/**
+ * Shared connection for a cluster, created on first use
+ * Its websocket stays on the first endpoint; use getStreamConnection for
+ * subscriptions
+ * @throws AppError NOT_CONFIGURED when the configuration is invalid
+ */
+export function getConnection(cluster: Cluster): Connection {
+  const existing = connections.get(cluster);
+  if (existing) return existing;
+
+  const endpoints = getEndpoints(cluster);
+  const connection = createConnection(endpoints[0].url, endpoints);
+  connections.set(cluster, connection);
+  return connection;
+}
+
+/**
+ * Connection for websocket subscriptions on a cluster
+ * Subscribes through the endpoint currently preferred for requests, so new
+ * subscriptions move off an endpoint whose circuit is open
+ * @throws AppError NOT_CONFIGURED when the configuration is invalid
+ */
+export function getStreamConnection(cluster: Cluster): Connection {
+  const endpoints = getEndpoints(cluster);
+  const { url } = pickEndpoint(endpoints, new Set());
+  const key = `${cluster}:${url}`;
+  const existing = streamConnections.get(key);
+  if (existing) return existing;
+
+  const connection = createConnection(url, endpoints);
+  streamConnections.set(key, connection);
+  return connection;
+}
@@ -0,0 +1,137 @@
+/**
+ * Solana Pay transfer request helpers
+ * Encodes and parses solana:<recipient>?amount=&spl-token=&... URIs
+ * See https://docs.solanapay.com/spec#transfer-request
+ */
+
+import bs58 from "bs58";
+
+/**
+ * Solana Pay URI scheme
+ */
+const SOLANA_PAY_PROTOCOL = "solana:";
+
+/**
+ * Base58 Solana address (32-44 characters)
+ */
+const ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Non-negative decimal amount without exponent notation
+ */
+const AMOUNT_REGEX = /^\d+(\.\d+)?$/;
+
+/**
+ * Fields of a Solana Pay transfer request
+ */
+export interface TransferRequest {
+  recipient: string;
+  amount?: string;
+  splToken?: string;
+  reference?: string[];
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+/**
+ * Generate a unique reference key for tracking a payment request
+ * References are random 32-byte public keys with no private key
+ */
+export function generateReference(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return bs58.encode(bytes);
+}
+
+/**
+ * Encode a transfer request into a Solana Pay URI
+ * @param request - Transfer request fields
+ * @returns solana: URI suitable for a QR code
+ */
+export function encodeTransferRequestUrl(request: TransferRequest): string {
+  const params = new URLSearchParams();
+
+  if (request.amount) params.append("amount", request.amount);
+  if (request.splToken) params.append("spl-token", request.splToken);
+  for (const reference of request.reference ?? []) {
+    params.append("reference", reference);
+  }
+  if (request.label) params.append("label", request.label);
+  if (request.message) params.append("message", request.message);
+  if (request.memo) params.append("memo", request.memo);
+
+  const query = params.toString();
+  return `${SOLANA_PAY_PROTOCOL}${request.recipient}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Parse scanned QR contents into a transfer request
+ * Accepts a Solana Pay URI or a bare wallet address
+ * @throws Error if the contents are not a valid transfer request
+ */
+export function parseTransferRequestUrl(input: string): TransferRequest {
+  const trimmed = input.trim();
+
+  if (!trimmed.toLowerCase().startsWith(SOLANA_PAY_PROTOCOL)) {
+    if (!ADDRESS_REGEX.test(trimmed)) {
+      throw new Error("QR code does not contain a Solana address");
+    }
+    return { recipient: trimmed };
+  }
+
+  const body = trimmed.slice(SOLANA_PAY_PROTOCOL.length);
+  const queryIndex = body.indexOf("?");
+  const recipient = decodeURIComponent(
+    queryIndex === -1 ? body : body.slice(0, queryIndex)
+  );
+  const params = new URLSearchParams(
+    queryIndex === -1 ? "" : body.slice(queryIndex + 1)
+  );
+
+  // Transaction requests point at an https endpoint instead of a recipient
+  if (recipient.startsWith("https:")) {
+    throw new Error("Solana Pay transaction requests are not supported");
+  }
+
+  if (!ADDRESS_REGEX.test(recipient)) {
+    throw new Error("Payment request has an invalid recipient address");
+  }
+
+  const request: TransferRequest = { recipient };
+
+  const amount = params.get("amount");
+  if (amount !== null) {
+    if (!AMOUNT_REGEX.test(amount)) {
+      throw new Error("Payment request has an invalid amount");
+    }
+    request.amount = amount;
+  }
+
+  const splToken = params.get("spl-token");
+  if (splToken !== null) {
+    if (!ADDRESS_REGEX.test(splToken)) {
+      throw new Error("Payment request has an invalid token mint");
+    }
+    request.splToken = splToken;
+  }
+
+  const references = params.getAll("reference");
+  if (references.length > 0) {
+    if (references.some((reference) => !ADDRESS_REGEX.test(reference))) {
+      throw new Error("Payment request has an invalid reference");
+    }
+    request.reference = references;
+  }
+
+  const label = params.get("label");
+  if (label) request.label = label;
+
+  const message = params.get("message");
+  if (message) request.message = message;
+
+  const memo = params.get("memo");
+  if (memo) request.memo = memo;
+
+  return request;
+}
@@ -0,0 +1,461 @@
+/**
+ * Swap quote providers
+ * A local constant-product pool stand-in for devnet and localnet and Jupiter elsewhere
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddress,
+} from "@solana/spl-token";
+import type { Cluster } from "@/lib/clusters";
+import { AppError } from "@/lib/errors";
+import { loadKeypairFromEnv } from "@/lib/keypair";
+import { fetchMintDecimals } from "@/lib/mint";
+import { SOL_MINT_ADDRESS } from "@/lib/tokens";
+
+/**
+ * Swap quote returned by /api/swap/quote
+ * Amounts are in base units of the respective mint
+ */
+export interface SwapQuote {
+  provider: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  minOutAmount: string;
+  slippageBps: number;
+  priceImpactPct: number;
+  /** Provider response the quote was read from, sent back when building */
+  raw?: unknown;
+}
+
+/**
+ * Maximum slippage tolerance in basis points
+ */
+export const MAX_SLIPPAGE_BPS = 1_000;
+
+/**
+ * Quote request parameters
+ */
+export interface SwapQuoteParams {
+  inputMint: string;
+  outputMint: string;
+  amount: bigint;
+  slippageBps: number;
+}
+
+/**
+ * Unsigned swap transaction for MetaKeep to sign
+ */
+export interface SwapBuildResult {
+  transaction: VersionedTransaction;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * Pluggable swap quote provider
+ */
+export interface SwapProvider {
+  name: string;
+  getQuote(params: SwapQuoteParams): Promise<SwapQuote>;
+  buildTransaction(quote: SwapQuote, user: PublicKey): Promise<SwapBuildResult>;
+}
+
+/**
+ * Thrown when a quote can no longer be honored within its slippage
+ */
+export class SwapQuoteExpiredError extends Error {
+  constructor(message = "Price moved beyond slippage tolerance") {
+    super(message);
+    this.name = "SwapQuoteExpiredError";
+  }
+}
+
+/**
+ * Validate a quote sent back by the client, returning an error message or null
+ */
+export function validateSwapQuote(quote: SwapQuote): string | null {
+  const isBaseUnits = (value: unknown) =>
+    typeof value === "string" && /^\d+$/.test(value);
+  if (
+    typeof quote.inputMint !== "string" ||
+    typeof quote.outputMint !== "string"
+  ) {
+    return "Quote mints are missing";
+  }
+  if (
+    !isBaseUnits(quote.inAmount) ||
+    !isBaseUnits(quote.outAmount) ||
+    !isBaseUnits(quote.minOutAmount)
+  ) {
+    return "Quote amounts must be non-negative integers";
+  }
+  if (BigInt(quote.inAmount) === BigInt(0)) {
+    return "Quote input amount must be positive";
+  }
+  if (
+    !Number.isInteger(quote.slippageBps) ||
+    quote.slippageBps < 0 ||
+    quote.slippageBps > MAX_SLIPPAGE_BPS
+  ) {
+    return `Slippage must be between 0 and ${MAX_SLIPPAGE_BPS} bps`;
+  }
+  return null;
+}
+
+/**
+ * Apply slippage to an output amount
+ */
+function applySlippage(amount: bigint, slippageBps: number): bigint {
+  return (amount * BigInt(10_000 - slippageBps)) / BigInt(10_000);
+}
+
+/**
+ * Local constant-product pool stand-in
+ * The pool is a server-held wallet whose SOL and token balances are the reserves
+ */
+class LocalPoolProvider implements SwapProvider {
+  name = "local-pool";
+
+  /**
+   * Pool fee in basis points
+   */
+  private static FEE_BPS = BigInt(30);
+
+  /**
+   * SOL kept aside in the pool wallet for fees and rent
+   */
+  private static SOL_BUFFER_LAMPORTS = BigInt(50_000_000);
+
+  constructor(
+    private connection: Connection,
+    private pool: Keypair,
+    private tokenMint: PublicKey
+  ) {}
+
+  /**
+   * Read pool reserves for the given direction
+   */
+  private async getReserves(
+    inputMint: string
+  ): Promise<{ reserveIn: bigint; reserveOut: bigint }> {
+    const poolTokenAccount = await getAssociatedTokenAddress(
+      this.tokenMint,
+      this.pool.publicKey
+    );
+    const [lamports, tokenAccount] = await Promise.all([
+      this.connection.getBalance(this.pool.publicKey),
+      getAccount(this.connection, poolTokenAccount),
+    ]);
+
+    const solReserve = BigInt(lamports) - LocalPoolProvider.SOL_BUFFER_LAMPORTS;
+    const tokenReserve = tokenAccount.amount;
+    if (solReserve <= BigInt(0) || tokenReserve <= BigInt(0)) {
+      throw new Error("Local swap pool has no liquidity");
+    }
+
+    return inputMint === SOL_MINT_ADDRESS
+      ? { reserveIn: solReserve, reserveOut: tokenReserve }
+      : { reserveIn: tokenReserve, reserveOut: solReserve };
+  }
+
+  async getQuote(params: SwapQuoteParams): Promise<SwapQuote> {
+    const { inputMint, outputMint, amount, slippageBps } = params;
+    const pair = [SOL_MINT_ADDRESS, this.tokenMint.toBase58()];
+    if (
+      inputMint === outputMint ||
+      !pair.includes(inputMint) ||
+      !pair.includes(outputMint)
+    ) {
+      throw new Error("Local swap pool only supports SOL and USDC");
+    }
+
+    const { reserveIn, reserveOut } = await this.getReserves(inputMint);
+
+    // x * y = k with the fee taken from the input
+    const amountInWithFee =
+      (amount * (BigInt(10_000) - LocalPoolProvider.FEE_BPS)) / BigInt(10_000);
+    const outAmount =
+      (reserveOut * amountInWithFee) / (reserveIn + amountInWithFee);
+    if (outAmount <= BigInt(0)) {
+      throw new Error("Swap amount too small");
+    }
+
+    return {
+      provider: this.name,
+      inputMint,
+      outputMint,
+      inAmount: amount.toString(),
+      outAmount: outAmount.toString(),
+      minOutAmount: applySlippage(outAmount, slippageBps).toString(),
+      slippageBps,
+      priceImpactPct:
+        (Number(amountInWithFee) / Number(reserveIn + amountInWithFee)) * 100,
+    };
+  }
+
+  async buildTransaction(
+    quote: SwapQuote,
+    user: PublicKey
+  ): Promise<SwapBuildResult> {
+    // Re-quote so the client cannot dictate the output amount
+    const fresh = await this.getQuote({
+      inputMint: quote.inputMint,
+      outputMint: quote.outputMint,
+      amount: BigInt(quote.inAmount),
+      slippageBps: quote.slippageBps,
+    });
+    if (BigInt(fresh.outAmount) < BigInt(quote.minOutAmount)) {
+      throw new SwapQuoteExpiredError();
+    }
+
+    const inAmount = BigInt(fresh.inAmount);
+    const outAmount = BigInt(fresh.outAmount);
+    const pool = this.pool.publicKey;
+    const poolTokenAccount = await getAssociatedTokenAddress(
+      this.tokenMint,
+      pool
+    );
+    const userTokenAccount = await getAssociatedTokenAddress(
+      this.tokenMint,
+      user
+    );
+    const decimals = await fetchMintDecimals(this.connection, this.tokenMint);
+    if (decimals === null) {
+      throw new AppError(
+        "MINT_NOT_FOUND",
+        "Swap token mint not found on this cluster"
+      );
+    }
+
+    const instructions =
+      quote.inputMint === SOL_MINT_ADDRESS
+        ? [
+            SystemProgram.transfer({
+              fromPubkey: user,
+              toPubkey: pool,
+              lamports: inAmount,
+            }),
+            createAssociatedTokenAccountIdempotentInstruction(
+              user, // Payer
+              userTokenAccount, // Associated token account address
+              user, // Owner
+              this.tokenMint // Mint
+            ),
+            createTransferCheckedInstruction(
+              poolTokenAccount, // Source token account
+              this.tokenMint, // Mint
+              userTokenAccount, // Destination token account
+              pool, // Owner
+              outAmount,
+              decimals // Mint decimals
+            ),
+          ]
+        : [
+            createTransferCheckedInstruction(
+              userTokenAccount, // Source token account
+              this.tokenMint, // Mint
+              poolTokenAccount, // Destination token account
+              user, // Owner
+              inAmount,
+              decimals // Mint decimals
+            ),
+            SystemProgram.transfer({
+              fromPubkey: pool,
+              toPubkey: user,
+              lamports: outAmount,
+            }),
+          ];
+
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash("finalized");
+
+    const messageV0 = new TransactionMessage({
+      payerKey: user,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+
+    // Pool signs now; the user's fee-payer signature comes from MetaKeep
+    const transaction = new VersionedTransaction(messageV0);
+    transaction.sign([this.pool]);
+
+    return { transaction, lastValidBlockHeight };
+  }
+}
+
+/**
+ * Fields of a Jupiter quote response the swap relies on
+ */
+interface JupiterQuoteResponse {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  priceImpactPct: string;
+}
+
+/**
+ * Check that a value has the shape of a Jupiter quote response
+ */
+function isJupiterQuote(value: unknown): value is JupiterQuoteResponse {
+  if (typeof value !== "object" || value === null) return false;
+  const quote = value as Record<string, unknown>;
+  return (
+    typeof quote.inputMint === "string" &&
+    typeof quote.outputMint === "string" &&
+    typeof quote.inAmount === "string" &&
+    typeof quote.outAmount === "string" &&
+    typeof quote.otherAmountThreshold === "string" &&
+    typeof quote.slippageBps === "number" &&
+    typeof quote.priceImpactPct === "string"
+  );
+}
+
+/**
+ * Jupiter aggregator provider
+ * See https://dev.jup.ag/docs/swap-api
+ */
+class JupiterProvider implements SwapProvider {
+  name = "jupiter";
+
+  constructor(private apiUrl: string) {}
+
+  async getQuote(params: SwapQuoteParams): Promise<SwapQuote> {
+    const query = new URLSearchParams({
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      amount: params.amount.toString(),
+      slippageBps: String(params.slippageBps),
+    });
+
+    const response = await fetch(`${this.apiUrl}/quote?${query.toString()}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || "Failed to fetch Jupiter quote");
+    }
+
+    const raw: unknown = await response.json();
+    if (!isJupiterQuote(raw)) {
+      throw new Error("Invalid Jupiter quote response");
+    }
+    return {
+      provider: this.name,
+      inputMint: raw.inputMint,
+      outputMint: raw.outputMint,
+      inAmount: raw.inAmount,
+      outAmount: raw.outAmount,
+      minOutAmount: raw.otherAmountThreshold,
+      slippageBps: raw.slippageBps,
+      priceImpactPct: Number(raw.priceImpactPct) * 100,
+      raw,
+    };
+  }
+
+  async buildTransaction(
+    quote: SwapQuote,
+    user: PublicKey
+  ): Promise<SwapBuildResult> {
+    // The response is sent to Jupiter as-is, so it must be the quote shown
+    const { raw } = quote;
+    if (
+      !isJupiterQuote(raw) ||
+      raw.inputMint !== quote.inputMint ||
+      raw.outputMint !== quote.outputMint ||
+      raw.inAmount !== quote.inAmount ||
+      raw.outAmount !== quote.outAmount ||
+      raw.otherAmountThreshold !== quote.minOutAmount ||
+      raw.slippageBps !== quote.slippageBps
+    ) {
+      throw new AppError(
+        "INVALID_REQUEST",
+        "Quote does not match its Jupiter response"
+      );
+    }
+
+    const response = await fetch(`${this.apiUrl}/swap`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        quoteResponse: raw,
+        userPublicKey: user.toBase58(),
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || "Failed to build Jupiter swap");
+    }
+
+    const { swapTransaction, lastValidBlockHeight } = await response.json();
+    return {
+      transaction: VersionedTransaction.deserialize(
+        Buffer.from(swapTransaction, "base64")
+      ),
+      lastValidBlockHeight,
+    };
+  }
+}
+
+/**
+ * Clusters the local pool may run on, where its reserves have no real value
+ */
+const LOCAL_POOL_CLUSTERS: Cluster[] = ["devnet", "localnet"];
+
+/**
+ * Select the configured swap provider
+ * SWAP_PROVIDER=local|jupiter, defaulting to the local pool on devnet and
+ * localnet and to Jupiter elsewhere
+ * @throws AppError NOT_CONFIGURED when the local pool is asked for on another
+ * cluster or has no dedicated wallet
+ */
+export function getSwapProvider(
+  connection: Connection,
+  cluster: Cluster,
+  tokenMint: PublicKey
+): SwapProvider {
+  const localAllowed = LOCAL_POOL_CLUSTERS.includes(cluster);
+  const configured =
+    process.env.SWAP_PROVIDER || (localAllowed ? "local" : "jupiter");
+
+  if (configured === "jupiter") {
+    return new JupiterProvider(
+      process.env.JUPITER_API_URL || "https://lite-api.jup.ag/swap/v1"
+    );
+  }
+
+  if (!localAllowed) {
+    throw new AppError(
+      "NOT_CONFIGURED",
+      "The local swap pool only runs on devnet and localnet"
+    );
+  }
+
+  // A dedicated wallet, so arbitrage against the pool cannot drain the faucet
+  const pool = loadKeypairFromEnv("SWAP_POOL_PRIVATE_KEY");
+  if (!pool) {
+    throw new AppError(
+      "NOT_CONFIGURED",
+      "Local swap pool not configured. Set SWAP_POOL_PRIVATE_KEY."
+    );
+  }
+
+  return new LocalPoolProvider(connection, pool, tokenMint);
+}
@@ -0,0 +1,119 @@
+/**
+ * SPL token registry
+ * Known mints per cluster with display metadata, shared by API routes and the client
+ */
+
+import {
+  DEFAULT_CLUSTER,
+  getClusterConfig,
+  type Cluster,
+} from "@/lib/clusters";
+
+/**
+ * Registered token metadata
+ */
+export interface TokenInfo {
+  mint: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logo?: string;
+}
+
+/**
+ * Token balance held by a wallet, as returned by /api/balances
+ */
+export interface TokenBalance {
+  mint: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logo?: string;
+  amount: string;
+  uiAmount: number;
+  known: boolean;
+  dust: boolean;
+}
+
+/**
+ * Wrapped SOL mint, used to represent native SOL in swap quotes
+ */
+export const SOL_MINT_ADDRESS = "So11111111111111111111111111111111111111112";
+
+/**
+ * Balances below this UI amount are treated as dust
+ */
+export const DUST_THRESHOLD = 0.01;
+
+/**
+ * Parse extra registry entries from NEXT_PUBLIC_TOKEN_REGISTRY (JSON array)
+ * Entries may name a cluster; entries without one belong to the default cluster
+ */
+function loadExtraTokens(): (TokenInfo & { cluster?: string })[] {
+  const raw = process.env.NEXT_PUBLIC_TOKEN_REGISTRY;
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (token): token is TokenInfo & { cluster?: string } =>
+        typeof token?.mint === "string" &&
+        typeof token?.symbol === "string" &&
+        typeof token?.name === "string" &&
+        Number.isInteger(token?.decimals)
+    );
+  } catch (error) {
+    console.error("Invalid NEXT_PUBLIC_TOKEN_REGISTRY:", error);
+    return [];
+  }
+}
+
+const EXTRA_TOKENS = loadExtraTokens();
+
+/**
+ * USDC mint for a cluster, or an empty string if none is configured
+ */
+export function getUsdcMint(cluster: Cluster): string {
+  return getClusterConfig(cluster).usdcMint;
+}
+
+/**
+ * USDC registry entry for a cluster
+ */
+export function getUsdcToken(cluster: Cluster): TokenInfo {
+  return {
+    mint: getUsdcMint(cluster),
+    symbol: "USDC",
+    name: "USD Stablecoin",
+    decimals: 6,
+  };
+}
+
+/**
+ * All registered tokens on a cluster, USDC first
+ */
+export function getTokenRegistry(cluster: Cluster): TokenInfo[] {
+  const usdc = getUsdcToken(cluster);
+  const extra = EXTRA_TOKENS.filter(
+    (token) =>
+      (token.cluster ?? DEFAULT_CLUSTER) === cluster && token.mint !== usdc.mint
+  ).map(({ mint, symbol, name, decimals, logo }) => ({
+    mint,
+    symbol,
+    name,
+    decimals,
+    logo,
+  }));
+  return usdc.mint ? [usdc, ...extra] : extra;
+}
+
+/**
+ * Look up a registered token by mint address on a cluster
+ */
+export function getTokenInfo(
+  mint: string,
+  cluster: Cluster
+): TokenInfo | undefined {
+  return getTokenRegistry(cluster).find((token) => token.mint === mint);
+}
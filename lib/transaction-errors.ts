@@ -0,0 +1,166 @@
+/**
+ * Decoding helpers for on-chain transaction errors
+ * Turns raw TransactionError values into readable messages
+ */
+
+import {
+  SystemProgram,
+  type TransactionError,
+  type VersionedMessage,
+} from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import type { ErrorCode } from "@/lib/errors";
+
+/**
+ * Decoded transaction error returned to the client
+ */
+export interface DecodedTransactionError {
+  code: ErrorCode;
+  name: string;
+  message: string;
+  instructionIndex: number | null;
+  customCode: number | null;
+  programId: string | null;
+}
+
+/**
+ * SPL Token program error names, indexed by custom error code
+ */
+const TOKEN_PROGRAM_ERRORS = [
+  "NotRentExempt",
+  "InsufficientFunds",
+  "InvalidMint",
+  "MintMismatch",
+  "OwnerMismatch",
+  "FixedSupply",
+  "AlreadyInUse",
+  "InvalidNumberOfProvidedSigners",
+  "InvalidNumberOfRequiredSigners",
+  "UninitializedState",
+  "NativeNotSupported",
+  "NonNativeHasBalance",
+  "InvalidInstruction",
+  "InvalidState",
+  "Overflow",
+  "AuthorityTypeNotSupported",
+  "MintCannotFreeze",
+  "AccountFrozen",
+  "MintDecimalsMismatch",
+  "NonNativeNotSupported",
+];
+
+/**
+ * System program error names, indexed by custom error code
+ */
+const SYSTEM_PROGRAM_ERRORS = [
+  "AccountAlreadyInUse",
+  "ResultWithNegativeLamports",
+  "InvalidProgramId",
+  "InvalidAccountDataLength",
+  "MaxSeedLengthExceeded",
+  "AddressWithSeedMismatch",
+  "NonceNoRecentBlockhashes",
+  "NonceBlockhashNotExpired",
+  "NonceUnexpectedBlockhashValue",
+];
+
+/**
+ * Shared error codes for errors the UI can offer a recovery for
+ */
+const ERROR_CODES: Record<string, ErrorCode> = {
+  InsufficientFundsForFee: "INSUFFICIENT_SOL",
+  InsufficientFundsForRent: "INSUFFICIENT_SOL",
+  AccountNotFound: "INSUFFICIENT_SOL",
+  ResultWithNegativeLamports: "INSUFFICIENT_SOL",
+  InsufficientFunds: "INSUFFICIENT_TOKEN",
+  InvalidMint: "MINT_NOT_FOUND",
+  MintMismatch: "MINT_NOT_FOUND",
+  BlockhashNotFound: "TRANSACTION_EXPIRED",
+};
+
+/**
+ * Human-readable messages for well-known error names
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+  InsufficientFundsForFee: "Insufficient SOL to pay the transaction fee",
+  InsufficientFundsForRent: "Insufficient SOL to keep an account rent exempt",
+  AccountNotFound: "Fee payer account not found, fund it with SOL first",
+  BlockhashNotFound: "Transaction blockhash expired, please try again",
+  AlreadyProcessed: "Transaction was already processed",
+  SignatureFailure: "Transaction signature verification failed",
+  ResultWithNegativeLamports: "Insufficient SOL for this transfer",
+  InsufficientFunds: "Insufficient token balance for this transfer",
+  OwnerMismatch: "Token account is not owned by the signer",
+  MintMismatch: "Token account mint does not match the transfer",
+  MintDecimalsMismatch: "Token amount decimals do not match the mint",
+  AccountFrozen: "Token account is frozen",
+};
+
+/**
+ * Resolve the program invoked by a top-level instruction
+ */
+function getProgramId(
+  message: VersionedMessage | undefined,
+  instructionIndex: number
+): string | null {
+  const instruction = message?.compiledInstructions[instructionIndex];
+  if (!message || !instruction) return null;
+  return (
+    message.staticAccountKeys[instruction.programIdIndex]?.toBase58() ?? null
+  );
+}
+
+/**
+ * Decode a raw transaction error into a structured, readable error
+ * @param err - Error from simulation or signature status
+ * @param message - Optional compiled message, used to identify the failing program
+ */
+export function decodeTransactionError(
+  err: TransactionError,
+  message?: VersionedMessage
+): DecodedTransactionError {
+  const decoded: DecodedTransactionError = {
+    code: "TRANSACTION_FAILED",
+    name: "Unknown",
+    message: "Transaction failed",
+    instructionIndex: null,
+    customCode: null,
+    programId: null,
+  };
+
+  if (typeof err === "string") {
+    decoded.name = err;
+  } else if (err && typeof err === "object") {
+    const [key, value] = Object.entries(err)[0] ?? [];
+    if (key === "InstructionError" && Array.isArray(value)) {
+      const [index, detail] = value as [number, unknown];
+      decoded.instructionIndex = index;
+      decoded.programId = getProgramId(message, index);
+
+      if (detail && typeof detail === "object" && "Custom" in detail) {
+        const code = Number((detail as { Custom: number }).Custom);
+        decoded.customCode = code;
+        const programErrors =
+          decoded.programId === TOKEN_PROGRAM_ID.toBase58()
+            ? TOKEN_PROGRAM_ERRORS
+            : decoded.programId === SystemProgram.programId.toBase58()
+              ? SYSTEM_PROGRAM_ERRORS
+              : [];
+        decoded.name = programErrors[code] ?? `Custom(${code})`;
+      } else {
+        decoded.name = String(detail);
+      }
+    } else if (key) {
+      decoded.name = key;
+    }
+  }
+
+  decoded.code = ERROR_CODES[decoded.name] ?? "TRANSACTION_FAILED";
+  decoded.message =
+    ERROR_MESSAGES[decoded.name] ??
+    (decoded.instructionIndex !== null
+      ? `Instruction ${decoded.instructionIndex} failed: ${decoded.name}`
+      : `Transaction failed: ${decoded.name}`);
+
+  return decoded;
+}
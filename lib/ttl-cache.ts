@@ -0,0 +1,84 @@
+/**
+ * Short-lived in-memory cache with request coalescing
+ * Concurrent lookups for a key share one pending load; results are kept
+ * for a fixed TTL and failed loads are not cached
+ */
+
+/**
+ * Cached or in-flight value for one key
+ */
+interface CacheEntry<T> {
+  promise: Promise<T>;
+  expiresAt: number;
+}
+
+/**
+ * Cache of values loaded asynchronously by key
+ */
+export interface TtlCache<T> {
+  /**
+   * Return values for keys in order, loading the missing ones in one call
+   * @param keys - Keys to look up
+   * @param load - Loads the given keys, returning a value for each
+   */
+  getMany(
+    keys: string[],
+    load: (keys: string[]) => Promise<Map<string, T>>
+  ): Promise<T[]>;
+}
+
+/**
+ * Create a cache whose entries expire after a fixed time
+ * @param ttlMs - How long a loaded value is served from the cache
+ * @param maxEntries - Entries kept before expired ones are swept
+ */
+export function createTtlCache<T>(
+  ttlMs: number,
+  maxEntries = 10_000
+): TtlCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const sweep = (now: number) => {
+    if (entries.size < maxEntries) return;
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+  };
+
+  return {
+    async getMany(keys, load) {
+      const now = Date.now();
+      const missing = keys.filter((key) => {
+        const entry = entries.get(key);
+        return !entry || entry.expiresAt <= now;
+      });
+
+      if (missing.length > 0) {
+        sweep(now);
+        const batch = load(missing);
+        for (const key of missing) {
+          const promise = batch.then((values) => {
+            const value = values.get(key);
+            if (value === undefined) {
+              throw new Error(`No value loaded for ${key}`);
+            }
+            return value;
+          });
+          // Drop failed loads so the next lookup retries
+          promise.catch(() => {
+            if (entries.get(key)?.promise === promise) entries.delete(key);
+          });
+          entries.set(key, { promise, expiresAt: now + ttlMs });
+        }
+      }
+
+      return Promise.all(
+        keys.map(
+          (key) =>
+            entries.get(key)?.promise ??
+            Promise.reject(new Error(`No cache entry for ${key}`))
+        )
+      );
+    },
+  };
+}
@@ -4,7 +4,7 @@
 
 declare global {
   interface Window {
-    MetaKeep: typeof MetaKeep;
+    MetaKeep?: typeof MetaKeep;
   }
 }
 
@@ -24,26 +24,54 @@ interface MetaKeepConfigWithUser {
   user?: MetaKeepUser;
 }
 
+/**
+ * Outcome of a MetaKeep request
+ * USER_REQUEST_DENIED and USER_CONSENT_DENIED mean the user declined the
+ * prompt; OPERATION_CANCELLED means they closed it
+ */
+type MetaKeepStatus =
+  | "SUCCESS"
+  | "FAILED"
+  | "USER_REQUEST_DENIED"
+  | "USER_CONSENT_DENIED"
+  | "OPERATION_CANCELLED"
+  | "INVALID_REQUEST";
+
 /**
  * Wallet response from MetaKeep SDK
+ * user is the identity the wallet belongs to
  */
 interface MetaKeepWalletResponse {
-  status: "SUCCESS" | "FAILED";
+  status: MetaKeepStatus;
   wallet: {
     ethAddress?: string;
     solAddress: string;
     eosAddress?: string;
   };
+  user?: MetaKeepUser;
 }
 
 /**
- * Transaction response from MetaKeep SDK
+ * Signing response from MetaKeep SDK
+ * signature is hex encoded, with or without a 0x prefix
  */
-interface TransactionResponse {
-  status: "SUCCESS" | "FAILED" | "USER_REQUEST_DENIED" | "USER_CONSENT_DENIED";
+interface MetaKeepSignResponse {
+  status: MetaKeepStatus;
   signature?: string;
+}
+
+/**
+ * Transaction signing response from MetaKeep SDK
+ */
+interface TransactionResponse extends MetaKeepSignResponse {
   transaction?: string; // Base64 encoded signed transaction
-  [key: string]: any;
+}
+
+/**
+ * Transaction accepted by MetaKeep for signing
+ */
+interface MetaKeepSignableTransaction {
+  serialize(): Uint8Array;
 }
 
 /**
@@ -60,20 +88,30 @@ declare class MetaKeep {
 
   /**
    * Sign a Solana transaction
-   * @param transaction - Solana transaction object (accepts VersionedTransaction, Transaction, or any transaction object)
+   * @param transaction - Solana transaction object (VersionedTransaction or Transaction)
    * @param reason - Reason for signing (shown to user)
-   * @returns Promise with signed transaction
+   * @returns Promise with the signature
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   signTransaction(
-    transaction: any,
+    transaction: MetaKeepSignableTransaction,
     reason: string
   ): Promise<TransactionResponse>;
+
+  /**
+   * Sign an arbitrary message
+   * @param message - Message text to sign
+   * @param reason - Reason for signing (shown to user)
+   * @returns Promise with the signature
+   */
+  signMessage(message: string, reason: string): Promise<MetaKeepSignResponse>;
 }
 
 export {
   MetaKeep,
   MetaKeepConfigWithUser,
+  MetaKeepSignableTransaction,
+  MetaKeepSignResponse,
+  MetaKeepStatus,
   MetaKeepUser,
   MetaKeepWalletResponse,
   TransactionResponse,